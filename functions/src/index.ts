@@ -6,17 +6,22 @@ if (!admin.apps.length) {
   });
 }
 
-import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
 import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
 
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import * as crypto from "crypto";
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
 //import * as bcrypt from 'bcryptjs';
 
-import { getAllSecrets } from './secrets';
+import { getAllSecrets, getSecret } from './secrets';
+import { PaypalClient, PaypalOrder, PaypalAmount, PaypalSubscription } from './paypal';
+import { Receipt, ReceiptLineItem, ReceiptType, getReceiptNumber, formatMoney, renderReceiptHtml } from './receipts';
+import { LedgerAccount, LedgerEntry, SYSTEM_ACCOUNTS, userAccount, postLedgerTransfer, recordOpeningBalance, hasOpeningBalance, getLedgerBalance } from './ledger';
 
 let secretsConfig: {
   EMBY_API_KEY: string;
@@ -38,7 +43,29 @@ async function getSecretsConfig() {
 }
 
 const IS_PAYPAL_SANDBOX = process.env.PAYPAL_SANDBOX === 'true';
+// PAYPAL_API_BASE_URL lets the emulator point PayPal calls at a local stub instead of sandbox/live
+const paypalClient = new PaypalClient(async () => {
+  const secrets = await getSecretsConfig();
+  return IS_PAYPAL_SANDBOX
+    ? { clientId: secrets.PAYPAL_CLIENT_ID_SANDBOX, secret: secrets.PAYPAL_SECRET_SANDBOX, baseUrl: secrets.PAYPAL_API_BASE_SANDBOX }
+    : { clientId: secrets.PAYPAL_CLIENT_ID, secret: secrets.PAYPAL_SECRET, baseUrl: secrets.PAYPAL_API_BASE };
+}, process.env.PAYPAL_API_BASE_URL);
 const BUCKET = admin.storage().bucket();
+const APP_BASE_URL = process.env.APP_BASE_URL || "https://gondolabros.com";
+// Pending trades nobody accepts go back to the sender after this long
+const TRADE_EXPIRY_HOURS = Number(process.env.TRADE_EXPIRY_HOURS) || 72;
+// Outbound trade caps per sender, counting pending and accepted trades
+const TRADE_DAILY_LIMIT = Number(process.env.TRADE_DAILY_LIMIT) || 500;
+const TRADE_WEEKLY_LIMIT = Number(process.env.TRADE_WEEKLY_LIMIT) || 2000;
+// Accounts younger than this can receive trades but not send them
+const TRADE_NEW_ACCOUNT_COOLDOWN_DAYS = Number(process.env.TRADE_NEW_ACCOUNT_COOLDOWN_DAYS) || 7;
+// Two accounts trading back and forth this many times inside the window get flagged for review
+const TRADE_ROUND_TRIP_WINDOW_DAYS = Number(process.env.TRADE_ROUND_TRIP_WINDOW_DAYS) || 7;
+const TRADE_ROUND_TRIP_FLAG_COUNT = Number(process.env.TRADE_ROUND_TRIP_FLAG_COUNT) || 2;
+// Longest note a member can attach to a trade or tip
+const MESSAGE_MAX_LENGTH = 140;
+// Trades in these states handed the tokens back, so they don't count toward limits
+const RETURNED_TRADE_STATUSES = ["declined", "cancelled", "expired"];
 const EMBY_BASE_URL: string = "https://media.gondolabros.com";
 const JELLYSEERR_URL = "https://request-media.gondolabros.com"
 
@@ -49,10 +76,76 @@ const VALID_MAGIC_BYTES: { [key: string]: number[] } = {
   "image/bmp": [0x42, 0x4d],
 };
 
-const SUBSCRIPTION_PLANS: { [key: string]: SubscriptionPlan } = {
-  basic: { monthly: 70 },
-  duo: { monthly: 120 },
-  family: { monthly: 200 },
+// Used until admins populate the subscriptionPlans collection. displayOrder is also the upgrade order.
+const DEFAULT_SUBSCRIPTION_PLANS: { [key: string]: SubscriptionPlan } = {
+  basic: { name: "Basic", monthly: 70, streamLimit: 1, downloads: true, movieRequests: 1, tvRequests: 1, support: "standard", displayOrder: 1 },
+  duo: { name: "Duo", monthly: 120, streamLimit: 2, downloads: true, movieRequests: 2, tvRequests: 2, support: "standard", displayOrder: 2, popular: true },
+  family: { name: "Family", monthly: 200, streamLimit: 5, downloads: true, movieRequests: 5, tvRequests: 5, support: "priority", displayOrder: 3 },
+};
+// Plans are read on every renewal and quota check, so keep the catalog briefly between calls
+const SUBSCRIPTION_PLAN_CACHE_MS = 60 * 1000;
+// Yearly plans cost twelve months less this discount, unless the plan sets its own yearly price
+const YEARLY_DISCOUNT_PERCENT = Number(process.env.YEARLY_DISCOUNT_PERCENT) || 15;
+// Total days a subscription period can spend paused; past this it resumes on its own
+const SUBSCRIPTION_MAX_PAUSE_DAYS = Number(process.env.SUBSCRIPTION_MAX_PAUSE_DAYS) || 60;
+// Cancelled subscriptions keep access this long past endDate, so members can reactivate before Emby is disabled
+const CANCELLATION_GRACE_DAYS = Number(process.env.CANCELLATION_GRACE_DAYS) || 7;
+const CANCELLATION_REASONS = ["too_expensive", "not_using", "missing_content", "technical_issues", "switching_service", "other"] as const;
+const CANCELLATION_COMMENT_MAX_LENGTH = 500;
+// How far back getCancellationStats looks when the admin doesn't say
+const CANCELLATION_STATS_DEFAULT_DAYS = 90;
+// Jellyseerr quotas reset monthly even on yearly plans, so a year's requests can't be spent at once
+const REQUEST_QUOTA_MAX_DAYS = 30;
+
+// Gift vouchers
+const VOUCHER_EXPIRY_DAYS = 365;
+const VOUCHER_MIN_TOKENS = 10;
+const VOUCHER_MAX_TOKENS = 10000;
+const VOUCHER_MAX_MINT_COUNT = 100;
+// No 0/O or 1/I so codes survive being read out loud
+const VOUCHER_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Users checked per backfillLedgerOpeningBalances call, each in its own transaction
+const LEDGER_BACKFILL_PAGE_SIZE = 200;
+// Reconstructed history kept on a drift report, newest last; keeps reports under the document size limit
+const BALANCE_REPORT_MAX_HISTORY = 1000;
+// How stale the public stats/platform doc is allowed to get
+const PLATFORM_STATS_REFRESH_MINUTES = 15;
+// Leaderboards are recomputed on this interval; only the top entries are public, everyone else just sees their own rank
+const LEADERBOARD_REFRESH_MINUTES = 15;
+const LEADERBOARD_TOP_N = 100;
+// Balances are a snapshot, so token holders only have an all-time board
+const LEADERBOARD_PERIODS: { [type in LeaderboardType]: LeaderboardPeriod[] } = {
+  tippers: ["allTime", "monthly", "weekly"],
+  trades: ["allTime", "monthly", "weekly"],
+  tokens: ["allTime"],
+};
+
+// Used until admins populate the tokenPackages collection
+const DEFAULT_TOKEN_PACKAGES: { [key: string]: TokenPackage } = {
+  "tokens-70": { tokens: 70, price: "7.00", displayOrder: 1 },
+  "tokens-120": { tokens: 120, price: "12.00", displayOrder: 2 },
+  "tokens-200": { tokens: 200, price: "20.00", displayOrder: 3 },
+  "tokens-300": { tokens: 300, price: "30.00", displayOrder: 4 },
+  "tokens-1200": { tokens: 1200, price: "120.00", displayOrder: 5 },
+  "tokens-2500": { tokens: 2500, price: "250.00", displayOrder: 6 },
+};
+
+// Orders still pending this long after creation are checked against PayPal
+const PAYPAL_RECONCILE_AFTER_MINUTES = 15;
+// Unpaid orders older than this are given up on
+const PAYPAL_ABANDON_AFTER_HOURS = 72;
+const PAYPAL_RECONCILE_MAX_ATTEMPTS = 5;
+// PayPal bills around the period end, so give its payment webhook time to arrive before expiring
+const PAYPAL_RENEWAL_GRACE_HOURS = 48;
+// PayPal subscription states in which it will keep billing
+const PAYPAL_BILLING_STATUSES = ["APPROVED", "ACTIVE"];
+
+const BOOSTER_PACKS: { [key: string]: BoosterPack } = {
+  "movie-booster-5": { tokens: 50, movie: 5, tv: 0 },
+  "tv-booster-3": { tokens: 60, movie: 0, tv: 3 },
+  "mega-booster": { tokens: 150, movie: 10, tv: 5 },
+  "ultra-booster": { tokens: 300, movie: 20, tv: 10 },
 };
 
 
@@ -109,32 +202,49 @@ interface ProcessTokenPurchaseData {
   userId: string;
   orderId: string;
   sessionId: string;
-  tokens: number;
-  amount: string;
-  currency: string;
 }
 
 interface ProcessTokenPurchaseResponse {
   success: boolean;
   orderId: string;
+  voucherCode?: string | null;
 }
 
 interface ProcessTokenTradeData {
   senderId: string;
   receiverUsername: string;
   tokens: number;
+  message?: string;
 }
 
 interface ProcessTokenTradeResponse {
   success: boolean;
+  tradeId: string;
+  expiresAt: string;
+}
+
+type TradeStatus = "pending" | "accepted" | "declined" | "cancelled" | "expired";
+
+interface RespondToTradeData {
+  tradeId: string;
+  action: "accept" | "decline";
+}
+
+interface CancelTradeData {
+  tradeId: string;
+}
+
+interface TradeActionResponse {
+  success: boolean;
+  status: TradeStatus;
 }
 
 interface CreatePaypalOrderData {
   userId: string;
   sessionId: string;
-  tokens: number;
-  amount: string;
-  currency: string;
+  packageId: string;
+  promoCode?: string;
+  giftVoucher?: boolean;
 }
 
 interface CreatePaypalOrderResponse {
@@ -146,6 +256,10 @@ interface CreateTipOrderData {
   sessionId: string;
   amount: string;
   currency: string;
+  message?: string;
+  isPrivate?: boolean;
+  anonymous?: boolean;
+  goalId?: string;
 }
 
 interface CreateTipOrderResponse {
@@ -158,6 +272,9 @@ interface ProcessTipData {
   sessionId: string;
   amount: string;
   currency: string;
+  message?: string;
+  isPrivate?: boolean;
+  anonymous?: boolean;
 }
 
 interface ProcessTipResponse {
@@ -165,10 +282,313 @@ interface ProcessTipResponse {
   orderId: string;
 }
 
+interface TipGoal {
+  title: string;
+  description: string;
+  targetAmount: string;
+  currency: string;
+  deadline: admin.firestore.Timestamp;
+  active?: boolean;
+  /** Maintained by updateTipGoalTotals from the tips earmarked to the goal */
+  raisedAmount?: string;
+  tipCount?: number;
+}
+
+interface TokenPackage {
+  tokens: number;
+  bonusTokens?: number;
+  price: string;
+  displayOrder: number;
+  activeFrom?: admin.firestore.Timestamp | null;
+  activeUntil?: admin.firestore.Timestamp | null;
+}
+
+interface GetTokenPackagesResponse {
+  packages: Array<{
+    id: string;
+    tokens: number;
+    bonusTokens: number;
+    price: string;
+    currency: string;
+    displayOrder: number;
+    activeUntil: string | null;
+  }>;
+}
+
+interface PromoCode {
+  type: "bonus" | "discount";
+  bonusTokens?: number;
+  discountPercent?: number;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+  expiresAt?: admin.firestore.Timestamp | null;
+  active?: boolean;
+  redemptionCount?: number;
+}
+
+interface PromoCodePricing {
+  tokens: number;
+  bonusTokens: number;
+  promoBonusTokens: number;
+  amount: string;
+  discountAmount: string;
+}
+
+interface CheckPromoCodeData {
+  packageId: string;
+  promoCode: string;
+}
+
+interface CheckPromoCodeResponse extends PromoCodePricing {
+  promoCode: string;
+  type: "bonus" | "discount";
+}
+
+interface VoucherRecord {
+  code: string;
+  tokens: number;
+  status: "active" | "redeemed" | "expired" | "void";
+  source: "balance" | "paypal" | "admin";
+  purchaserId: string | null;
+  purchaserUsername: string | null;
+  orderId?: string | null;
+  note?: string | null;
+  expiresAt: admin.firestore.Timestamp;
+  redeemedBy?: string | null;
+  redeemedByUsername?: string | null;
+}
+
+interface PurchaseVoucherData {
+  tokens: number;
+}
+
+interface PurchaseVoucherResponse {
+  success: boolean;
+  code: string;
+  expiresAt: string;
+}
+
+interface MintVouchersData {
+  tokens: number;
+  count?: number;
+  expiresInDays?: number;
+  note?: string;
+}
+
+interface MintVouchersResponse {
+  success: boolean;
+  codes: string[];
+}
+
+interface RedeemVoucherData {
+  code: string;
+}
+
+interface RedeemVoucherResponse {
+  success: boolean;
+  tokens: number;
+}
+
+interface PaypalOrderRecord {
+  type: "tokenPurchase" | "tip";
+  userId: string;
+  sessionId: string;
+  packageId?: string;
+  tokens?: number;
+  bonusTokens?: number;
+  promoCode?: string | null;
+  promoBonusTokens?: number;
+  discountAmount?: string;
+  giftVoucher?: boolean;
+  message?: string | null;
+  isPrivate?: boolean;
+  anonymous?: boolean;
+  goalId?: string | null;
+  amount: string;
+  currency: string;
+  status: string;
+}
+
+type PaypalCreditResult =
+  | "credited"
+  | "already_credited"
+  | "duplicate_event"
+  | "unknown_order"
+  | "amount_mismatch"
+  | "user_not_found";
+
+interface TokenHistoryItem {
+  source: "tokenPurchases" | "trades" | "redemptions" | "vouchers" | "leaderboardRewards" | "ledger";
+  id: string;
+  description: string;
+  delta: number;
+  balanceAfter: number;
+  createdAt: admin.firestore.Timestamp | null;
+}
+
+interface RebuiltTokenBalance {
+  expectedBalance: number;
+  history: TokenHistoryItem[];
+}
+
+interface PlatformStats {
+  memberCount: number;
+  /** Tips net of refunds, in dollars */
+  totalTips: string;
+  tipCount: number;
+  totalTokensPurchased: number;
+  activeSubscriptions: number;
+  activeSubscriptionsByPlan: { [planId: string]: number };
+  /** Tokens moved in accepted trades */
+  tradeVolume: number;
+  tradeCount: number;
+}
+
+type LeaderboardType = "tippers" | "trades" | "tokens";
+type LeaderboardPeriod = "allTime" | "monthly" | "weekly";
+
+interface LeaderboardScore {
+  userId: string;
+  username: string;
+  /** Dollars tipped, tokens traded or tokens held */
+  value: number;
+}
+
+interface LeaderboardActivity extends LeaderboardScore {
+  occurredAt: Date | null;
+}
+
+/** Leaderboard types built from tips and trades, whose all-time totals are kept per user in leaderboardTotals */
+type LeaderboardActivityType = Exclude<LeaderboardType, "tokens">;
+
+interface LeaderboardTotal extends LeaderboardScore {
+  type: LeaderboardActivityType;
+  updatedAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+}
+
+interface LeaderboardSeasonReward {
+  type: LeaderboardType;
+  /** Inclusive rank range the reward covers, e.g. 1 to 3 */
+  fromRank: number;
+  toRank: number;
+  tokens?: number;
+  badge?: string;
+}
+
+interface LeaderboardSeason {
+  name: string;
+  startDate: admin.firestore.Timestamp;
+  endDate: admin.firestore.Timestamp;
+  /** Checked in order; a user gets the first reward whose type and rank range match */
+  rewards?: LeaderboardSeasonReward[];
+  /** Set once the final standings are archived and rewards granted */
+  closedAt?: admin.firestore.Timestamp;
+}
+
+interface PaypalReconciliationIssue {
+  orderId: string;
+  userId: string;
+  type: string;
+  amount: string;
+  reason: string;
+}
+
+interface PaypalWebhookResource {
+  id: string;
+  status?: string;
+  amount?: { value: string; currency_code: string };
+  custom_id?: string;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+  links?: Array<{ href: string; rel: string }>;
+  dispute_id?: string;
+  reason?: string;
+  disputed_transactions?: Array<{ seller_transaction_id?: string }>;
+}
+
+interface PaypalSaleResource {
+  id: string;
+  state?: string;
+  billing_agreement_id?: string;
+  amount?: { total: string; currency: string };
+}
+
+interface PaypalSubscriptionRecord {
+  userId: string;
+  planId: string;
+  /** Records created before yearly billing have no period and bill monthly */
+  billingPeriod?: BillingPeriod;
+  subscriptionDocId: string;
+  status: string;
+}
+
+interface SetRenewalMethodData {
+  userId: string;
+  method: "tokens" | "paypal";
+}
+
+interface SetRenewalMethodResponse {
+  success: boolean;
+  renewalMethod: "tokens" | "paypal";
+  approvalUrl?: string;
+}
+
+interface ConfirmPaypalRenewalData {
+  userId: string;
+  paypalSubscriptionId: string;
+}
+
+interface ConfirmPaypalRenewalResponse {
+  success: boolean;
+  paypalSubscriptionStatus: string;
+}
+
+interface RefundTokenPurchaseData {
+  purchaseId: string;
+  reason?: string;
+}
+
+interface RefundTokenPurchaseResponse {
+  success: boolean;
+  refundId: string;
+  tokensClawedBack: number;
+  tokensOwed: number;
+}
+
+interface GetReceiptData {
+  type: ReceiptType;
+  id: string;
+}
+
+interface GetReceiptResponse {
+  receiptNumber: string;
+  filename: string;
+  html: string;
+}
+
+interface BackfillLedgerData {
+  startAfter?: string;
+}
+
+interface BackfillLedgerResponse {
+  success: boolean;
+  processed: number;
+  opened: number;
+  skipped: string[];
+  nextCursor: string | null;
+}
+
+interface PaypalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource: PaypalWebhookResource;
+}
+
+type BillingPeriod = "monthly" | "yearly";
+
 interface ProcessSubscriptionData {
   userId: string;
   planId: string;
-  billingPeriod: "monthly" | "yearly";
+  billingPeriod: BillingPeriod;
   duration: number;
   autoRenew?: boolean;
 }
@@ -179,8 +599,134 @@ interface ProcessSubscriptionResponse {
   endDate: string;
 }
 
+/** A plan change that processAutoRenewals applies in place of the renewal at the subscription's endDate */
+interface ScheduledDowngrade {
+  planId: string;
+  billingPeriod: BillingPeriod;
+  requestedAt: admin.firestore.Timestamp;
+}
+
+interface ScheduleDowngradeData {
+  userId: string;
+  planId: string;
+  billingPeriod: BillingPeriod;
+}
+
+interface ScheduleDowngradeResponse {
+  success: boolean;
+  planId: string;
+  billingPeriod: BillingPeriod;
+  effectiveDate: string;
+}
+
+interface CancelScheduledDowngradeData {
+  userId: string;
+}
+
+type CancellationReason = typeof CANCELLATION_REASONS[number];
+
+interface CancelSubscriptionData {
+  userId: string;
+  reason: CancellationReason;
+  comment?: string;
+}
+
+interface CancelSubscriptionResponse {
+  success: boolean;
+  accessEndsAt: string;
+  graceEndsAt: string;
+}
+
+interface ReactivateSubscriptionData {
+  userId: string;
+}
+
+interface ReactivateSubscriptionResponse {
+  success: boolean;
+  subscriptionId: string;
+  endDate: string;
+  tokenCost: number;
+}
+
+interface SubscriptionCancellationRecord {
+  userId: string;
+  subscriptionId: string;
+  planId: string;
+  billingPeriod: BillingPeriod;
+  reason: CancellationReason;
+  comment: string | null;
+  /** Set when the member takes the cancellation back or reactivates during the grace period */
+  reactivated: boolean;
+  createdAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+}
+
+interface GetCancellationStatsData {
+  days?: number;
+}
+
+interface GetCancellationStatsResponse {
+  since: string;
+  total: number;
+  reactivated: number;
+  reasons: { [reason in CancellationReason]: { cancelled: number; reactivated: number } };
+}
+
+interface PauseSubscriptionData {
+  userId: string;
+  days: number;
+}
+
+interface PauseSubscriptionResponse {
+  success: boolean;
+  pausedUntil: string;
+}
+
+interface ResumeSubscriptionData {
+  userId: string;
+}
+
+interface ResumeSubscriptionResponse {
+  success: boolean;
+  endDate: string;
+}
+
 interface SubscriptionPlan {
+  name: string;
+  /** Token price per month */
   monthly: number;
+  /** Token price per year; defaults to twelve months less YEARLY_DISCOUNT_PERCENT */
+  yearly?: number;
+  /** Emby SimultaneousStreamLimit */
+  streamLimit: number;
+  downloads: boolean;
+  /** Jellyseerr request quotas per billing period */
+  movieRequests: number;
+  tvRequests: number;
+  support: "standard" | "priority";
+  displayOrder: number;
+  popular?: boolean;
+}
+
+interface GetSubscriptionPlansResponse {
+  plans: Array<SubscriptionPlan & { id: string; yearly: number }>;
+  yearlyDiscountPercent: number;
+}
+
+interface BoosterPack {
+  tokens: number;
+  movie: number;
+  tv: number;
+}
+
+interface PurchaseBoosterPackData {
+  userId: string;
+  boosterId: string;
+}
+
+interface PurchaseBoosterPackResponse {
+  success: boolean;
+  boosterMovieRequests: number;
+  boosterTvRequests: number;
 }
 
 interface CheckSubscriptionStatusData {
@@ -193,11 +739,22 @@ interface CheckSubscriptionStatusResponse {
     subscriptionId: string;
     planId: string;
     billingPeriod: string;
+    duration: number;
     startDate: string;
     endDate: string;
     status: string;
     autoRenew: boolean;
+    renewalMethod: "tokens" | "paypal";
+    paypalSubscriptionStatus: string | null;
     daysRemaining: number;
+    scheduledDowngrade: { planId: string; billingPeriod: BillingPeriod; effectiveDate: string } | null;
+    /** Set while the subscription is paused; it resumes on its own at this time */
+    pausedUntil: string | null;
+    /** Days of pause this period still has left */
+    pauseDaysAvailable: number;
+    cancellationReason: CancellationReason | null;
+    /** Set on cancelled subscriptions; access is switched off at this time unless the member reactivates */
+    graceEndsAt: string | null;
   };
 }
 
@@ -216,6 +773,8 @@ interface GetJellyseerrQuotasResponse {
     tvUsed: number;
     tvRemaining: number;
     tvDaysToReset: number;
+    movieBoost: number;
+    tvBoost: number;
   };
   error?: string;
 }
@@ -638,59 +1197,384 @@ const isValidMagicBytes = (buffer: Buffer, mimeType: string): boolean => {
   return isValid;
 };
 
+let subscriptionPlanCache: { plans: { [key: string]: SubscriptionPlan }; loadedAt: number } | null = null;
+
+// Helper function to load the subscription plan catalog, falling back to the defaults
+async function getSubscriptionPlanCatalog(): Promise<{ [key: string]: SubscriptionPlan }> {
+  if (subscriptionPlanCache && Date.now() - subscriptionPlanCache.loadedAt < SUBSCRIPTION_PLAN_CACHE_MS) {
+    return subscriptionPlanCache.plans;
+  }
+
+  const snapshot = await admin.firestore().collection("subscriptionPlans").get();
+  let plans: { [key: string]: SubscriptionPlan } = DEFAULT_SUBSCRIPTION_PLANS;
+  if (!snapshot.empty) {
+    plans = {};
+    snapshot.forEach((doc) => {
+      const data = doc.data() as SubscriptionPlan;
+      const counts = [data.monthly, data.streamLimit, data.movieRequests, data.tvRequests];
+      const hasBadYearly = data.yearly !== undefined && (typeof data.yearly !== "number" || data.yearly <= 0);
+      if (!data.name || counts.some((count) => typeof count !== "number" || count < 0) || data.monthly <= 0 || hasBadYearly) {
+        console.error(`Skipping malformed subscription plan ${doc.id}`);
+        return;
+      }
+      plans[doc.id] = {
+        ...data,
+        downloads: data.downloads === true,
+        support: data.support === "priority" ? "priority" : "standard",
+        displayOrder: data.displayOrder ?? 0,
+      };
+    });
+  }
+
+  subscriptionPlanCache = { plans, loadedAt: Date.now() };
+  return plans;
+}
+
+async function getSubscriptionPlan(planId: string): Promise<SubscriptionPlan | null> {
+  const plans = await getSubscriptionPlanCatalog();
+  return plans[planId] || null;
+}
+
+// Helper function to get the token price of one billing period of a plan
+function getPlanPrice(plan: SubscriptionPlan, billingPeriod: BillingPeriod): number {
+  if (billingPeriod === "monthly") return plan.monthly;
+  return plan.yearly ?? Math.round((plan.monthly * 12 * (100 - YEARLY_DISCOUNT_PERCENT)) / 100);
+}
+
+// Helper function to move a date forward by a number of billing periods
+function addBillingPeriods(date: Date, billingPeriod: BillingPeriod, count: number): Date {
+  const result = new Date(date);
+  if (billingPeriod === "yearly") {
+    result.setFullYear(result.getFullYear() + count);
+  } else {
+    result.setMonth(result.getMonth() + count);
+  }
+  return result;
+}
+
 // Helper function to get plan request limits
-function getPlanRequestLimits(planId: string): { movie: number; tv: number } {
-  const limits: { [key: string]: { movie: number; tv: number } } = {
-    basic: { movie: 1, tv: 1 },
-    duo: { movie: 2, tv: 2 },
-    family: { movie: 5, tv: 5 },
-  };
-  
-  return limits[planId] || { movie: 0, tv: 0 };
+async function getPlanRequestLimits(planId: string): Promise<{ movie: number; tv: number }> {
+  const plan = await getSubscriptionPlan(planId);
+  return plan ? { movie: plan.movieRequests, tv: plan.tvRequests } : { movie: 0, tv: 0 };
 }
 
-// Helper function to disable Emby account
-async function disableEmbyAccount(embyUserId: string): Promise<void> {
-  const secrets = await getSecretsConfig();
-  
-  const response = await fetch(`${EMBY_BASE_URL}/Users/${embyUserId}/Policy`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Emby-Token": secrets.EMBY_API_KEY,
-    },
-    body: JSON.stringify({ IsDisabled: true }),
+// Helper function to load the token package catalog, falling back to the defaults
+async function getTokenPackageCatalog(): Promise<{ [key: string]: TokenPackage }> {
+  const snapshot = await admin.firestore().collection("tokenPackages").get();
+  if (snapshot.empty) {
+    return DEFAULT_TOKEN_PACKAGES;
+  }
+
+  const catalog: { [key: string]: TokenPackage } = {};
+  snapshot.forEach((doc) => {
+    const data = doc.data() as TokenPackage;
+    if (typeof data.tokens !== "number" || data.tokens <= 0 || !/^\d+\.\d{2}$/.test(String(data.price))) {
+      console.error(`Skipping malformed token package ${doc.id}`);
+      return;
+    }
+    catalog[doc.id] = { ...data, displayOrder: data.displayOrder ?? 0 };
   });
+  return catalog;
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to disable Emby account: ${response.status}`);
+function isTokenPackageActive(tokenPackage: TokenPackage, now: Date): boolean {
+  if (tokenPackage.activeFrom && tokenPackage.activeFrom.toDate() > now) return false;
+  if (tokenPackage.activeUntil && tokenPackage.activeUntil.toDate() <= now) return false;
+  return true;
+}
+
+// Helper function to normalize user-entered promo codes to their document ID
+function normalizePromoCode(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalized)) {
+    throw new HttpsError("invalid-argument", "Invalid promo code.");
   }
+  return normalized;
 }
 
-async function updateEmbySubscriptionPermissions(embyUserId: string, planId: string): Promise<void> {
-  const secrets = await getSecretsConfig();
-  
-  // Base template - everything disabled by default
-  const basePolicy = {
-    IsAdministrator: false,
-    EnableRemoteAccess: true,
-    EnableMediaPlayback: true,
-    EnableAudioPlaybackTranscoding: true,
-    EnableVideoPlaybackTranscoding: true,
-    EnablePlaybackRemuxing: true,
-    EnableLiveTvAccess: false,
-    EnableLiveTvManagement: false,
-    RemoteClientBitrateLimit: 0,
-    EnableContentDeletion: false,
-    RestrictedFeatures: ["notifications"],
-    EnableRemoteControlOfOtherUsers: false,
-    EnableSharedDeviceControl: false,
-    EnableSyncTranscoding: false,
-    EnableSubtitleDownloading: false,
-    EnableSubtitleManagement: false,
-    AllowCameraUpload: false,
-    EnableMediaConversion: false,
-    EnablePublicSharing: false,
+// Helper function to load a promo code and check it can still be used by this user
+async function getRedeemablePromoCode(
+  code: string,
+  userId: string,
+  transaction?: admin.firestore.Transaction
+): Promise<PromoCode> {
+  const promoRef = admin.firestore().doc(`promoCodes/${code}`);
+  const userRedemptionsQuery = admin
+    .firestore()
+    .collection("promoCodeRedemptions")
+    .where("code", "==", code)
+    .where("userId", "==", userId)
+    .where("status", "in", ["reserved", "redeemed"]);
+
+  const [promoDoc, userRedemptionsSnapshot] = transaction
+    ? [await transaction.get(promoRef), await transaction.get(userRedemptionsQuery)]
+    : await Promise.all([promoRef.get(), userRedemptionsQuery.get()]);
+
+  if (!promoDoc.exists) {
+    throw new HttpsError("not-found", "Promo code not found.");
+  }
+
+  const promo = promoDoc.data() as PromoCode;
+  if (promo.active === false) {
+    throw new HttpsError("failed-precondition", "This promo code is no longer active.");
+  }
+  if (promo.expiresAt && promo.expiresAt.toDate() <= new Date()) {
+    throw new HttpsError("failed-precondition", "This promo code has expired.");
+  }
+  if (promo.maxRedemptions != null && (promo.redemptionCount || 0) >= promo.maxRedemptions) {
+    throw new HttpsError("resource-exhausted", "This promo code has reached its redemption limit.");
+  }
+  if (promo.perUserLimit != null && userRedemptionsSnapshot.size >= promo.perUserLimit) {
+    throw new HttpsError("resource-exhausted", "You have already used this promo code.");
+  }
+
+  const isValidBonus = promo.type === "bonus" && (promo.bonusTokens || 0) > 0;
+  const isValidDiscount = promo.type === "discount" && (promo.discountPercent || 0) > 0 && (promo.discountPercent || 0) < 100;
+  if (!isValidBonus && !isValidDiscount) {
+    console.error(`Promo code ${code} is misconfigured:`, promo);
+    throw new HttpsError("failed-precondition", "This promo code cannot be applied.");
+  }
+
+  return promo;
+}
+
+// Helper function to work out what a token package costs and grants with an optional promo code
+function applyPromoCode(tokenPackage: TokenPackage, promo: PromoCode | null): PromoCodePricing {
+  const promoBonusTokens = promo?.type === "bonus" ? promo.bonusTokens || 0 : 0;
+  const bonusTokens = (tokenPackage.bonusTokens || 0) + promoBonusTokens;
+
+  // Work in cents so discounts never produce fractional-cent amounts
+  const priceCents = Math.round(parseFloat(tokenPackage.price) * 100);
+  const discountCents = promo?.type === "discount"
+    ? Math.round((priceCents * (promo.discountPercent || 0)) / 100)
+    : 0;
+
+  return {
+    tokens: tokenPackage.tokens + bonusTokens,
+    bonusTokens,
+    promoBonusTokens,
+    amount: ((priceCents - discountCents) / 100).toFixed(2),
+    discountAmount: (discountCents / 100).toFixed(2),
+  };
+}
+
+// Helper function to clean up a note attached to a trade or tip; returns null when there is none
+function sanitizeMessage(message: unknown): string | null {
+  if (message === undefined || message === null) return null;
+  if (typeof message !== "string") {
+    throw new HttpsError("invalid-argument", "Message must be text.");
+  }
+
+  // Drop control characters and markup brackets, and fold newlines and runs of spaces into one
+  const cleaned = message.replace(/[\p{Cc}<>]/gu, " ").replace(/\s+/g, " ").trim();
+  if (cleaned.length > MESSAGE_MAX_LENGTH) {
+    throw new HttpsError("invalid-argument", `Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`);
+  }
+  return cleaned || null;
+}
+
+// Helper function to check a tip can be earmarked to a funding goal; returns null when no goal was picked
+async function getOpenTipGoalId(goalId: unknown): Promise<string | null> {
+  if (goalId === undefined || goalId === null || goalId === "") return null;
+  if (typeof goalId !== "string") {
+    throw new HttpsError("invalid-argument", "Goal ID must be a string.");
+  }
+
+  const goalDoc = await admin.firestore().doc(`tipGoals/${goalId}`).get();
+  if (!goalDoc.exists) {
+    throw new HttpsError("not-found", "Funding goal not found.");
+  }
+  const goal = goalDoc.data() as TipGoal;
+  if (goal.active === false || goal.deadline.toDate() <= new Date()) {
+    throw new HttpsError("failed-precondition", "This funding goal is no longer accepting tips.");
+  }
+  return goalId;
+}
+
+// Helper function to work out how much of a tip still counts, in cents, once refunds are taken off
+function getTipContributionCents(tip: admin.firestore.DocumentData | undefined): number {
+  if (!tip || (tip.status !== "completed" && tip.status !== "partially_refunded")) return 0;
+  const amountCents = Math.round(parseFloat(tip.amount || "0") * 100);
+  const refundedCents = Math.round(parseFloat(tip.refundedAmount || "0") * 100);
+  return Math.max(0, amountCents - refundedCents);
+}
+
+// Helper function to generate a voucher code like GB-7KQ2-M9XD-P4RT
+function generateVoucherCode(): string {
+  const bytes = crypto.randomBytes(12);
+  const chars = Array.from(bytes, (byte) => VOUCHER_CODE_ALPHABET[byte % VOUCHER_CODE_ALPHABET.length]).join("");
+  return `GB-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+// Helper function to normalize a typed voucher code to its document ID
+function normalizeVoucherCode(code: string): string {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, "").replace(/^GB/, "");
+  if (chars.length !== 12) {
+    throw new HttpsError("invalid-argument", "Invalid voucher code.");
+  }
+  return `GB-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+// Helper function to find the ledger account that paid for a voucher's tokens
+function getVoucherFundingAccount(voucher: Pick<VoucherRecord, "source" | "purchaserId">): LedgerAccount {
+  if (voucher.source === "balance" && voucher.purchaserId) return userAccount(voucher.purchaserId);
+  return voucher.source === "paypal" ? SYSTEM_ACCOUNTS.paypal : SYSTEM_ACCOUNTS.promotions;
+}
+
+// Helper function to write a new active voucher and move its tokens into the voucher account; returns its code
+function issueVoucher(
+  transaction: admin.firestore.Transaction,
+  voucher: Omit<VoucherRecord, "code" | "status" | "expiresAt">,
+  expiresInDays: number = VOUCHER_EXPIRY_DAYS
+): { code: string; expiresAt: Date } {
+  const code = generateVoucherCode();
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+  // create() fails the transaction on the (vanishingly unlikely) chance the code already exists
+  transaction.create(admin.firestore().doc(`vouchers/${code}`), {
+    ...voucher,
+    code,
+    status: "active",
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+    redeemedBy: null,
+    redeemedByUsername: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  postLedgerTransfer(transaction, {
+    from: getVoucherFundingAccount(voucher),
+    to: SYSTEM_ACCOUNTS.vouchers,
+    amount: voucher.tokens,
+    reason: "voucher_purchase",
+    referenceType: "vouchers",
+    referenceId: code,
+    details: { code },
+  });
+
+  return { code, expiresAt };
+}
+
+// Takes a refunded share of a purchase's voucher back while nobody has redeemed it, voiding the voucher
+// once nothing is left. Returns false when the voucher is already spent or gone.
+// Only writes when it succeeds, so callers can still do transaction reads afterwards when it returns false.
+async function reduceUnredeemedVoucher(
+  transaction: admin.firestore.Transaction,
+  code: string,
+  tokensToRemove: number
+): Promise<boolean> {
+  const voucherRef = admin.firestore().doc(`vouchers/${code}`);
+  const voucherDoc = await transaction.get(voucherRef);
+  const voucher = voucherDoc.data() as VoucherRecord | undefined;
+  if (!voucher || voucher.status !== "active") return false;
+
+  const removed = Math.min(voucher.tokens, tokensToRemove);
+  if (removed <= 0) return true;
+
+  transaction.update(voucherRef, removed < voucher.tokens
+    ? { tokens: voucher.tokens - removed }
+    : { status: "void", voidedAt: admin.firestore.FieldValue.serverTimestamp() });
+  postLedgerTransfer(transaction, {
+    from: SYSTEM_ACCOUNTS.vouchers,
+    to: getVoucherFundingAccount(voucher),
+    amount: removed,
+    reason: "voucher_void",
+    referenceType: "vouchers",
+    referenceId: code,
+    details: { code },
+  });
+  return true;
+}
+
+// Helper function to turn an order's promo code reservation into a redemption
+function markPromoCodeRedeemed(transaction: admin.firestore.Transaction, orderId: string): void {
+  transaction.set(admin.firestore().doc(`promoCodeRedemptions/${orderId}`), {
+    status: "redeemed",
+    redeemedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+}
+
+// Helper function to give back a promo code use held by an order that was never paid
+async function releasePromoCodeReservation(orderId: string, code: string): Promise<void> {
+  const redemptionRef = admin.firestore().doc(`promoCodeRedemptions/${orderId}`);
+  await admin.firestore().runTransaction(async (transaction) => {
+    const redemptionDoc = await transaction.get(redemptionRef);
+    if (!redemptionDoc.exists || redemptionDoc.data()?.status !== "reserved") return;
+
+    transaction.update(redemptionRef, {
+      status: "released",
+      releasedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(admin.firestore().doc(`promoCodes/${code}`), {
+      redemptionCount: admin.firestore.FieldValue.increment(-1),
+    });
+  });
+}
+
+// Helper function to get a subscription's booster requests that are still inside their quota window.
+// Packs bought before boosters had their own expiry have no boosterExpiresAt and last with the subscription.
+function getActiveBoosterRequests(
+  subData: admin.firestore.DocumentData,
+  now: Date = new Date()
+): { movie: number; tv: number } {
+  const expiresAt: admin.firestore.Timestamp | undefined = subData.boosterExpiresAt;
+  if (expiresAt && expiresAt.toDate() <= now) return { movie: 0, tv: 0 };
+  return { movie: subData.boosterMovieRequests || 0, tv: subData.boosterTvRequests || 0 };
+}
+
+// Helper function to add purchased booster requests on top of the plan limits
+async function getBoostedRequestLimits(
+  planId: string,
+  boosterMovieRequests: number = 0,
+  boosterTvRequests: number = 0
+): Promise<{ movieLimit: number; tvLimit: number }> {
+  const planLimits = await getPlanRequestLimits(planId);
+  return {
+    movieLimit: planLimits.movie + boosterMovieRequests,
+    tvLimit: planLimits.tv + boosterTvRequests,
+  };
+}
+
+// Helper function to disable Emby account
+async function disableEmbyAccount(embyUserId: string): Promise<void> {
+  const secrets = await getSecretsConfig();
+  
+  const response = await fetch(`${EMBY_BASE_URL}/Users/${embyUserId}/Policy`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Emby-Token": secrets.EMBY_API_KEY,
+    },
+    body: JSON.stringify({ IsDisabled: true }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to disable Emby account: ${response.status}`);
+  }
+}
+
+async function updateEmbySubscriptionPermissions(embyUserId: string, planId: string): Promise<void> {
+  const secrets = await getSecretsConfig();
+  
+  // Base template - everything disabled by default
+  const basePolicy = {
+    IsAdministrator: false,
+    EnableRemoteAccess: true,
+    EnableMediaPlayback: true,
+    EnableAudioPlaybackTranscoding: true,
+    EnableVideoPlaybackTranscoding: true,
+    EnablePlaybackRemuxing: true,
+    EnableLiveTvAccess: false,
+    EnableLiveTvManagement: false,
+    RemoteClientBitrateLimit: 0,
+    EnableContentDeletion: false,
+    RestrictedFeatures: ["notifications"],
+    EnableRemoteControlOfOtherUsers: false,
+    EnableSharedDeviceControl: false,
+    EnableSyncTranscoding: false,
+    EnableSubtitleDownloading: false,
+    EnableSubtitleManagement: false,
+    AllowCameraUpload: false,
+    EnableMediaConversion: false,
+    EnablePublicSharing: false,
     EnableSocialSharing: false,
     EnableUserPreferenceAccess: false,
     IsDisabled: false,
@@ -701,27 +1585,17 @@ async function updateEmbySubscriptionPermissions(embyUserId: string, planId: str
     EnableAllChannels: true,
   };
 
-  // Plan-specific permissions (only what changes from base)
-  const planPermissions: { [key: string]: any } = {
-    basic: { 
-      SimultaneousStreamLimit: 1, 
-      EnableContentDownloading: true
-    },
-    duo: { 
-      SimultaneousStreamLimit: 2, 
-      EnableContentDownloading: true 
-    },
-    family: { 
-      SimultaneousStreamLimit: 5, 
-      EnableContentDownloading: true 
-    },
-  };
-
-  const permissions = planPermissions[planId];
-  if (!permissions) {
+  const plan = await getSubscriptionPlan(planId);
+  if (!plan) {
     throw new Error(`Unknown plan ID: ${planId}`);
   }
 
+  // Plan-specific permissions (only what changes from base)
+  const permissions = {
+    SimultaneousStreamLimit: plan.streamLimit,
+    EnableContentDownloading: plan.downloads,
+  };
+
   // Merge base policy with plan-specific permissions
   const updatedPolicy = {
     ...basePolicy,
@@ -759,17 +1633,12 @@ async function updateJellyseerrRequestLimits(
   if (customLimits) {
     limits = customLimits;
   } else {
-    const planLimits: { [key: string]: { movieLimit: number; tvLimit: number } } = {
-      basic: { movieLimit: 1, tvLimit: 1 },
-      duo: { movieLimit: 2, tvLimit: 2 },
-      family: { movieLimit: 5, tvLimit: 5 },
-    };
-
-    limits = planLimits[planId];
-    if (!limits) {
+    const plan = await getSubscriptionPlan(planId);
+    if (!plan) {
       console.log(`Unknown plan ${planId}, skipping Jellyseerr update`);
       return;
     }
+    limits = { movieLimit: plan.movieRequests, tvLimit: plan.tvRequests };
   }
 
   if (!embyUserId) {
@@ -822,11 +1691,11 @@ async function updateJellyseerrRequestLimits(
 
     const userDetails = await userDetailsResponse.json();
 
-    let quotaDays = 30;
+    let quotaDays = REQUEST_QUOTA_MAX_DAYS;
     if (subscriptionEndDate) {
       const now = new Date();
       const daysUntilEnd = Math.ceil((subscriptionEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-      quotaDays = Math.max(1, daysUntilEnd); // At least 1 day
+      quotaDays = Math.min(REQUEST_QUOTA_MAX_DAYS, Math.max(1, daysUntilEnd)); // At least 1 day
     }
 
     // MUST send FULL object (Fallenbagel's requirement)
@@ -899,220 +1768,924 @@ async function syncJellyseerrUser(embyUserId: string): Promise<boolean> {
   }
 }
 
-const accountServiceManager = new AccountServiceManager();
+// Helper function to check the admin custom claim on a callable request
+function isAdmin(auth?: { token: admin.auth.DecodedIdToken }): boolean {
+  return auth?.token?.admin === true;
+}
 
-exports.createPaypalOrder = onCall<CreatePaypalOrderData, Promise<CreatePaypalOrderResponse>>(
-  async (request) => {
-    const { userId, sessionId, tokens, amount, currency } = request.data;
-    const auth = request.auth;
+// Helper function to look up the PayPal billing plan that renews one of our plans
+async function getPaypalBillingPlanId(planId: string, billingPeriod: BillingPeriod): Promise<string> {
+  const name = `PAYPAL_BILLING_PLAN_${planId.toUpperCase()}${billingPeriod === "yearly" ? "_YEARLY" : ""}`;
+  const billingPlanId = process.env[name] ||
+    await getSecret(IS_PAYPAL_SANDBOX ? `${name}_SANDBOX` : name).catch(() => null);
+  if (!billingPlanId) {
+    throw new HttpsError("failed-precondition", "PayPal renewal is not available for this plan.");
+  }
+  return billingPlanId;
+}
 
-    if (!auth) {
-      throw new HttpsError("unauthenticated", "User must be authenticated to create a PayPal order.");
-    }
+// Helper function to end a pause: pushes endDate back by the time spent paused and restores Emby and Jellyseerr
+async function resumePausedSubscription(subRef: admin.firestore.DocumentReference): Promise<Date | null> {
+  const result = await admin.firestore().runTransaction(async (transaction) => {
+    const subDoc = await transaction.get(subRef);
+    const subData = subDoc.data();
+    if (!subData || subData.status !== "paused") return null;
 
-    if (auth.uid !== userId) {
-      throw new HttpsError("permission-denied", "User ID does not match authenticated user.");
-    }
+    const userDoc = await transaction.get(admin.firestore().doc(`users/${subData.userId}`));
+    const userData = userDoc.data();
 
-    if (!userId || !sessionId || !tokens || !amount || !currency) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Missing required fields: userId, sessionId, tokens, amount, currency."
+    const pausedMs = Math.max(0, Date.now() - subData.pausedAt.toDate().getTime());
+    const endDate = new Date(subData.endDate.toDate().getTime() + pausedMs);
+    transaction.update(subRef, {
+      status: "active",
+      endDate: admin.firestore.Timestamp.fromDate(endDate),
+      pausedDays: (subData.pausedDays || 0) + Math.ceil(pausedMs / (1000 * 60 * 60 * 24)),
+      pausedAt: admin.firestore.FieldValue.delete(),
+      pausedUntil: admin.firestore.FieldValue.delete(),
+      resumedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const boosters = getActiveBoosterRequests(subData);
+    return {
+      endDate,
+      planId: subData.planId as string,
+      boosterMovieRequests: boosters.movie,
+      boosterTvRequests: boosters.tv,
+      embyUserId: userData?.services?.emby?.serviceUserId || null,
+      email: userData?.email || "",
+    };
+  });
+
+  if (!result) return null;
+
+  if (result.embyUserId) {
+    try {
+      await updateEmbySubscriptionPermissions(result.embyUserId, result.planId);
+      await updateJellyseerrRequestLimits(
+        result.email,
+        result.planId,
+        result.embyUserId,
+        await getBoostedRequestLimits(result.planId, result.boosterMovieRequests, result.boosterTvRequests),
+        result.endDate
       );
+    } catch (error) {
+      console.error(`Failed to restore services for resumed subscription ${subRef.id}:`, error);
     }
+  }
 
-    if (typeof tokens !== "number" || tokens <= 0) {
-      throw new HttpsError("invalid-argument", "Tokens must be a positive number.");
-    }
-    if (typeof amount !== "string" || !amount.match(/^\d+(\.\d{1,2})?$/)) {
-      throw new HttpsError("invalid-argument", "Amount must be a valid monetary value (e.g., '5.00').");
-    }
-    if (currency !== "USD") {
-      throw new HttpsError("invalid-argument", "Currency must be 'USD'.");
-    }
+  return result.endDate;
+}
 
-    const validTokenPackages = [70, 120, 200, 300, 1200, 2500];
-    if (!validTokenPackages.includes(tokens)) {
-      throw new HttpsError("invalid-argument", "Invalid token package.");
-    }
+// Helper function to get when a cancelled subscription loses access for good
+function getGraceEndDate(subData: admin.firestore.DocumentData): Date {
+  return new Date(subData.endDate.toDate().getTime() + CANCELLATION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
 
-    try {
-      const secrets = await getSecretsConfig();
-      
-      const clientId = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_CLIENT_ID_SANDBOX : secrets.PAYPAL_CLIENT_ID;
-      const secret = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_SECRET_SANDBOX : secrets.PAYPAL_SECRET;
-      const paypalApiBase = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_API_BASE_SANDBOX : secrets.PAYPAL_API_BASE;
+// Cancelled subscriptions keep access for CANCELLATION_GRACE_DAYS after they lapse
+function isInCancellationGrace(subData: admin.firestore.DocumentData, now: Date): boolean {
+  return !!subData.cancelledAt && isSubscriptionLapsed(subData, now) && getGraceEndDate(subData) > now;
+}
 
-      const authResponse = await fetch(`${paypalApiBase}/v1/oauth2/token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString("base64")}`,
-        },
-        body: "grant_type=client_credentials",
-      });
+// Helper function to take back a cancellation before the subscription ends, so it renews as before
+async function withdrawCancellation(subDoc: admin.firestore.DocumentSnapshot): Promise<void> {
+  const subData = subDoc.data();
+  const batch = admin.firestore().batch();
+  batch.update(subDoc.ref, {
+    autoRenew: true,
+    autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    cancelledAt: admin.firestore.FieldValue.delete(),
+    cancellationId: admin.firestore.FieldValue.delete(),
+    cancellationReason: admin.firestore.FieldValue.delete(),
+    reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  if (subData?.cancellationId) {
+    batch.update(admin.firestore().doc(`subscriptionCancellations/${subData.cancellationId}`), {
+      reactivated: true,
+      reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+}
 
-      if (!authResponse.ok) {
-        throw new HttpsError("internal", `Failed to obtain PayPal access token: ${authResponse.statusText}`);
-      }
+// A subscription renewed through PayPal stays active for a grace period past its end date
+function isSubscriptionLapsed(subData: admin.firestore.DocumentData, now: Date): boolean {
+  const endDate: Date = subData.endDate.toDate();
+  if (subData.renewalMethod === "paypal" && PAYPAL_BILLING_STATUSES.includes(subData.paypalSubscriptionStatus)) {
+    return endDate.getTime() + PAYPAL_RENEWAL_GRACE_HOURS * 60 * 60 * 1000 <= now.getTime();
+  }
+  return endDate <= now;
+}
 
-      const authData = await authResponse.json();
-      const accessToken = authData.access_token;
-      if (!accessToken) {
-        throw new HttpsError("internal", "Failed to obtain PayPal access token: No access token in response.");
-      }
+// Best-effort cancel, used when a subscription moves off PayPal renewal
+async function cancelPaypalBillingSubscription(paypalSubscriptionId: string, reason: string): Promise<void> {
+  try {
+    await paypalClient.cancelSubscription(paypalSubscriptionId, reason);
+  } catch (error: unknown) {
+    // Already cancelled or expired on PayPal's side
+    if (!(error instanceof HttpsError && (error.code === "already-exists" || error.code === "not-found"))) {
+      throw error;
+    }
+  }
+  await admin.firestore().doc(`paypalSubscriptions/${paypalSubscriptionId}`).set({
+    status: "CANCELLED",
+    cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+}
 
-      const customId = `${userId}:${sessionId}`;
-      const createOrderResponse = await fetch(`${paypalApiBase}/v2/checkout/orders`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          intent: "CAPTURE",
-          purchase_units: [
-            {
-              amount: {
-                value: amount,
-                currency_code: currency,
-              },
-              description: `Purchase of ${tokens} tokens for Gondola Bros`,
-              custom_id: customId,
-            },
-          ],
-        }),
-      });
+// Best effort: a failure here must not stop the capture from being credited
+async function markPaypalOrderCaptured(orderId: string, captureId: string | null): Promise<void> {
+  const orderRef = admin.firestore().doc(`paypalOrders/${orderId}`);
+  try {
+    await admin.firestore().runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      // The webhook may already have credited it
+      if (orderDoc.exists && orderDoc.data()?.status !== "created") return;
+      transaction.set(orderRef, {
+        status: "captured",
+        captureId,
+        capturedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+    });
+  } catch (error) {
+    console.error(`Failed to mark PayPal order ${orderId} as captured:`, error);
+  }
+}
 
-      if (!createOrderResponse.ok) {
-        throw new HttpsError("internal", `Failed to create PayPal order: ${createOrderResponse.statusText}`);
-      }
+// Helper function to pull the capture ID out of a PayPal capture response
+function getPaypalCaptureId(captureData: PaypalOrder): string | null {
+  return captureData.purchase_units?.[0]?.payments?.captures?.[0]?.id || null;
+}
 
-      const orderData = await createOrderResponse.json();
-      const orderId = orderData.id;
-      if (!orderId) {
-        throw new HttpsError("internal", "Failed to create PayPal order: No order ID in response.");
-      }
+async function verifyPaypalWebhookSignature(
+  headers: { [key: string]: string | string[] | undefined },
+  event: PaypalWebhookEvent
+): Promise<boolean> {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID ||
+    await getSecret(IS_PAYPAL_SANDBOX ? "PAYPAL_WEBHOOK_ID_SANDBOX" : "PAYPAL_WEBHOOK_ID");
+  const header = (name: string) => String(headers[name] || "");
 
-      return { orderId };
-    } catch (error: unknown) {
-      console.error("Error in createPaypalOrder:", error);
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      throw new HttpsError("internal", `Failed to create PayPal order: ${errorMessage}`);
-    }
+  try {
+    return await paypalClient.verifyWebhookSignature({
+      authAlgo: header("paypal-auth-algo"),
+      certUrl: header("paypal-cert-url"),
+      transmissionId: header("paypal-transmission-id"),
+      transmissionSig: header("paypal-transmission-sig"),
+      transmissionTime: header("paypal-transmission-time"),
+      webhookId,
+    }, event);
+  } catch (error) {
+    console.error("PayPal webhook verification request failed:", error);
+    return false;
   }
-);
+}
 
-exports.processTokenPurchase = onCall<ProcessTokenPurchaseData, Promise<ProcessTokenPurchaseResponse>>(
-  async (request) => {
-    const { userId, orderId, sessionId, tokens, amount, currency } = request.data;
-    const auth = request.auth;
+// Credits a captured order exactly once, whichever of the browser callback, webhook or
+// reconciliation job gets there first. Orders that can't be credited are flagged for review.
+async function creditCapturedPaypalOrder(
+  orderId: string,
+  capture: { id: string; amount?: PaypalAmount },
+  source: "webhook" | "reconciliation",
+  eventRef?: admin.firestore.DocumentReference
+): Promise<PaypalCreditResult> {
+  const orderRef = admin.firestore().doc(`paypalOrders/${orderId}`);
+
+  return admin.firestore().runTransaction(async (transaction): Promise<PaypalCreditResult> => {
+    const recordEvent = (result: PaypalCreditResult) => {
+      if (!eventRef) return;
+      transaction.set(eventRef, {
+        eventType: "PAYMENT.CAPTURE.COMPLETED",
+        orderId,
+        result,
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+    };
+    const flagForReview = (result: PaypalCreditResult) => {
+      transaction.update(orderRef, {
+        status: "needs_review",
+        captureId: capture.id,
+        reviewReason: result,
+        flaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      recordEvent(result);
+      return result;
+    };
 
-    if (!auth) {
-      throw new HttpsError("unauthenticated", "User must be authenticated to process a token purchase.");
+    if (eventRef) {
+      const eventDoc = await transaction.get(eventRef);
+      if (eventDoc.exists) {
+        console.log(`PayPal webhook event ${eventRef.id} already processed`);
+        return "duplicate_event";
+      }
     }
 
-    if (auth.uid !== userId) {
-      throw new HttpsError("permission-denied", "User ID does not match authenticated user.");
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      console.log(`No order record for PayPal order ${orderId}, ignoring capture`);
+      recordEvent("unknown_order");
+      return "unknown_order";
     }
 
-    if (!userId || !orderId || !sessionId || !tokens || !amount || !currency) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Missing required fields: userId, orderId, sessionId, tokens, amount, currency."
-      );
-    }
+    const order = orderDoc.data() as PaypalOrderRecord;
+    const collectionName = order.type === "tip" ? "tips" : "tokenPurchases";
+    const existingQuery = admin.firestore().collection(collectionName).where("orderId", "==", orderId).limit(1);
+    const existingSnapshot = await transaction.get(existingQuery);
 
-    if (typeof tokens !== "number" || tokens <= 0) {
-      throw new HttpsError("invalid-argument", "Tokens must be a positive number.");
-    }
-    if (typeof amount !== "string" || !amount.match(/^\d+(\.\d{1,2})?$/)) {
-      throw new HttpsError("invalid-argument", "Amount must be a valid monetary value (e.g., '5.00').");
-    }
-    if (currency !== "USD") {
-      throw new HttpsError("invalid-argument", "Currency must be 'USD'.");
-    }
+    const userRef = admin.firestore().doc(`users/${order.userId}`);
+    const userDoc = await transaction.get(userRef);
 
-    const validTokenPackages = [70, 120, 200, 300, 1200, 2500];
-    if (!validTokenPackages.includes(tokens)) {
-      throw new HttpsError("invalid-argument", "Invalid token package.");
+    if (!existingSnapshot.empty) {
+      // Already recorded, just remember the capture for refunds
+      transaction.update(existingSnapshot.docs[0].ref, { captureId: capture.id });
+      transaction.update(orderRef, { status: "completed", captureId: capture.id });
+      recordEvent("already_credited");
+      return "already_credited";
     }
 
-    try {
-      const secrets = await getSecretsConfig();
-      
-      const clientId = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_CLIENT_ID_SANDBOX : secrets.PAYPAL_CLIENT_ID;
-      const secret = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_SECRET_SANDBOX : secrets.PAYPAL_SECRET;
-      const paypalApiBase = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_API_BASE_SANDBOX : secrets.PAYPAL_API_BASE;
-
-      const authResponse = await fetch(`${paypalApiBase}/v1/oauth2/token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString("base64")}`,
-        },
-        body: "grant_type=client_credentials",
+    const capturedAmount = parseFloat(capture.amount?.value || "0").toFixed(2);
+    if (capturedAmount !== parseFloat(order.amount).toFixed(2) || capture.amount?.currency_code !== order.currency) {
+      console.error(`PayPal capture ${capture.id} amount does not match order ${orderId}:`, {
+        captured: capture.amount,
+        expected: { value: order.amount, currency: order.currency },
       });
+      return flagForReview("amount_mismatch");
+    }
 
-      if (!authResponse.ok) {
-        throw new HttpsError("internal", `Failed to obtain PayPal access token: ${authResponse.statusText}`);
-      }
+    if (!userDoc.exists) {
+      console.error(`User ${order.userId} for PayPal order ${orderId} not found`);
+      return flagForReview("user_not_found");
+    }
 
-      const authData = await authResponse.json();
-      const accessToken = authData.access_token;
-      if (!accessToken) {
-        throw new HttpsError("internal", "Failed to obtain PayPal access token: No access token in response.");
+    if (order.type === "tip") {
+      const tipRef = admin.firestore().collection("tips").doc();
+      transaction.set(tipRef, {
+        userId: order.userId,
+        username: userDoc.data()?.username || "Anonymous",
+        message: order.message || null,
+        isPrivate: order.isPrivate === true,
+        anonymous: order.anonymous === true,
+        goalId: order.goalId || null,
+        amount: capturedAmount,
+        currency: order.currency,
+        orderId,
+        captureId: capture.id,
+        status: "completed",
+        source,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Recorded tip from ${source} for user ${order.userId}: orderId=${orderId}`);
+    } else {
+      const tokens = order.tokens || 0;
+      const tokenPurchaseRef = admin.firestore().collection("tokenPurchases").doc();
+      let voucherCode: string | null = null;
+      if (order.giftVoucher) {
+        voucherCode = issueVoucher(transaction, {
+          tokens,
+          source: "paypal",
+          purchaserId: order.userId,
+          purchaserUsername: userDoc.data()?.username || null,
+          orderId,
+        }).code;
+      } else {
+        postLedgerTransfer(transaction, {
+          from: SYSTEM_ACCOUNTS.paypal,
+          to: userAccount(order.userId),
+          amount: tokens,
+          reason: "token_purchase",
+          referenceType: "tokenPurchases",
+          referenceId: tokenPurchaseRef.id,
+          details: { promoCode: order.promoCode || null, promoBonusTokens: order.promoBonusTokens || 0 },
+        });
       }
 
-      const orderDetailsResponse = await fetch(`${paypalApiBase}/v2/checkout/orders/${orderId}`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
+      transaction.set(tokenPurchaseRef, {
+        userId: order.userId,
+        orderId,
+        voucherCode,
+        packageId: order.packageId || null,
+        tokens,
+        bonusTokens: order.bonusTokens || 0,
+        promoCode: order.promoCode || null,
+        promoBonusTokens: order.promoBonusTokens || 0,
+        discountAmount: order.discountAmount || "0.00",
+        amount: order.amount,
+        currency: order.currency,
+        captureId: capture.id,
+        status: "completed",
+        source,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
       });
+      console.log(`Credited token purchase from ${source} for user ${order.userId}: orderId=${orderId}, tokens=${tokens}`);
 
-      if (!orderDetailsResponse.ok) {
-        throw new HttpsError("failed-precondition", `Failed to fetch order details: ${orderDetailsResponse.statusText}`);
+      if (order.promoCode) {
+        markPromoCodeRedeemed(transaction, orderId);
       }
+    }
 
-      const orderDetails = await orderDetailsResponse.json();
-      const customId = orderDetails.purchase_units?.[0]?.custom_id;
-      const expectedCustomId = `${userId}:${sessionId}`;
-      if (customId !== expectedCustomId) {
-        throw new HttpsError("permission-denied", "Order does not belong to the authenticated user or session.");
-      }
+    transaction.update(orderRef, {
+      status: "completed",
+      captureId: capture.id,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    recordEvent("credited");
+    return "credited";
+  });
+}
 
-      const orderAmount = orderDetails.purchase_units?.[0]?.amount?.value;
-      const orderCurrency = orderDetails.purchase_units?.[0]?.amount?.currency_code;
-      if (orderAmount !== amount || orderCurrency !== currency) {
-        throw new HttpsError("invalid-argument", "Order amount or currency does not match request data.");
-      }
+async function handlePaypalCaptureCompleted(event: PaypalWebhookEvent): Promise<void> {
+  const capture = event.resource;
+  const orderId = capture.supplementary_data?.related_ids?.order_id;
+  if (!orderId) {
+    console.log(`PayPal capture ${capture.id} has no related order ID, ignoring`);
+    return;
+  }
 
-      const captureResponse = await fetch(`${paypalApiBase}/v2/checkout/orders/${orderId}/capture`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
+  const eventRef = admin.firestore().doc(`paypalWebhookEvents/${event.id}`);
+  await creditCapturedPaypalOrder(orderId, capture, "webhook", eventRef);
+}
 
-      if (!captureResponse.ok) {
-        throw new HttpsError("failed-precondition", `Payment capture failed: ${captureResponse.statusText}`);
-      }
+// Debits the tokens granted by a refunded purchase. Tokens the user already spent or traded away
+// leave tokenBalance negative, which blocks spending until later purchases pay the debt off.
+// Reads the user doc, so callers must finish their own transaction reads first.
+async function clawBackPurchaseTokens(
+  transaction: admin.firestore.Transaction,
+  userId: string,
+  purchaseId: string,
+  tokensToClaw: number
+): Promise<{ clawedBack: number; owed: number }> {
+  if (tokensToClaw <= 0) return { clawedBack: 0, owed: 0 };
+
+  const userRef = admin.firestore().doc(`users/${userId}`);
+  const userDoc = await transaction.get(userRef);
+  if (!userDoc.exists) {
+    console.error(`User ${userId} not found while clawing back ${tokensToClaw} tokens`);
+    return { clawedBack: 0, owed: tokensToClaw };
+  }
 
-      const captureData = await captureResponse.json();
-      if (captureData.status !== "COMPLETED") {
-        throw new HttpsError("failed-precondition", `Payment capture failed: ${captureData.status}`);
-      }
+  const balance = userDoc.data()?.tokenBalance || 0;
+  const clawedBack = Math.max(0, Math.min(balance, tokensToClaw));
+  const owed = tokensToClaw - clawedBack;
+
+  postLedgerTransfer(transaction, {
+    from: userAccount(userId),
+    to: SYSTEM_ACCOUNTS.paypal,
+    amount: tokensToClaw,
+    reason: "purchase_refund",
+    referenceType: "tokenPurchases",
+    referenceId: purchaseId,
+  });
 
-      const result = await admin.firestore().runTransaction(async (transaction) => {
-        const existingTransactionQuery = admin
-          .firestore()
+  return { clawedBack, owed };
+}
+
+// Records dispute progress on the purchase or tip; the money only moves on PAYMENT.CAPTURE.REVERSED
+async function handlePaypalDispute(event: PaypalWebhookEvent): Promise<void> {
+  const dispute = event.resource;
+  const captureIds = (dispute.disputed_transactions || [])
+    .map((disputedTransaction) => disputedTransaction.seller_transaction_id)
+    .filter((id): id is string => !!id);
+
+  for (const captureId of captureIds) {
+    for (const collectionName of ["tokenPurchases", "tips"]) {
+      const snapshot = await admin.firestore().collection(collectionName).where("captureId", "==", captureId).limit(1).get();
+      if (snapshot.empty) continue;
+
+      await snapshot.docs[0].ref.update({
+        disputeId: dispute.dispute_id || dispute.id,
+        disputeStatus: dispute.status || event.event_type,
+        disputeReason: dispute.reason || null,
+        disputeUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Recorded ${event.event_type} on ${collectionName}/${snapshot.docs[0].id} for capture ${captureId}`);
+    }
+  }
+}
+
+// Claws back tokens (or marks the tip) for a refunded or reversed capture
+async function handlePaypalCaptureReversal(event: PaypalWebhookEvent): Promise<void> {
+  const refund = event.resource;
+  const captureLink = refund.links?.find((link) => link.rel === "up" && link.href.includes("/captures/"));
+  const captureId = captureLink?.href.split("/").pop();
+  if (!captureId) {
+    console.log(`PayPal ${event.event_type} event ${event.id} has no capture link, ignoring`);
+    return;
+  }
+
+  const eventRef = admin.firestore().doc(`paypalWebhookEvents/${event.id}`);
+  const isReversal = event.event_type === "PAYMENT.CAPTURE.REVERSED";
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const eventDoc = await transaction.get(eventRef);
+    if (eventDoc.exists) {
+      console.log(`PayPal webhook event ${event.id} already processed`);
+      return;
+    }
+
+    const purchaseSnapshot = await transaction.get(
+      admin.firestore().collection("tokenPurchases").where("captureId", "==", captureId).limit(1)
+    );
+    const tipSnapshot = await transaction.get(
+      admin.firestore().collection("tips").where("captureId", "==", captureId).limit(1)
+    );
+
+    const recordDoc = !purchaseSnapshot.empty ? purchaseSnapshot.docs[0] : !tipSnapshot.empty ? tipSnapshot.docs[0] : null;
+    if (!recordDoc) {
+      console.log(`No purchase or tip found for PayPal capture ${captureId}`);
+      transaction.set(eventRef, {
+        eventType: event.event_type,
+        captureId,
+        result: "unknown_capture",
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return;
+    }
+
+    const record = recordDoc.data();
+    const totalAmount = parseFloat(record.amount);
+    const previouslyRefunded = parseFloat(record.refundedAmount || "0");
+    const refundValue = Math.abs(parseFloat(refund.amount?.value || record.amount));
+    const refundedAmount = Math.min(totalAmount, previouslyRefunded + refundValue);
+    const fullyRefunded = isReversal || refundedAmount >= totalAmount;
+    const status = fullyRefunded ? (isReversal ? "reversed" : "refunded") : "partially_refunded";
+
+    if (record.status === "refunded" || record.status === "reversed") {
+      console.log(`PayPal capture ${captureId} already ${record.status}`);
+    } else if (!purchaseSnapshot.empty) {
+      const tokens = record.tokens || 0;
+      const refundedTokens = record.refundedTokens || 0;
+      const tokensToClaw = fullyRefunded
+        ? tokens - refundedTokens
+        : Math.min(tokens - refundedTokens, Math.round((tokens * refundValue) / totalAmount));
+
+      // A gift voucher's buyer never held its tokens, so the refund comes out of the voucher instead
+      if (record.voucherCode) {
+        const voucherReduced = await reduceUnredeemedVoucher(transaction, record.voucherCode, tokensToClaw);
+        transaction.update(recordDoc.ref, {
+          status: voucherReduced ? status : "needs_review",
+          ...(voucherReduced ? {} : { reviewReason: "voucher_already_redeemed", flaggedAt: admin.firestore.FieldValue.serverTimestamp() }),
+          refundedAmount: refundedAmount.toFixed(2),
+          refundedTokens: refundedTokens + tokensToClaw,
+          refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        console.log(voucherReduced
+          ? `Took ${tokensToClaw} tokens off voucher ${record.voucherCode} for ${event.event_type} on capture ${captureId}`
+          : `Voucher ${record.voucherCode} was already redeemed, flagged purchase ${recordDoc.id} for review`);
+      } else {
+        const { clawedBack, owed } = await clawBackPurchaseTokens(transaction, record.userId, recordDoc.id, tokensToClaw);
+        transaction.update(recordDoc.ref, {
+          status,
+          refundedAmount: refundedAmount.toFixed(2),
+          refundedTokens: refundedTokens + tokensToClaw,
+          clawedBackTokens: admin.firestore.FieldValue.increment(clawedBack),
+          owedTokens: admin.firestore.FieldValue.increment(owed),
+          refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        console.log(`Clawed back ${clawedBack} tokens (${owed} owed) from user ${record.userId} for ${event.event_type} on capture ${captureId}`);
+      }
+    } else {
+      transaction.update(recordDoc.ref, {
+        status,
+        refundedAmount: refundedAmount.toFixed(2),
+        refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Marked tip ${recordDoc.id} as ${status} for capture ${captureId}`);
+    }
+
+    transaction.set(eventRef, {
+      eventType: event.event_type,
+      captureId,
+      result: "processed",
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// Extends the subscription by one billing period for each recurring PayPal payment
+async function handlePaypalSubscriptionPayment(event: PaypalWebhookEvent): Promise<void> {
+  const sale = event.resource as unknown as PaypalSaleResource;
+  const paypalSubscriptionId = sale.billing_agreement_id;
+  if (!paypalSubscriptionId) {
+    console.log(`PayPal sale ${sale.id} is not a subscription payment, ignoring`);
+    return;
+  }
+
+  const eventRef = admin.firestore().doc(`paypalWebhookEvents/${event.id}`);
+  const paymentRef = admin.firestore().doc(`subscriptionPayments/${sale.id}`);
+  const mappingRef = admin.firestore().doc(`paypalSubscriptions/${paypalSubscriptionId}`);
+
+  const renewal = await admin.firestore().runTransaction(async (transaction) => {
+    const recordEvent = (result: string) => {
+      transaction.set(eventRef, {
+        eventType: event.event_type,
+        paypalSubscriptionId,
+        saleId: sale.id,
+        result,
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    };
+
+    const eventDoc = await transaction.get(eventRef);
+    const paymentDoc = await transaction.get(paymentRef);
+    if (eventDoc.exists || paymentDoc.exists) {
+      console.log(`PayPal subscription payment ${sale.id} already processed`);
+      return null;
+    }
+
+    const mappingDoc = await transaction.get(mappingRef);
+    const mapping = mappingDoc.data() as PaypalSubscriptionRecord | undefined;
+    const currentSubDoc = mapping
+      ? await transaction.get(admin.firestore().doc(`subscriptions/${mapping.subscriptionDocId}`))
+      : null;
+    const currentSub = currentSubDoc?.data();
+    if (!mapping || !currentSubDoc || !currentSub) {
+      console.error(`No subscription linked to PayPal subscription ${paypalSubscriptionId} for sale ${sale.id}`);
+      recordEvent("unknown_subscription");
+      return null;
+    }
+
+    const userRef = admin.firestore().doc(`users/${mapping.userId}`);
+    const userDoc = await transaction.get(userRef);
+
+    // Continue from the old end date unless the subscription already lapsed
+    const now = new Date();
+    const wasActive = currentSub.status === "active";
+    const startDate = wasActive ? currentSub.endDate.toDate() as Date : now;
+    const billingPeriod = mapping.billingPeriod || "monthly";
+    const endDate = addBillingPeriods(startDate, billingPeriod, 1);
+
+    const newSubRef = admin.firestore().collection("subscriptions").doc();
+    transaction.set(newSubRef, {
+      subscriptionId: newSubRef.id,
+      userId: mapping.userId,
+      planId: currentSub.planId,
+      billingPeriod,
+      duration: 1,
+      tokenCost: 0,
+      startDate: admin.firestore.Timestamp.fromDate(startDate),
+      endDate: admin.firestore.Timestamp.fromDate(endDate),
+      status: "active",
+      autoRenew: true,
+      renewalMethod: "paypal",
+      paypalSubscriptionId,
+      paypalSubscriptionStatus: "ACTIVE",
+      paypalSaleId: sale.id,
+      renewedFrom: currentSubDoc.id,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (wasActive) {
+      transaction.update(currentSubDoc.ref, {
+        status: "renewed",
+        renewedAt: admin.firestore.FieldValue.serverTimestamp(),
+        renewedTo: newSubRef.id,
+      });
+    }
+
+    transaction.set(paymentRef, {
+      userId: mapping.userId,
+      planId: currentSub.planId,
+      paypalSubscriptionId,
+      saleId: sale.id,
+      amount: sale.amount?.total || null,
+      currency: sale.amount?.currency || null,
+      subscriptionId: newSubRef.id,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(mappingRef, {
+      status: "ACTIVE",
+      subscriptionDocId: newSubRef.id,
+      lastPaymentAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    recordEvent("renewed");
+
+    const userData = userDoc.data();
+    return {
+      userId: mapping.userId,
+      planId: currentSub.planId as string,
+      endDate,
+      wasActive,
+      embyUserId: userData?.services?.emby?.serviceUserId || null,
+      email: userData?.email || "",
+    };
+  });
+
+  if (!renewal) return;
+  console.log(`Renewed subscription for user ${renewal.userId} from PayPal payment ${sale.id}`);
+
+  if (renewal.embyUserId) {
+    try {
+      // A lapsed subscription had its Emby account disabled
+      if (!renewal.wasActive) {
+        await updateEmbySubscriptionPermissions(renewal.embyUserId, renewal.planId);
+      }
+      await updateJellyseerrRequestLimits(renewal.email, renewal.planId, renewal.embyUserId, undefined, renewal.endDate);
+    } catch (error) {
+      console.error(`Failed to update services after PayPal renewal for user ${renewal.userId}:`, error);
+    }
+  }
+}
+
+// Tracks PayPal subscription state; anything that stops billing falls back to token renewal
+async function handlePaypalSubscriptionStatusChange(event: PaypalWebhookEvent): Promise<void> {
+  const paypalSubscription = event.resource as unknown as PaypalSubscription;
+  const mappingRef = admin.firestore().doc(`paypalSubscriptions/${paypalSubscription.id}`);
+  const status = event.event_type === "BILLING.SUBSCRIPTION.PAYMENT.FAILED"
+    ? "PAYMENT_FAILED"
+    : paypalSubscription.status;
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const mappingDoc = await transaction.get(mappingRef);
+    if (!mappingDoc.exists) {
+      console.log(`Ignoring ${event.event_type} for unknown PayPal subscription ${paypalSubscription.id}`);
+      return;
+    }
+
+    const mapping = mappingDoc.data() as PaypalSubscriptionRecord;
+    const subRef = admin.firestore().doc(`subscriptions/${mapping.subscriptionDocId}`);
+    const subDoc = await transaction.get(subRef);
+
+    transaction.update(mappingRef, {
+      status,
+      statusUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const subData = subDoc.data();
+    if (!subData || subData.status !== "active") return;
+
+    if (status === "ACTIVE") {
+      // Covers users who approved on PayPal but never made it back to confirm
+      transaction.update(subRef, {
+        renewalMethod: "paypal",
+        paypalSubscriptionId: paypalSubscription.id,
+        paypalSubscriptionStatus: status,
+        autoRenew: true,
+      });
+    } else if (status === "PAYMENT_FAILED") {
+      // PayPal retries failed payments on its own schedule
+      transaction.update(subRef, { paypalSubscriptionStatus: status });
+    } else if (subData.renewalMethod === "paypal" && subData.paypalSubscriptionId === paypalSubscription.id) {
+      // Cancellations we made ourselves already switched the subscription back to tokens
+      transaction.update(subRef, {
+        renewalMethod: "tokens",
+        paypalSubscriptionStatus: status,
+        autoRenew: false,
+        autoRenewFailedAt: admin.firestore.FieldValue.serverTimestamp(),
+        autoRenewFailReason: `paypal_${status.toLowerCase()}`,
+      });
+    }
+  });
+
+  console.log(`PayPal subscription ${paypalSubscription.id} is now ${status}`);
+}
+
+const accountServiceManager = new AccountServiceManager();
+
+exports.getTokenPackages = onCall<void, Promise<GetTokenPackagesResponse>>(async () => {
+  try {
+    const catalog = await getTokenPackageCatalog();
+    const now = new Date();
+
+    const packages = Object.entries(catalog)
+      .filter(([, tokenPackage]) => isTokenPackageActive(tokenPackage, now))
+      .sort(([, a], [, b]) => a.displayOrder - b.displayOrder)
+      .map(([id, tokenPackage]) => ({
+        id,
+        tokens: tokenPackage.tokens,
+        bonusTokens: tokenPackage.bonusTokens || 0,
+        price: tokenPackage.price,
+        currency: "USD",
+        displayOrder: tokenPackage.displayOrder,
+        activeUntil: tokenPackage.activeUntil?.toDate().toISOString() || null,
+      }));
+
+    return { packages };
+  } catch (error: unknown) {
+    console.error("Error in getTokenPackages:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to load token packages: ${errorMessage}`);
+  }
+});
+
+exports.getSubscriptionPlans = onCall<void, Promise<GetSubscriptionPlansResponse>>(async () => {
+  try {
+    const catalog = await getSubscriptionPlanCatalog();
+    const plans = Object.entries(catalog)
+      .sort(([, a], [, b]) => a.displayOrder - b.displayOrder)
+      .map(([id, plan]) => ({ id, ...plan, yearly: getPlanPrice(plan, "yearly") }));
+
+    return { plans, yearlyDiscountPercent: YEARLY_DISCOUNT_PERCENT };
+  } catch (error: unknown) {
+    console.error("Error in getSubscriptionPlans:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to load subscription plans: ${errorMessage}`);
+  }
+});
+
+exports.checkPromoCode = onCall<CheckPromoCodeData, Promise<CheckPromoCodeResponse>>(async (request) => {
+  const { packageId, promoCode } = request.data;
+  const auth = request.auth;
+
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to check a promo code.");
+  }
+
+  if (!packageId || !promoCode) {
+    throw new HttpsError("invalid-argument", "Missing required fields: packageId, promoCode.");
+  }
+
+  try {
+    const catalog = await getTokenPackageCatalog();
+    const tokenPackage = catalog[packageId];
+    if (!tokenPackage || !isTokenPackageActive(tokenPackage, new Date())) {
+      throw new HttpsError("invalid-argument", "Invalid or unavailable token package.");
+    }
+
+    const code = normalizePromoCode(promoCode);
+    const promo = await getRedeemablePromoCode(code, auth.uid);
+
+    return {
+      promoCode: code,
+      type: promo.type,
+      ...applyPromoCode(tokenPackage, promo),
+    };
+  } catch (error: unknown) {
+    console.error("Error in checkPromoCode:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to check promo code: ${errorMessage}`);
+  }
+});
+
+exports.createPaypalOrder = onCall<CreatePaypalOrderData, Promise<CreatePaypalOrderResponse>>(
+  async (request) => {
+    const { userId, sessionId, packageId, promoCode, giftVoucher = false } = request.data;
+    const auth = request.auth;
+
+    if (!auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated to create a PayPal order.");
+    }
+
+    if (auth.uid !== userId) {
+      throw new HttpsError("permission-denied", "User ID does not match authenticated user.");
+    }
+
+    if (!userId || !sessionId || !packageId) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Missing required fields: userId, sessionId, packageId."
+      );
+    }
+
+    try {
+      // Price and token count come from the catalog, never from the client
+      const catalog = await getTokenPackageCatalog();
+      const tokenPackage = catalog[packageId];
+      if (!tokenPackage || !isTokenPackageActive(tokenPackage, new Date())) {
+        throw new HttpsError("invalid-argument", "Invalid or unavailable token package.");
+      }
+
+      // Checked again when the order is recorded; this pass just prices the PayPal order
+      const code = promoCode ? normalizePromoCode(promoCode) : null;
+      const promo = code ? await getRedeemablePromoCode(code, userId) : null;
+      const { tokens, bonusTokens, promoBonusTokens, amount, discountAmount } = applyPromoCode(tokenPackage, promo);
+      const currency = "USD";
+
+      const customId = `${userId}:${sessionId}`;
+      const orderData = await paypalClient.createOrder({
+        amount: {
+          value: amount,
+          currency_code: currency,
+        },
+        description: giftVoucher
+          ? `Gift voucher worth ${tokens} tokens for Gondola Bros`
+          : `Purchase of ${tokens} tokens for Gondola Bros`,
+        custom_id: customId,
+      });
+      const orderId = orderData.id;
+
+      // Persist the order so the PayPal webhook can credit it if the browser never calls back
+      const orderRecord: PaypalOrderRecord = {
+        type: "tokenPurchase",
+        userId,
+        sessionId,
+        packageId,
+        tokens,
+        bonusTokens,
+        promoCode: code,
+        promoBonusTokens,
+        discountAmount,
+        giftVoucher,
+        amount,
+        currency,
+        status: "created",
+      };
+      const orderRef = admin.firestore().doc(`paypalOrders/${orderId}`);
+
+      // Reserve the promo code use together with the order so limits can't be oversubscribed
+      await admin.firestore().runTransaction(async (transaction) => {
+        if (code) {
+          const currentPromo = await getRedeemablePromoCode(code, userId, transaction);
+          const currentPricing = applyPromoCode(tokenPackage, currentPromo);
+          if (currentPricing.amount !== amount || currentPricing.tokens !== tokens) {
+            throw new HttpsError("aborted", "Promo code changed while creating the order. Please try again.");
+          }
+
+          transaction.update(admin.firestore().doc(`promoCodes/${code}`), {
+            redemptionCount: admin.firestore.FieldValue.increment(1),
+          });
+          transaction.set(admin.firestore().doc(`promoCodeRedemptions/${orderId}`), {
+            code,
+            userId,
+            orderId,
+            type: currentPromo.type,
+            promoBonusTokens,
+            discountAmount,
+            status: "reserved",
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+
+        transaction.set(orderRef, {
+          ...orderRecord,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+
+      return { orderId };
+    } catch (error: unknown) {
+      console.error("Error in createPaypalOrder:", error);
+      if (error instanceof HttpsError) throw error;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new HttpsError("internal", `Failed to create PayPal order: ${errorMessage}`);
+    }
+  }
+);
+
+exports.processTokenPurchase = onCall<ProcessTokenPurchaseData, Promise<ProcessTokenPurchaseResponse>>(
+  async (request) => {
+    const { userId, orderId, sessionId } = request.data;
+    const auth = request.auth;
+
+    if (!auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated to process a token purchase.");
+    }
+
+    if (auth.uid !== userId) {
+      throw new HttpsError("permission-denied", "User ID does not match authenticated user.");
+    }
+
+    if (!userId || !orderId || !sessionId) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Missing required fields: userId, orderId, sessionId."
+      );
+    }
+
+    try {
+      const orderRecordDoc = await admin.firestore().doc(`paypalOrders/${orderId}`).get();
+      const orderRecord = orderRecordDoc.data() as PaypalOrderRecord | undefined;
+      if (!orderRecord || orderRecord.type !== "tokenPurchase") {
+        throw new HttpsError("not-found", "Token purchase order not found.");
+      }
+      if (orderRecord.userId !== userId || orderRecord.sessionId !== sessionId) {
+        throw new HttpsError("permission-denied", "Order does not belong to the authenticated user or session.");
+      }
+
+      const { tokens = 0, amount, currency } = orderRecord;
+
+      const orderDetails = await paypalClient.getOrder(orderId);
+      const customId = orderDetails.purchase_units?.[0]?.custom_id;
+      const expectedCustomId = `${userId}:${sessionId}`;
+      if (customId !== expectedCustomId) {
+        throw new HttpsError("permission-denied", "Order does not belong to the authenticated user or session.");
+      }
+
+      const orderAmount = orderDetails.purchase_units?.[0]?.amount?.value;
+      const orderCurrency = orderDetails.purchase_units?.[0]?.amount?.currency_code;
+      if (orderAmount !== amount || orderCurrency !== currency) {
+        throw new HttpsError("invalid-argument", "Order amount or currency does not match the token package.");
+      }
+
+      const captureData = await paypalClient.captureOrder(orderId);
+      if (captureData.status !== "COMPLETED") {
+        throw new HttpsError("failed-precondition", `Payment capture failed: ${captureData.status}`);
+      }
+      const captureId = getPaypalCaptureId(captureData);
+
+      // Money has moved; if the transaction below fails the reconciliation job picks this up
+      await markPaypalOrderCaptured(orderId, captureId);
+
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const existingTransactionQuery = admin
+          .firestore()
           .collection("tokenPurchases")
           .where("orderId", "==", orderId);
         const existingTransactionSnapshot = await transaction.get(existingTransactionQuery);
         if (!existingTransactionSnapshot.empty) {
+          // The PayPal webhook can beat the browser callback to crediting the order
+          const existingPurchase = existingTransactionSnapshot.docs[0].data();
+          if (existingPurchase.userId === userId) {
+            return { success: true, orderId, voucherCode: existingPurchase.voucherCode || null };
+          }
           throw new HttpsError("already-exists", "This PayPal order has already been processed.");
         }
 
@@ -1122,29 +2695,66 @@ exports.processTokenPurchase = onCall<ProcessTokenPurchaseData, Promise<ProcessT
           throw new HttpsError("not-found", "User not found in Firestore.");
         }
 
-        transaction.update(userRef, {
-          tokenBalance: admin.firestore.FieldValue.increment(tokens),
-        });
-        console.log(`Updated token balance for user ${userId}: +${tokens} tokens`);
-
+        // Gift purchases go into a voucher instead of the buyer's balance
         const tokenPurchaseRef = admin.firestore().collection("tokenPurchases").doc();
+        let voucherCode: string | null = null;
+        if (orderRecord.giftVoucher) {
+          voucherCode = issueVoucher(transaction, {
+            tokens,
+            source: "paypal",
+            purchaserId: userId,
+            purchaserUsername: userDoc.data()?.username || null,
+            orderId,
+          }).code;
+          console.log(`Issued gift voucher ${voucherCode} worth ${tokens} tokens for user ${userId}`);
+        } else {
+          postLedgerTransfer(transaction, {
+            from: SYSTEM_ACCOUNTS.paypal,
+            to: userAccount(userId),
+            amount: tokens,
+            reason: "token_purchase",
+            referenceType: "tokenPurchases",
+            referenceId: tokenPurchaseRef.id,
+            details: { promoCode: orderRecord.promoCode || null, promoBonusTokens: orderRecord.promoBonusTokens || 0 },
+          });
+          console.log(`Updated token balance for user ${userId}: +${tokens} tokens`);
+        }
+
         transaction.set(tokenPurchaseRef, {
           userId,
           orderId,
+          voucherCode,
+          packageId: orderRecord.packageId || null,
           tokens,
+          bonusTokens: orderRecord.bonusTokens || 0,
+          promoCode: orderRecord.promoCode || null,
+          promoBonusTokens: orderRecord.promoBonusTokens || 0,
+          discountAmount: orderRecord.discountAmount || "0.00",
           amount,
           currency,
+          captureId,
           status: "completed",
           createdAt: admin.firestore.FieldValue.serverTimestamp(),
         });
         console.log(`Logged token purchase for user ${userId}: orderId=${orderId}, tokens=${tokens}`);
 
-        return { success: true, orderId };
+        if (orderRecord.promoCode) {
+          markPromoCodeRedeemed(transaction, orderId);
+        }
+
+        transaction.set(admin.firestore().doc(`paypalOrders/${orderId}`), {
+          status: "completed",
+          captureId,
+          completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+
+        return { success: true, orderId, voucherCode };
       });
 
       return result;
     } catch (error: unknown) {
       console.error("Error in processTokenPurchase:", error);
+      if (error instanceof HttpsError) throw error;
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
       throw new HttpsError("internal", `Failed to process token purchase: ${errorMessage}`);
     }
@@ -1153,7 +2763,7 @@ exports.processTokenPurchase = onCall<ProcessTokenPurchaseData, Promise<ProcessT
 
 
 exports.createTipOrder = onCall<CreateTipOrderData, Promise<CreateTipOrderResponse>>(async (request) => {
-  const { userId, sessionId, amount, currency } = request.data;
+  const { userId, sessionId, amount, currency, isPrivate = false, anonymous = false } = request.data;
   const auth = request.auth;
 
   if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated.");
@@ -1166,62 +2776,48 @@ exports.createTipOrder = onCall<CreateTipOrderData, Promise<CreateTipOrderRespon
   }
   if (currency !== "USD") throw new HttpsError("invalid-argument", "Currency must be 'USD'.");
   if (parseFloat(amount) < 1.0) throw new HttpsError("invalid-argument", "Minimum tip amount is $1.00.");
+  const message = sanitizeMessage(request.data.message);
 
   try {
-    const secrets = await getSecretsConfig();
-    
-    const clientId = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_CLIENT_ID_SANDBOX : secrets.PAYPAL_CLIENT_ID;
-    const secret = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_SECRET_SANDBOX : secrets.PAYPAL_SECRET;
-    const paypalApiBase = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_API_BASE_SANDBOX : secrets.PAYPAL_API_BASE;
-
-    const authResponse = await fetch(`${paypalApiBase}/v1/oauth2/token`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString("base64")}`,
-      },
-      body: "grant_type=client_credentials",
-    });
-
-    if (!authResponse.ok) throw new HttpsError("internal", `Failed to obtain PayPal access token: ${authResponse.statusText}`);
-    const authData = await authResponse.json();
-    const accessToken = authData.access_token;
-    if (!accessToken) throw new HttpsError("internal", "No access token in response.");
+    const goalId = await getOpenTipGoalId(request.data.goalId);
 
     const customId = `${userId}:${sessionId}`;
-    const createOrderResponse = await fetch(`${paypalApiBase}/v2/checkout/orders`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        intent: "CAPTURE",
-        purchase_units: [
-          {
-            amount: { value: amount, currency_code: currency },
-            description: "Donation for Gondola Bros",
-            custom_id: customId,
-          },
-        ],
-      }),
+    const orderData = await paypalClient.createOrder({
+      amount: { value: amount, currency_code: currency },
+      description: "Donation for Gondola Bros",
+      custom_id: customId,
     });
-
-    if (!createOrderResponse.ok) throw new HttpsError("internal", `Failed to create PayPal order: ${createOrderResponse.statusText}`);
-    const orderData = await createOrderResponse.json();
     const orderId = orderData.id;
-    if (!orderId) throw new HttpsError("internal", "No order ID in response.");
+
+    // Kept on the order so the capture webhook can record the note and goal if it beats processTip
+    const orderRecord: PaypalOrderRecord = {
+      type: "tip",
+      userId,
+      sessionId,
+      message,
+      isPrivate: isPrivate === true,
+      anonymous: anonymous === true,
+      goalId,
+      amount: parseFloat(amount).toFixed(2),
+      currency,
+      status: "created",
+    };
+    await admin.firestore().doc(`paypalOrders/${orderId}`).set({
+      ...orderRecord,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
 
     return { orderId };
   } catch (error: unknown) {
     console.error("Error in createTipOrder:", error);
+    if (error instanceof HttpsError) throw error;
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     throw new HttpsError("internal", `Failed to create tip order: ${errorMessage}`);
   }
 });
 
 exports.processTip = onCall<ProcessTipData, Promise<ProcessTipResponse>>(async (request) => {
-  const { userId, orderId, sessionId, amount, currency } = request.data;
+  const { userId, orderId, sessionId, amount, currency, isPrivate, anonymous } = request.data;
   const auth = request.auth;
 
   if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated.");
@@ -1234,38 +2830,10 @@ exports.processTip = onCall<ProcessTipData, Promise<ProcessTipResponse>>(async (
   }
   if (currency !== "USD") throw new HttpsError("invalid-argument", "Currency must be 'USD'.");
   if (parseFloat(amount) < 1.0) throw new HttpsError("invalid-argument", "Minimum tip amount is $1.00.");
+  const message = sanitizeMessage(request.data.message);
 
   try {
-    const secrets = await getSecretsConfig();
-    
-    const clientId = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_CLIENT_ID_SANDBOX : secrets.PAYPAL_CLIENT_ID;
-    const secret = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_SECRET_SANDBOX : secrets.PAYPAL_SECRET;
-    const paypalApiBase = IS_PAYPAL_SANDBOX ? secrets.PAYPAL_API_BASE_SANDBOX : secrets.PAYPAL_API_BASE;
-
-    const authResponse = await fetch(`${paypalApiBase}/v1/oauth2/token`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString("base64")}`,
-      },
-      body: "grant_type=client_credentials",
-    });
-
-    if (!authResponse.ok) throw new HttpsError("internal", `Failed to obtain PayPal access token: ${authResponse.statusText}`);
-    const authData = await authResponse.json();
-    const accessToken = authData.access_token;
-    if (!accessToken) throw new HttpsError("internal", "No access token in response.");
-
-    const orderDetailsResponse = await fetch(`${paypalApiBase}/v2/checkout/orders/${orderId}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!orderDetailsResponse.ok) throw new HttpsError("failed-precondition", `Failed to fetch order details: ${orderDetailsResponse.statusText}`);
-    const orderDetails = await orderDetailsResponse.json();
+    const orderDetails = await paypalClient.getOrder(orderId);
     const customId = orderDetails.purchase_units?.[0]?.custom_id;
     const expectedCustomId = `${userId}:${sessionId}`;
     if (customId !== expectedCustomId) throw new HttpsError("permission-denied", "Order does not belong to the user or session.");
@@ -1275,7 +2843,7 @@ exports.processTip = onCall<ProcessTipData, Promise<ProcessTipResponse>>(async (
     const orderCurrency = orderDetails.purchase_units?.[0]?.amount?.currency_code;
     console.log("[processTip] Order data:", { orderAmount, orderCurrency, receivedAmount: amount, receivedCurrency: currency });
 
-    const normalizedOrderAmount = parseFloat(orderAmount).toFixed(2);
+    const normalizedOrderAmount = parseFloat(orderAmount || "0").toFixed(2);
     const normalizedReceivedAmount = parseFloat(amount).toFixed(2);
     if (normalizedOrderAmount !== normalizedReceivedAmount || orderCurrency !== currency) {
       console.error("[processTip] Amount mismatch detected:", {
@@ -1298,238 +2866,1120 @@ exports.processTip = onCall<ProcessTipData, Promise<ProcessTipResponse>>(async (
     if (!userDoc.exists) throw new HttpsError("not-found", "User not found in Firestore.");
 
     // Now that all validations passed, capture the payment
-    const captureResponse = await fetch(`${paypalApiBase}/v2/checkout/orders/${orderId}/capture`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
-
-    if (!captureResponse.ok) throw new HttpsError("failed-precondition", `Payment capture failed: ${captureResponse.statusText}`);
-    const captureData = await captureResponse.json();
+    const captureData = await paypalClient.captureOrder(orderId);
     if (captureData.status !== "COMPLETED") throw new HttpsError("failed-precondition", `Payment capture failed: ${captureData.status}`);
+    const captureId = getPaypalCaptureId(captureData);
+    await markPaypalOrderCaptured(orderId, captureId);
 
     // After successful capture, proceed with Firestore transaction
     const result = await admin.firestore().runTransaction(async (transaction) => {
+      // The PayPal webhook may have recorded the tip between our pre-check and the capture
+      const recordedTipSnapshot = await transaction.get(existingTipQuery);
+      if (!recordedTipSnapshot.empty) return { success: true, orderId };
+
       const userData = userDoc.data();
       const username = userData?.username || "Anonymous";
 
+      // Fall back to the note given when the order was created
+      const orderRecord = (await transaction.get(admin.firestore().doc(`paypalOrders/${orderId}`))).data() as PaypalOrderRecord | undefined;
+
       const tipRef = admin.firestore().collection("tips").doc();
       transaction.set(tipRef, {
         userId,
         username,
+        message: message ?? orderRecord?.message ?? null,
+        // Stored as real booleans, since readers only treat `=== true` as set
+        isPrivate: typeof isPrivate === "boolean" ? isPrivate : orderRecord?.isPrivate === true,
+        anonymous: typeof anonymous === "boolean" ? anonymous : orderRecord?.anonymous === true,
+        // Only the goal checked when the order was created counts
+        goalId: orderRecord?.goalId || null,
         amount: normalizedReceivedAmount,
         currency,
         orderId,
+        captureId,
         status: "completed",
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
       });
 
+      transaction.set(admin.firestore().doc(`paypalOrders/${orderId}`), {
+        status: "completed",
+        captureId,
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+
       return { success: true, orderId };
     });
 
     return result;
   } catch (error: unknown) {
     console.error("Error in processTip:", error);
+    if (error instanceof HttpsError) throw error;
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     throw new HttpsError("internal", `Failed to process tip: ${errorMessage}`);
   }
 });
 
-exports.processTokenTrade = onCall<ProcessTokenTradeData, Promise<ProcessTokenTradeResponse>>(
+// Helper function to build the public copy of a tip. Anonymous tips keep their amount for totals but
+// drop who sent them; private tips drop the message.
+function getTipFeedEntry(tip: admin.firestore.DocumentData): admin.firestore.DocumentData {
+  const anonymous = tip.anonymous === true;
+  return {
+    userId: anonymous ? null : tip.userId,
+    username: anonymous ? null : tip.username || null,
+    amount: tip.amount,
+    currency: tip.currency,
+    message: anonymous || tip.isPrivate ? null : tip.message || null,
+    anonymous,
+    goalId: tip.goalId || null,
+    status: tip.status,
+    createdAt: tip.createdAt || null,
+  };
+}
+
+// Keeps tipFeed in step with tips, which only the tipper and admins can read
+exports.mirrorTipToFeed = onDocumentWritten("tips/{tipId}", async (event) => {
+  const feedRef = admin.firestore().doc(`tipFeed/${event.params.tipId}`);
+  const tip = event.data?.after.data();
+
+  if (!tip) {
+    await feedRef.delete();
+    return;
+  }
+  await feedRef.set(getTipFeedEntry(tip));
+});
+
+// Helper function to recount a funding goal from the tips earmarked to it. Recounting rather than
+// incrementing keeps the totals right when a trigger is delivered twice or a tip is refunded.
+async function recalculateTipGoalTotals(goalId: string): Promise<void> {
+  const goalRef = admin.firestore().doc(`tipGoals/${goalId}`);
+  const tipsQuery = admin.firestore().collection("tips").where("goalId", "==", goalId);
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const goalDoc = await transaction.get(goalRef);
+    const tipsSnapshot = await transaction.get(tipsQuery);
+    if (!goalDoc.exists) {
+      console.warn(`Tips reference missing funding goal ${goalId}`);
+      return;
+    }
+
+    let raisedCents = 0;
+    let tipCount = 0;
+    for (const tipDoc of tipsSnapshot.docs) {
+      const contributionCents = getTipContributionCents(tipDoc.data());
+      if (contributionCents > 0) {
+        raisedCents += contributionCents;
+        tipCount++;
+      }
+    }
+
+    transaction.update(goalRef, {
+      raisedAmount: (raisedCents / 100).toFixed(2),
+      tipCount,
+      totalsUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// Keeps funding goal totals in step with the tips earmarked to them
+exports.updateTipGoalTotals = onDocumentWritten("tips/{tipId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  const goalIds = new Set<string>([before?.goalId, after?.goalId].filter((goalId): goalId is string => !!goalId));
+  if (goalIds.size === 0) return;
+
+  // Capture IDs and other bookkeeping updates don't move the totals
+  if (before?.goalId === after?.goalId && getTipContributionCents(before) === getTipContributionCents(after)) return;
+
+  for (const goalId of goalIds) {
+    await recalculateTipGoalTotals(goalId);
+  }
+});
+
+// Fills tipFeed for tips recorded before it existed
+exports.rebuildTipFeed = onCall<void, Promise<{ success: boolean; count: number }>>(async (request) => {
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can rebuild the tip feed.");
+  }
+
+  try {
+    const tipsSnapshot = await admin.firestore().collection("tips").get();
+    let batch = admin.firestore().batch();
+    let pending = 0;
+
+    for (const tipDoc of tipsSnapshot.docs) {
+      batch.set(admin.firestore().doc(`tipFeed/${tipDoc.id}`), getTipFeedEntry(tipDoc.data()));
+      pending++;
+      if (pending === 500) {
+        await batch.commit();
+        batch = admin.firestore().batch();
+        pending = 0;
+      }
+    }
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    return { success: true, count: tipsSnapshot.size };
+  } catch (error: unknown) {
+    console.error("Error in rebuildTipFeed:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to rebuild tip feed: ${errorMessage}`);
+  }
+});
+
+exports.paypalWebhook = onRequest(async (req, res) => {
+  if (req.method !== "POST") {
+    res.status(405).send("Method not allowed");
+    return;
+  }
+
+  const event = req.body as PaypalWebhookEvent;
+  if (!event?.id || !event.event_type || !event.resource) {
+    res.status(400).send("Invalid webhook payload");
+    return;
+  }
+
+  try {
+    const isVerified = await verifyPaypalWebhookSignature(req.headers, event);
+    if (!isVerified) {
+      console.error(`PayPal webhook signature verification failed for event ${event.id}`);
+      res.status(400).send("Invalid signature");
+      return;
+    }
+
+    console.log(`Received PayPal webhook ${event.event_type} (${event.id})`);
+
+    switch (event.event_type) {
+      case "PAYMENT.CAPTURE.COMPLETED":
+        await handlePaypalCaptureCompleted(event);
+        break;
+      case "PAYMENT.CAPTURE.REFUNDED":
+      case "PAYMENT.CAPTURE.REVERSED":
+        await handlePaypalCaptureReversal(event);
+        break;
+      case "PAYMENT.SALE.COMPLETED":
+        await handlePaypalSubscriptionPayment(event);
+        break;
+      case "BILLING.SUBSCRIPTION.ACTIVATED":
+      case "BILLING.SUBSCRIPTION.CANCELLED":
+      case "BILLING.SUBSCRIPTION.SUSPENDED":
+      case "BILLING.SUBSCRIPTION.EXPIRED":
+      case "BILLING.SUBSCRIPTION.PAYMENT.FAILED":
+        await handlePaypalSubscriptionStatusChange(event);
+        break;
+      case "CUSTOMER.DISPUTE.CREATED":
+      case "CUSTOMER.DISPUTE.UPDATED":
+      case "CUSTOMER.DISPUTE.RESOLVED":
+        await handlePaypalDispute(event);
+        break;
+      default:
+        console.log(`Ignoring PayPal webhook event type ${event.event_type}`);
+    }
+
+    res.status(200).send("OK");
+  } catch (error: unknown) {
+    // Non-2xx makes PayPal retry the delivery later
+    console.error("Error in paypalWebhook:", error);
+    res.status(500).send("Webhook processing failed");
+  }
+});
+
+exports.refundTokenPurchase = onCall<RefundTokenPurchaseData, Promise<RefundTokenPurchaseResponse>>(
   async (request) => {
-    const { senderId, receiverUsername, tokens } = request.data;
+    const { purchaseId, reason } = request.data;
     const auth = request.auth;
 
     if (!auth) {
-      throw new HttpsError("unauthenticated", "User must be authenticated to trade tokens.");
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
     }
 
-    if (auth.uid !== senderId) {
-      throw new HttpsError("permission-denied", "Sender ID does not match authenticated user.");
+    if (!isAdmin(auth)) {
+      throw new HttpsError("permission-denied", "Only admins can refund token purchases.");
     }
 
-    if (!senderId || !receiverUsername || !tokens) {
-      throw new HttpsError("invalid-argument", "Missing required fields: senderId, receiverUsername, tokens.");
+    if (!purchaseId) {
+      throw new HttpsError("invalid-argument", "Missing required field: purchaseId.");
     }
 
-    if (typeof tokens !== "number" || tokens <= 0) {
-      throw new HttpsError("invalid-argument", "Tokens must be a positive number.");
+    if (reason !== undefined && (typeof reason !== "string" || reason.length > 255)) {
+      throw new HttpsError("invalid-argument", "Reason must be a string of at most 255 characters.");
     }
 
     try {
-      const receiverQuery = admin
-        .firestore()
-        .collection("users")
-        .where("username", "==", receiverUsername)
-        .limit(1);
-      const receiverSnapshot = await receiverQuery.get();
-
-      if (receiverSnapshot.empty) {
-        throw new HttpsError("not-found", "Receiver username not found.");
+      const purchaseRef = admin.firestore().doc(`tokenPurchases/${purchaseId}`);
+      const purchaseDoc = await purchaseRef.get();
+      if (!purchaseDoc.exists) {
+        throw new HttpsError("not-found", "Token purchase not found.");
       }
 
-      const receiverDoc = receiverSnapshot.docs[0];
-      const receiverId = receiverDoc.id;
+      const purchase = purchaseDoc.data()!;
+      if (purchase.status !== "completed" && purchase.status !== "partially_refunded") {
+        throw new HttpsError("failed-precondition", `Token purchase is ${purchase.status} and cannot be refunded.`);
+      }
 
-      const result = await admin.firestore().runTransaction(async (transaction) => {
-        const senderRef = admin.firestore().doc(`users/${senderId}`);
-        const receiverRef = admin.firestore().doc(`users/${receiverId}`);
+      // Only what PayPal has not already returned is left to refund
+      const amountCents = Math.round(parseFloat(purchase.amount) * 100);
+      const refundedCents = Math.round(parseFloat(purchase.refundedAmount || "0") * 100);
+      const remainingCents = amountCents - refundedCents;
+      if (remainingCents <= 0) {
+        throw new HttpsError("failed-precondition", "Token purchase has already been refunded in full.");
+      }
 
-        const senderDoc = await transaction.get(senderRef);
-        const receiverDoc = await transaction.get(receiverRef);
+      // Purchases recorded before capture IDs were stored need a lookup
+      const captureId = purchase.captureId || getPaypalCaptureId(await paypalClient.getOrder(purchase.orderId));
+      if (!captureId) {
+        throw new HttpsError("failed-precondition", "No PayPal capture found for this purchase.");
+      }
 
-        if (!senderDoc.exists) {
-          throw new HttpsError("not-found", "Sender not found in Firestore.");
-        }
-        if (!receiverDoc.exists) {
-          throw new HttpsError("not-found", "Receiver not found in Firestore.");
-        }
+      // The request ID makes a retried refund return the original instead of refunding twice
+      const refund = refundedCents > 0
+        ? await paypalClient.refundCapture(
+          captureId,
+          { value: (remainingCents / 100).toFixed(2), currency_code: purchase.currency || "USD" },
+          reason,
+          `refund-${purchaseId}-${refundedCents}`
+        )
+        : await paypalClient.refundCapture(captureId, undefined, reason, `refund-${purchaseId}`);
+      if (refund.status === "FAILED" || refund.status === "CANCELLED") {
+        throw new HttpsError("failed-precondition", `PayPal refund ${refund.status.toLowerCase()}.`);
+      }
 
-        const senderData = senderDoc.data() as UserDocumentData;
-        const receiverData = receiverDoc.data() as UserDocumentData;
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const currentDoc = await transaction.get(purchaseRef);
+        const current = currentDoc.data()!;
 
-        const senderBalance = senderData.tokenBalance || 0;
-        if (senderBalance < tokens) {
-          throw new HttpsError("failed-precondition", "Insufficient tokens for trade.");
+        // The PAYMENT.CAPTURE.REFUNDED webhook may have clawed back already
+        if (current.status === "refunded" || current.status === "reversed") {
+          return { clawedBack: current.clawedBackTokens || 0, owed: current.owedTokens || 0 };
         }
 
-        transaction.update(senderRef, {
-          tokenBalance: admin.firestore.FieldValue.increment(-tokens),
-        });
-        transaction.update(receiverRef, {
-          tokenBalance: admin.firestore.FieldValue.increment(tokens),
-        });
-
-        const tradeRef = admin.firestore().collection("trades").doc();
-        transaction.set(tradeRef, {
-          senderId,
-          senderUsername: senderData.username,
-          receiverId,
-          receiverUsername: receiverData.username,
-          tokens,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        // A gift voucher's buyer never held its tokens, so only the voucher can give them back
+        const tokensToClaw = (current.tokens || 0) - (current.refundedTokens || 0);
+        const voucherReduced = current.voucherCode
+          ? await reduceUnredeemedVoucher(transaction, current.voucherCode, tokensToClaw)
+          : false;
+        const { clawedBack, owed } = current.voucherCode
+          ? { clawedBack: 0, owed: 0 }
+          : await clawBackPurchaseTokens(transaction, current.userId, purchaseId, tokensToClaw);
+
+        transaction.update(purchaseRef, {
+          status: current.voucherCode && !voucherReduced ? "needs_review" : "refunded",
+          ...(current.voucherCode && !voucherReduced
+            ? { reviewReason: "voucher_already_redeemed", flaggedAt: admin.firestore.FieldValue.serverTimestamp() }
+            : {}),
+          captureId,
+          refundId: refund.id,
+          refundReason: reason || null,
+          refundedBy: auth.uid,
+          refundedAmount: parseFloat(current.amount).toFixed(2),
+          refundedTokens: current.tokens || 0,
+          clawedBackTokens: admin.firestore.FieldValue.increment(clawedBack),
+          owedTokens: admin.firestore.FieldValue.increment(owed),
+          refundedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
 
-        return { success: true };
+        return { clawedBack, owed };
       });
 
-      return result;
+      console.log(`Admin ${auth.uid} refunded token purchase ${purchaseId}: clawed back ${result.clawedBack}, owed ${result.owed}`);
+
+      return {
+        success: true,
+        refundId: refund.id,
+        tokensClawedBack: result.clawedBack,
+        tokensOwed: result.owed,
+      };
     } catch (error: unknown) {
-      console.error("Error in processTokenTrade:", error);
+      console.error("Error in refundTokenPurchase:", error);
+      if (error instanceof HttpsError) throw error;
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      throw new HttpsError("internal", `Failed to process token trade: ${errorMessage}`);
+      throw new HttpsError("internal", `Failed to refund token purchase: ${errorMessage}`);
     }
   }
 );
 
-exports.processSubscription = onCall<ProcessSubscriptionData, Promise<ProcessSubscriptionResponse>>(
-  async (request) => {
-    const { userId, planId, billingPeriod, duration, autoRenew = true } = request.data;
-    const auth = request.auth;
+// Opens the ledger for balances that predate it. Pages through users by document ID, so the admin
+// keeps calling with the returned cursor until it comes back null.
+exports.backfillLedgerOpeningBalances = onCall<BackfillLedgerData, Promise<BackfillLedgerResponse>>(async (request) => {
+  const { startAfter } = request.data || {};
+  const auth = request.auth;
 
-    if (!auth || auth.uid !== userId) {
-      throw new HttpsError("unauthenticated", "User must be authenticated.");
-    }
+  if (!isAdmin(auth)) {
+    throw new HttpsError("permission-denied", "Only admins can backfill the ledger.");
+  }
 
-    if (!userId || !planId || !billingPeriod || !duration) {
-      throw new HttpsError("invalid-argument", "Missing required fields.");
+  try {
+    let usersQuery = admin
+      .firestore()
+      .collection("users")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(LEDGER_BACKFILL_PAGE_SIZE);
+    if (startAfter) {
+      usersQuery = usersQuery.startAfter(startAfter);
     }
+    const usersSnapshot = await usersQuery.select().get();
 
-    if (!SUBSCRIPTION_PLANS[planId]) {
-      throw new HttpsError("invalid-argument", "Invalid plan ID.");
+    let opened = 0;
+    const skipped: string[] = [];
+
+    for (const userDoc of usersSnapshot.docs) {
+      const userId = userDoc.id;
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const currentDoc = await transaction.get(userDoc.ref);
+        const alreadyOpened = await hasOpeningBalance(transaction, userId);
+        const ledgerBalance = await getLedgerBalance(userId, transaction);
+
+        const openingAmount = (currentDoc.data()?.tokenBalance || 0) - ledgerBalance;
+        if (openingAmount === 0) return "balanced";
+        // A second opening balance would hide drift instead of explaining history
+        if (alreadyOpened) return "drifted";
+
+        recordOpeningBalance(transaction, userId, openingAmount);
+        return "opened";
+      });
+
+      if (result === "opened") opened++;
+      if (result === "drifted") skipped.push(userId);
     }
 
-    if (billingPeriod !== "monthly" && billingPeriod !== "yearly") {
-      throw new HttpsError("invalid-argument", "Billing period must be 'monthly' or 'yearly'.");
+    const lastDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    const nextCursor = usersSnapshot.size === LEDGER_BACKFILL_PAGE_SIZE ? lastDoc.id : null;
+
+    console.log(`Admin ${auth!.uid} backfilled ledger for ${usersSnapshot.size} users: ${opened} opened, ${skipped.length} drifted`);
+
+    return { success: true, processed: usersSnapshot.size, opened, skipped, nextCursor };
+  } catch (error: unknown) {
+    console.error("Error in backfillLedgerOpeningBalances:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to backfill ledger: ${errorMessage}`);
+  }
+});
+
+exports.getReceipt = onCall<GetReceiptData, Promise<GetReceiptResponse>>(async (request) => {
+  const { type, id } = request.data;
+  const auth = request.auth;
+
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to view a receipt.");
+  }
+
+  const collectionNames: { [key in ReceiptType]: string } = {
+    purchase: "tokenPurchases",
+    tip: "tips",
+    redemption: "redemptions",
+  };
+  if (!id || !collectionNames[type]) {
+    throw new HttpsError("invalid-argument", "Missing or invalid fields: type, id.");
+  }
+
+  try {
+    const recordDoc = await admin.firestore().doc(`${collectionNames[type]}/${id}`).get();
+    const record = recordDoc.data();
+
+    // Report someone else's record as missing rather than confirming it exists
+    if (!record || (record.userId !== auth.uid && !isAdmin(auth))) {
+      throw new HttpsError("not-found", "Receipt not found.");
+    }
+    if (record.status === "needs_review") {
+      throw new HttpsError("failed-precondition", "This payment is still being reviewed.");
     }
 
-    if (typeof duration !== "number" || duration <= 0) {
-      throw new HttpsError("invalid-argument", "Duration must be a positive number.");
+    const userDoc = await admin.firestore().doc(`users/${record.userId}`).get();
+    const userData = userDoc.data();
+    const issuedAt: Date = record.createdAt?.toDate() ?? new Date();
+    const receiptNumber = getReceiptNumber(type, recordDoc.id, issuedAt);
+    const items: ReceiptLineItem[] = [];
+    const notes: string[] = [];
+
+    const receipt: Receipt = {
+      receiptNumber,
+      title: "Receipt",
+      issuedAt,
+      username: userData?.username || record.username || "Unknown",
+      email: userData?.email || null,
+      items,
+      total: "",
+      paymentMethod: "PayPal",
+      paypalOrderId: record.orderId || null,
+      paypalCaptureId: record.captureId || null,
+      status: record.status || null,
+      notes,
+    };
+
+    if (type === "purchase") {
+      const currency = record.currency || "USD";
+      const bonusTokens = record.bonusTokens || 0;
+      const baseTokens = (record.tokens || 0) - bonusTokens;
+      const discount = parseFloat(record.discountAmount || "0");
+
+      receipt.title = record.voucherCode ? "Gift Voucher Receipt" : "Token Purchase Receipt";
+      items.push({
+        description: record.voucherCode ? `Gift voucher ${record.voucherCode}` : "Tokens",
+        quantity: `${baseTokens}`,
+        amount: formatMoney(parseFloat(record.amount) + discount, currency),
+      });
+      if (bonusTokens > 0) {
+        items.push({ description: "Bonus tokens", quantity: `${bonusTokens}`, amount: formatMoney(0, currency) });
+      }
+      if (discount > 0) {
+        items.push({ description: `Promo code ${record.promoCode}`, amount: `-${formatMoney(discount, currency)}` });
+      } else if (record.promoCode) {
+        notes.push(`Promo code ${record.promoCode} applied.`);
+      }
+      receipt.total = formatMoney(record.amount, currency);
+      if (record.refundedAmount) {
+        notes.push(`Refunded ${formatMoney(record.refundedAmount, currency)} to the original payment method.`);
+      }
+    } else if (type === "tip") {
+      const currency = record.currency || "USD";
+      receipt.title = "Tip Receipt";
+      items.push({ description: "Tip to Gondola Bros", amount: formatMoney(record.amount, currency) });
+      receipt.total = formatMoney(record.amount, currency);
+      notes.push("Tips are voluntary contributions and do not purchase goods or services.");
+      if (record.refundedAmount) {
+        notes.push(`Refunded ${formatMoney(record.refundedAmount, currency)} to the original payment method.`);
+      }
+    } else {
+      const productNames: { [key: string]: string } = {
+        mediaSubscription: "Media subscription",
+        subscriptionRenewal: "Media subscription renewal",
+        boosterPack: "Request booster pack",
+      };
+      receipt.title = "Token Redemption Receipt";
+      receipt.paymentMethod = "Token balance";
+      items.push({
+        description: `${productNames[record.productType] || record.productType}: ${record.productId}`,
+        amount: `${record.tokenCost} tokens`,
+      });
+      if (record.proRateCredit) {
+        notes.push(`Includes a ${record.proRateCredit}-token credit for the unused part of your previous plan.`);
+      }
+      receipt.total = `${record.tokenCost} tokens`;
     }
 
-    try {
-      const plan = SUBSCRIPTION_PLANS[planId];
-      const baseTokenCost = plan.monthly;
-      let totalTokenCost = baseTokenCost * duration;
+    return {
+      receiptNumber,
+      filename: `${receiptNumber}.html`,
+      html: renderReceiptHtml(receipt),
+    };
+  } catch (error: unknown) {
+    console.error("Error in getReceipt:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to generate receipt: ${errorMessage}`);
+  }
+});
 
-      // Check if there's an active subscription
-      const activeSubQuery = admin
-        .firestore()
-        .collection("subscriptions")
-        .where("userId", "==", userId)
-        .where("status", "==", "active");
-      const activeSubSnapshot = await activeSubQuery.get();
-      const hasActiveSubscription = !activeSubSnapshot.empty;
+exports.purchaseVoucher = onCall<PurchaseVoucherData, Promise<PurchaseVoucherResponse>>(async (request) => {
+  const { tokens } = request.data;
+  const auth = request.auth;
 
-      const result = await admin.firestore().runTransaction(async (transaction) => {
-        const userRef = admin.firestore().doc(`users/${userId}`);
-        const userDoc = await transaction.get(userRef);
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to buy a gift voucher.");
+  }
 
-        if (!userDoc.exists) {
-          throw new HttpsError("not-found", "User not found.");
-        }
+  if (typeof tokens !== "number" || !Number.isInteger(tokens) || tokens < VOUCHER_MIN_TOKENS || tokens > VOUCHER_MAX_TOKENS) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Vouchers must be worth between ${VOUCHER_MIN_TOKENS} and ${VOUCHER_MAX_TOKENS} tokens.`
+    );
+  }
 
-        const userData = userDoc.data();
-        const currentBalance = userData?.tokenBalance || 0;
+  try {
+    const userId = auth.uid;
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const userRef = admin.firestore().doc(`users/${userId}`);
+      const userDoc = await transaction.get(userRef);
+      if (!userDoc.exists) {
+        throw new HttpsError("not-found", "User not found in Firestore.");
+      }
 
-        let startDate = new Date();
-        let endDate: Date;
-        let isUpgrade = false;
-        let subscriptionId = "";
-        let adjustedRequestLimits = null;
-        let proRateCredit = 0;
+      const userData = userDoc.data() as UserDocumentData;
+      if ((userData.tokenBalance || 0) < tokens) {
+        throw new HttpsError("failed-precondition", "Insufficient tokens for this voucher.");
+      }
 
-        if (hasActiveSubscription) {
-          const activeSub = activeSubSnapshot.docs[0].data();
-          const currentPlanId = activeSub.planId;
-          
-          // Prevent same plan purchase
-          if (currentPlanId === planId) {
-            throw new HttpsError(
-              "failed-precondition", 
-              `You already have an active ${planId} subscription.`
-            );
-          }
-          
-          // Determine if this is an upgrade by comparing plan indices
-          const currentPlanIndex = Object.keys(SUBSCRIPTION_PLANS).indexOf(currentPlanId);
-          const newPlanIndex = Object.keys(SUBSCRIPTION_PLANS).indexOf(planId);
-          
-          if (newPlanIndex > currentPlanIndex) {
-            // UPGRADE - Calculate pro-rate and differential limits
-            isUpgrade = true;
-            
-            // Calculate pro-rate credit for unused time
-            const activeEndDate = activeSub.endDate.toDate();
-            const now = new Date();
-            const totalDays = Math.ceil((activeEndDate.getTime() - new Date(activeSub.startDate.toDate()).getTime()) / (1000 * 60 * 60 * 24));
-            const remainingDays = Math.ceil((activeEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            const usedDays = totalDays - remainingDays;
-            
-            // Calculate prorated amount
-            const currentPlanData = SUBSCRIPTION_PLANS[currentPlanId];
-            const currentPlanTokens = currentPlanData.monthly
-            const usedTokens = Math.floor((currentPlanTokens * usedDays) / totalDays);
-            proRateCredit = currentPlanTokens - usedTokens;
-            
-            // Apply pro-rate credit
-            totalTokenCost = Math.max(0, totalTokenCost - proRateCredit);
-            
-            // Get request limits for differential calculation
-            const currentPlanLimits = getPlanRequestLimits(currentPlanId);
-            const newPlanLimits = getPlanRequestLimits(planId);
-            const movieRequestsUsed = activeSub.movieRequestsUsed || 0;
-            const tvRequestsUsed = activeSub.tvRequestsUsed || 0;
-            
-            // Calculate the difference in limits
-            const movieDifference = newPlanLimits.movie - currentPlanLimits.movie;
-            const tvDifference = newPlanLimits.tv - currentPlanLimits.tv;
-            
-            // Adjusted limits for Jellyseerr (only the additional requests)
-            adjustedRequestLimits = {
-              movieLimit: Math.max(0, movieDifference),
+      // issueVoucher debits the buyer through the ledger
+      return issueVoucher(transaction, {
+        tokens,
+        source: "balance",
+        purchaserId: userId,
+        purchaserUsername: userData.username || null,
+      });
+    });
+
+    console.log(`User ${userId} bought gift voucher ${result.code} worth ${tokens} tokens`);
+
+    return { success: true, code: result.code, expiresAt: result.expiresAt.toISOString() };
+  } catch (error: unknown) {
+    console.error("Error in purchaseVoucher:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to buy gift voucher: ${errorMessage}`);
+  }
+});
+
+exports.mintVouchers = onCall<MintVouchersData, Promise<MintVouchersResponse>>(async (request) => {
+  const { tokens, count = 1, expiresInDays = VOUCHER_EXPIRY_DAYS, note } = request.data;
+  const auth = request.auth;
+
+  if (!isAdmin(auth)) {
+    throw new HttpsError("permission-denied", "Only admins can mint vouchers.");
+  }
+
+  if (typeof tokens !== "number" || !Number.isInteger(tokens) || tokens <= 0 || tokens > VOUCHER_MAX_TOKENS) {
+    throw new HttpsError("invalid-argument", `Tokens must be a whole number up to ${VOUCHER_MAX_TOKENS}.`);
+  }
+
+  if (!Number.isInteger(count) || count <= 0 || count > VOUCHER_MAX_MINT_COUNT) {
+    throw new HttpsError("invalid-argument", `Count must be between 1 and ${VOUCHER_MAX_MINT_COUNT}.`);
+  }
+
+  if (typeof expiresInDays !== "number" || expiresInDays <= 0) {
+    throw new HttpsError("invalid-argument", "Expiry must be a positive number of days.");
+  }
+
+  try {
+    const codes = await admin.firestore().runTransaction(async (transaction) => {
+      return Array.from({ length: count }, () => issueVoucher(transaction, {
+        tokens,
+        source: "admin",
+        purchaserId: null,
+        purchaserUsername: null,
+        note: note || null,
+      }, expiresInDays).code);
+    });
+
+    console.log(`Admin ${auth!.uid} minted ${count} vouchers worth ${tokens} tokens`);
+
+    return { success: true, codes };
+  } catch (error: unknown) {
+    console.error("Error in mintVouchers:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to mint vouchers: ${errorMessage}`);
+  }
+});
+
+exports.redeemVoucher = onCall<RedeemVoucherData, Promise<RedeemVoucherResponse>>(async (request) => {
+  const { code } = request.data;
+  const auth = request.auth;
+
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to redeem a voucher.");
+  }
+
+  if (!code || typeof code !== "string") {
+    throw new HttpsError("invalid-argument", "Missing required field: code.");
+  }
+
+  try {
+    const userId = auth.uid;
+    const voucherCode = normalizeVoucherCode(code);
+
+    const tokens = await admin.firestore().runTransaction(async (transaction) => {
+      const voucherRef = admin.firestore().doc(`vouchers/${voucherCode}`);
+      const userRef = admin.firestore().doc(`users/${userId}`);
+
+      const voucherDoc = await transaction.get(voucherRef);
+      const userDoc = await transaction.get(userRef);
+
+      if (!voucherDoc.exists) {
+        throw new HttpsError("not-found", "Voucher not found.");
+      }
+      if (!userDoc.exists) {
+        throw new HttpsError("not-found", "User not found in Firestore.");
+      }
+
+      const voucher = voucherDoc.data() as VoucherRecord;
+      if (voucher.status === "redeemed") {
+        throw new HttpsError("already-exists", "This voucher has already been redeemed.");
+      }
+      if (voucher.status !== "active" || voucher.expiresAt.toDate() <= new Date()) {
+        throw new HttpsError("failed-precondition", "This voucher has expired or is no longer valid.");
+      }
+
+      postLedgerTransfer(transaction, {
+        from: SYSTEM_ACCOUNTS.vouchers,
+        to: userAccount(userId),
+        amount: voucher.tokens,
+        reason: "voucher_redemption",
+        referenceType: "vouchers",
+        referenceId: voucherCode,
+        details: { code: voucherCode, purchaserUsername: voucher.purchaserUsername || null },
+      });
+      transaction.update(voucherRef, {
+        status: "redeemed",
+        redeemedBy: userId,
+        redeemedByUsername: (userDoc.data() as UserDocumentData).username || null,
+        redeemedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return voucher.tokens;
+    });
+
+    console.log(`User ${userId} redeemed voucher ${voucherCode} for ${tokens} tokens`);
+
+    return { success: true, tokens };
+  } catch (error: unknown) {
+    console.error("Error in redeemVoucher:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to redeem voucher: ${errorMessage}`);
+  }
+});
+
+// Throws when a new trade would break the sender's account age or outbound volume limits
+function checkTradeLimits(
+  senderData: UserDocumentData,
+  recentTrades: admin.firestore.QuerySnapshot,
+  tokens: number,
+  now: Date
+): void {
+  const createdAt: Date | undefined = senderData.createdAt?.toDate();
+  if (createdAt) {
+    const tradableFrom = new Date(createdAt.getTime() + TRADE_NEW_ACCOUNT_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+    if (tradableFrom > now) {
+      throw new HttpsError(
+        "failed-precondition",
+        `New accounts can send tokens ${TRADE_NEW_ACCOUNT_COOLDOWN_DAYS} days after signing up. ` +
+        `You can send tokens from ${tradableFrom.toUTCString()}.`
+      );
+    }
+  }
+
+  const dayStart = now.getTime() - 24 * 60 * 60 * 1000;
+  let sentToday = 0;
+  let sentThisWeek = 0;
+  recentTrades.forEach((doc) => {
+    const trade = doc.data();
+    if (RETURNED_TRADE_STATUSES.includes(trade.status)) return;
+    sentThisWeek += trade.tokens || 0;
+    if (trade.createdAt && trade.createdAt.toMillis() >= dayStart) {
+      sentToday += trade.tokens || 0;
+    }
+  });
+
+  if (sentToday + tokens > TRADE_DAILY_LIMIT) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `Daily trade limit reached. You can send ${Math.max(0, TRADE_DAILY_LIMIT - sentToday)} more tokens ` +
+      `in the next 24 hours (limit ${TRADE_DAILY_LIMIT}).`
+    );
+  }
+  if (sentThisWeek + tokens > TRADE_WEEKLY_LIMIT) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `Weekly trade limit reached. You can send ${Math.max(0, TRADE_WEEKLY_LIMIT - sentThisWeek)} more tokens ` +
+      `in the next 7 days (limit ${TRADE_WEEKLY_LIMIT}).`
+    );
+  }
+}
+
+// Counts completed back-and-forth exchanges between two accounts inside the round-trip window
+function countRoundTrips(
+  forwardTrades: admin.firestore.QuerySnapshot,
+  reverseTrades: admin.firestore.QuerySnapshot,
+  now: Date
+): number {
+  const windowStart = now.getTime() - TRADE_ROUND_TRIP_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const countInWindow = (snapshot: admin.firestore.QuerySnapshot) => snapshot.docs.filter((doc) => {
+    const trade = doc.data();
+    return !RETURNED_TRADE_STATUSES.includes(trade.status) && trade.createdAt && trade.createdAt.toMillis() >= windowStart;
+  }).length;
+
+  // The trade being created counts as one more forward trade
+  return Math.min(countInWindow(forwardTrades) + 1, countInWindow(reverseTrades));
+}
+
+// Releases a pending trade's escrow to the receiver when accepted, or back to the sender otherwise.
+// Only writes, so callers do their reads first.
+function closePendingTrade(
+  transaction: admin.firestore.Transaction,
+  tradeDoc: admin.firestore.DocumentSnapshot,
+  status: Exclude<TradeStatus, "pending">
+): void {
+  const trade = tradeDoc.data() as admin.firestore.DocumentData;
+  const accepted = status === "accepted";
+
+  postLedgerTransfer(transaction, {
+    from: SYSTEM_ACCOUNTS.escrow,
+    to: userAccount(accepted ? trade.receiverId : trade.senderId),
+    amount: trade.tokens,
+    reason: accepted ? "trade_release" : "trade_return",
+    referenceType: "trades",
+    referenceId: tradeDoc.id,
+    details: {
+      senderUsername: trade.senderUsername || null,
+      receiverUsername: trade.receiverUsername || null,
+      message: trade.message || null,
+      status,
+    },
+  });
+  transaction.update(tradeDoc.ref, {
+    status,
+    resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+exports.processTokenTrade = onCall<ProcessTokenTradeData, Promise<ProcessTokenTradeResponse>>(
+  async (request) => {
+    const { senderId, receiverUsername, tokens } = request.data;
+    const auth = request.auth;
+
+    if (!auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated to trade tokens.");
+    }
+
+    if (auth.uid !== senderId) {
+      throw new HttpsError("permission-denied", "Sender ID does not match authenticated user.");
+    }
+
+    if (!senderId || !receiverUsername || !tokens) {
+      throw new HttpsError("invalid-argument", "Missing required fields: senderId, receiverUsername, tokens.");
+    }
+
+    if (typeof tokens !== "number" || !Number.isInteger(tokens) || tokens <= 0) {
+      throw new HttpsError("invalid-argument", "Tokens must be a positive whole number.");
+    }
+    const message = sanitizeMessage(request.data.message);
+
+    try {
+      const receiverQuery = admin
+        .firestore()
+        .collection("users")
+        .where("username", "==", receiverUsername)
+        .limit(1);
+      const receiverSnapshot = await receiverQuery.get();
+
+      if (receiverSnapshot.empty) {
+        throw new HttpsError("not-found", "Receiver username not found.");
+      }
+
+      const receiverDoc = receiverSnapshot.docs[0];
+      const receiverId = receiverDoc.id;
+      if (receiverId === senderId) {
+        throw new HttpsError("invalid-argument", "You cannot send tokens to yourself.");
+      }
+
+      const now = new Date();
+      const weekStart = admin.firestore.Timestamp.fromMillis(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const tradesRef = admin.firestore().collection("trades");
+
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const senderRef = admin.firestore().doc(`users/${senderId}`);
+        const receiverRef = admin.firestore().doc(`users/${receiverId}`);
+
+        const senderDoc = await transaction.get(senderRef);
+        const receiverDoc = await transaction.get(receiverRef);
+        const recentTrades = await transaction.get(
+          tradesRef.where("senderId", "==", senderId).where("createdAt", ">=", weekStart)
+        );
+        const forwardTrades = await transaction.get(
+          tradesRef.where("senderId", "==", senderId).where("receiverId", "==", receiverId)
+        );
+        const reverseTrades = await transaction.get(
+          tradesRef.where("senderId", "==", receiverId).where("receiverId", "==", senderId)
+        );
+
+        if (!senderDoc.exists) {
+          throw new HttpsError("not-found", "Sender not found in Firestore.");
+        }
+        if (!receiverDoc.exists) {
+          throw new HttpsError("not-found", "Receiver not found in Firestore.");
+        }
+
+        const senderData = senderDoc.data() as UserDocumentData;
+        const receiverData = receiverDoc.data() as UserDocumentData;
+
+        const senderBalance = senderData.tokenBalance || 0;
+        if (senderBalance < tokens) {
+          throw new HttpsError("failed-precondition", "Insufficient tokens for trade.");
+        }
+
+        checkTradeLimits(senderData, recentTrades, tokens, now);
+        const roundTrips = countRoundTrips(forwardTrades, reverseTrades, now);
+        const flaggedForReview = roundTrips >= TRADE_ROUND_TRIP_FLAG_COUNT;
+
+        // The tokens sit in escrow until the receiver accepts, so a mistyped username can be undone
+        const tradeRef = admin.firestore().collection("trades").doc();
+        const expiresAt = new Date(Date.now() + TRADE_EXPIRY_HOURS * 60 * 60 * 1000);
+        postLedgerTransfer(transaction, {
+          from: userAccount(senderId),
+          to: SYSTEM_ACCOUNTS.escrow,
+          amount: tokens,
+          reason: "trade_escrow",
+          referenceType: "trades",
+          referenceId: tradeRef.id,
+          details: { senderUsername: senderData.username || null, receiverUsername: receiverData.username || null, message },
+        });
+        transaction.set(tradeRef, {
+          senderId,
+          senderUsername: senderData.username,
+          receiverId,
+          receiverUsername: receiverData.username,
+          tokens,
+          message,
+          status: "pending",
+          flaggedForReview,
+          expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        // The trade still goes through; admins decide whether the pair is washing tokens
+        if (flaggedForReview) {
+          const pair = [senderId, receiverId].sort();
+          transaction.set(admin.firestore().doc(`tradeReviewFlags/${pair.join("_")}`), {
+            userIds: pair,
+            usernames: { [senderId]: senderData.username || null, [receiverId]: receiverData.username || null },
+            roundTrips,
+            windowDays: TRADE_ROUND_TRIP_WINDOW_DAYS,
+            latestTradeId: tradeRef.id,
+            tradeIds: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+            status: "open",
+            flaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+          console.log(`Flagged round-trip trading between ${senderId} and ${receiverId}: ${roundTrips} round trips`);
+        }
+
+        return { success: true, tradeId: tradeRef.id, expiresAt: expiresAt.toISOString() };
+      });
+
+      console.log(`User ${senderId} offered ${tokens} tokens to ${receiverId} in trade ${result.tradeId}`);
+
+      return result;
+    } catch (error: unknown) {
+      console.error("Error in processTokenTrade:", error);
+      if (error instanceof HttpsError) throw error;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new HttpsError("internal", `Failed to process token trade: ${errorMessage}`);
+    }
+  }
+);
+
+exports.respondToTrade = onCall<RespondToTradeData, Promise<TradeActionResponse>>(async (request) => {
+  const { tradeId, action } = request.data;
+  const auth = request.auth;
+
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to respond to a trade.");
+  }
+
+  if (!tradeId || (action !== "accept" && action !== "decline")) {
+    throw new HttpsError("invalid-argument", "Missing required fields: tradeId, action (accept or decline).");
+  }
+
+  try {
+    const status = action === "accept" ? "accepted" : "declined";
+    await admin.firestore().runTransaction(async (transaction) => {
+      const tradeDoc = await transaction.get(admin.firestore().doc(`trades/${tradeId}`));
+      const trade = tradeDoc.data();
+      if (!trade || trade.receiverId !== auth.uid) {
+        throw new HttpsError("not-found", "Trade not found.");
+      }
+      if (trade.status !== "pending") {
+        throw new HttpsError("failed-precondition", `This trade has already been ${trade.status}.`);
+      }
+      if (trade.expiresAt.toDate() <= new Date()) {
+        throw new HttpsError("failed-precondition", "This trade has expired.");
+      }
+
+      closePendingTrade(transaction, tradeDoc, status);
+    });
+
+    console.log(`User ${auth.uid} ${status} trade ${tradeId}`);
+
+    return { success: true, status };
+  } catch (error: unknown) {
+    console.error("Error in respondToTrade:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to respond to trade: ${errorMessage}`);
+  }
+});
+
+exports.cancelTrade = onCall<CancelTradeData, Promise<TradeActionResponse>>(async (request) => {
+  const { tradeId } = request.data;
+  const auth = request.auth;
+
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated to cancel a trade.");
+  }
+
+  if (!tradeId) {
+    throw new HttpsError("invalid-argument", "Missing required field: tradeId.");
+  }
+
+  try {
+    await admin.firestore().runTransaction(async (transaction) => {
+      const tradeDoc = await transaction.get(admin.firestore().doc(`trades/${tradeId}`));
+      const trade = tradeDoc.data();
+      if (!trade || trade.senderId !== auth.uid) {
+        throw new HttpsError("not-found", "Trade not found.");
+      }
+      if (trade.status !== "pending") {
+        throw new HttpsError("failed-precondition", `This trade has already been ${trade.status}.`);
+      }
+
+      closePendingTrade(transaction, tradeDoc, "cancelled");
+    });
+
+    console.log(`User ${auth.uid} cancelled trade ${tradeId}`);
+
+    return { success: true, status: "cancelled" };
+  } catch (error: unknown) {
+    console.error("Error in cancelTrade:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to cancel trade: ${errorMessage}`);
+  }
+});
+
+exports.processSubscription = onCall<ProcessSubscriptionData, Promise<ProcessSubscriptionResponse>>(
+  async (request) => {
+    const { userId, planId, billingPeriod, duration, autoRenew = true } = request.data;
+    const auth = request.auth;
+
+    if (!auth || auth.uid !== userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    if (!userId || !planId || !billingPeriod || !duration) {
+      throw new HttpsError("invalid-argument", "Missing required fields.");
+    }
+
+    const plans = await getSubscriptionPlanCatalog();
+    if (!plans[planId]) {
+      throw new HttpsError("invalid-argument", "Invalid plan ID.");
+    }
+
+    if (billingPeriod !== "monthly" && billingPeriod !== "yearly") {
+      throw new HttpsError("invalid-argument", "Billing period must be 'monthly' or 'yearly'.");
+    }
+
+    if (typeof duration !== "number" || duration <= 0) {
+      throw new HttpsError("invalid-argument", "Duration must be a positive number.");
+    }
+
+    try {
+      const plan = plans[planId];
+      const baseTokenCost = getPlanPrice(plan, billingPeriod);
+      let totalTokenCost = baseTokenCost * duration;
+
+      // A paused subscription still holds the member's place, so it has to be resumed first
+      const pausedSubSnapshot = await admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "==", "paused")
+        .limit(1)
+        .get();
+      if (!pausedSubSnapshot.empty) {
+        throw new HttpsError("failed-precondition", "Resume your paused subscription before changing plans.");
+      }
+
+      // Check if there's an active subscription
+      const activeSubQuery = admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "==", "active");
+      const activeSubSnapshot = await activeSubQuery.get();
+      const hasActiveSubscription = !activeSubSnapshot.empty;
+
+      // A cancelled subscription in its grace period is replaced by the new one rather than expired later
+      const graceSubSnapshot = await admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "==", "grace")
+        .get();
+
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const userRef = admin.firestore().doc(`users/${userId}`);
+        const userDoc = await transaction.get(userRef);
+
+        if (!userDoc.exists) {
+          throw new HttpsError("not-found", "User not found.");
+        }
+
+        const userData = userDoc.data();
+        const currentBalance = userData?.tokenBalance || 0;
+
+        let startDate = new Date();
+        let endDate: Date;
+        let isUpgrade = false;
+        let subscriptionId = "";
+        let adjustedRequestLimits = null;
+        let proRateCredit = 0;
+        let boosterMovieRequests = 0;
+        let boosterTvRequests = 0;
+        let boosterExpiresAt: admin.firestore.Timestamp | null = null;
+        let replacedPaypalSubscriptionId: string | null = null;
+
+        if (hasActiveSubscription) {
+          const activeSub = activeSubSnapshot.docs[0].data();
+          const currentPlanId = activeSub.planId;
+          const currentBillingPeriod: BillingPeriod = activeSub.billingPeriod === "yearly" ? "yearly" : "monthly";
+          const isSwitchToYearly = currentBillingPeriod === "monthly" && billingPeriod === "yearly";
+          
+          // Prevent same plan purchase, unless it moves a monthly subscription onto yearly billing
+          if (currentPlanId === planId && !isSwitchToYearly) {
+            throw new HttpsError(
+              "failed-precondition", 
+              `You already have an active ${planId} subscription.`
+            );
+          }
+
+          // The unused part of a year is worth more than a month, so it can't be credited toward one
+          if (currentBillingPeriod === "yearly" && billingPeriod === "monthly") {
+            throw new HttpsError(
+              "failed-precondition",
+              "A yearly subscription can only be upgraded to another yearly plan. " +
+              "Schedule the move to monthly billing for the end of your current year instead."
+            );
+          }
+          
+          // Determine if this is an upgrade by comparing where the plans sit in the catalog
+          const currentPlanData = plans[currentPlanId];
+          if (!currentPlanData || plan.displayOrder > currentPlanData.displayOrder || currentPlanId === planId) {
+            // UPGRADE - Calculate pro-rate and differential limits
+            isUpgrade = true;
+            
+            // Calculate pro-rate credit for unused time
+            const activeEndDate = activeSub.endDate.toDate();
+            const now = new Date();
+            const totalDays = Math.ceil((activeEndDate.getTime() - new Date(activeSub.startDate.toDate()).getTime()) / (1000 * 60 * 60 * 24));
+            const remainingDays = Math.ceil((activeEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+            const usedDays = totalDays - remainingDays;
+            
+            // Calculate prorated amount at the price of the period the member paid for;
+            // a plan since removed from the catalog gets no credit
+            const currentPlanTokens = currentPlanData
+              ? getPlanPrice(currentPlanData, currentBillingPeriod) * (activeSub.duration || 1)
+              : 0;
+            const usedTokens = Math.floor((currentPlanTokens * usedDays) / totalDays);
+            // A subscription past its end date has nothing left to credit
+            proRateCredit = Math.max(0, currentPlanTokens - usedTokens);
+            
+            // Apply pro-rate credit
+            totalTokenCost = Math.max(0, totalTokenCost - proRateCredit);
+            
+            // Get request limits for differential calculation
+            const currentPlanLimits = await getPlanRequestLimits(currentPlanId);
+            const newPlanLimits = await getPlanRequestLimits(planId);
+            const movieRequestsUsed = activeSub.movieRequestsUsed || 0;
+            const tvRequestsUsed = activeSub.tvRequestsUsed || 0;
+            
+            // Calculate the difference in limits
+            const movieDifference = newPlanLimits.movie - currentPlanLimits.movie;
+            const tvDifference = newPlanLimits.tv - currentPlanLimits.tv;
+            
+            // Adjusted limits for Jellyseerr (only the additional requests)
+            adjustedRequestLimits = {
+              movieLimit: Math.max(0, movieDifference),
               tvLimit: Math.max(0, tvDifference)
             };
             
@@ -1543,13 +3993,14 @@ exports.processSubscription = onCall<ProcessSubscriptionData, Promise<ProcessSub
             });
             
             // Calculate new end date from today
-            endDate = new Date(startDate);
-            if (billingPeriod === "monthly") {
-              endDate.setMonth(endDate.getMonth() + duration);
-            } else {
-              endDate.setFullYear(endDate.getFullYear() + duration);
-            }
+            endDate = addBillingPeriods(startDate, billingPeriod, duration);
             
+            const boosters = getActiveBoosterRequests(activeSub);
+            boosterMovieRequests = boosters.movie;
+            boosterTvRequests = boosters.tv;
+            boosterExpiresAt = activeSub.boosterExpiresAt || null;
+            replacedPaypalSubscriptionId = activeSub.renewalMethod === "paypal" ? activeSub.paypalSubscriptionId || null : null;
+
             // Cancel the current subscription
             transaction.update(activeSubSnapshot.docs[0].ref, {
               status: "upgraded",
@@ -1562,152 +4013,868 @@ exports.processSubscription = onCall<ProcessSubscriptionData, Promise<ProcessSub
             throw new HttpsError(
               "failed-precondition", 
               "Cannot purchase a lower tier plan while you have an active subscription. " +
-              "Please wait for your current subscription to expire or upgrade to a higher plan."
+              "Schedule the downgrade for the end of your current period or upgrade to a higher plan."
             );
           }
         } else {
           // NEW SUBSCRIPTION - calculate end date normally
-          endDate = new Date(startDate);
-          if (billingPeriod === "monthly") {
-            endDate.setMonth(endDate.getMonth() + duration);
-          } else {
-            endDate.setFullYear(endDate.getFullYear() + duration);
-          }
+          endDate = addBillingPeriods(startDate, billingPeriod, duration);
+        }
+
+        // Check balance
+        if (currentBalance < totalTokenCost) {
+          throw new HttpsError("failed-precondition", "Insufficient tokens.");
+        }
+
+        // Create subscription record
+        const subscriptionRef = admin.firestore().collection("subscriptions").doc();
+        subscriptionId = subscriptionRef.id;
+
+        transaction.set(subscriptionRef, {
+          subscriptionId,
+          userId,
+          planId,
+          billingPeriod,
+          duration,
+          tokenCost: totalTokenCost,
+          startDate: admin.firestore.Timestamp.fromDate(startDate),
+          endDate: admin.firestore.Timestamp.fromDate(endDate),
+          status: "active",
+          autoRenew: autoRenew ?? true,
+          isUpgrade,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          // For upgrades, carry over the used requests
+          movieRequestsUsed: isUpgrade && hasActiveSubscription ? 
+            (activeSubSnapshot.docs[0].data().movieRequestsUsed || 0) : 0,
+          tvRequestsUsed: isUpgrade && hasActiveSubscription ? 
+            (activeSubSnapshot.docs[0].data().tvRequestsUsed || 0) : 0,
+          lastResetDate: isUpgrade && hasActiveSubscription ? 
+            activeSubSnapshot.docs[0].data().lastResetDate : 
+            admin.firestore.Timestamp.fromDate(startDate),
+          // Booster packs bought on the old plan stay with the upgraded subscription until they expire
+          boosterMovieRequests: boosterMovieRequests,
+          boosterTvRequests: boosterTvRequests,
+          boosterExpiresAt,
+        });
+
+        graceSubSnapshot.docs.forEach((graceSubDoc) => {
+          transaction.update(graceSubDoc.ref, {
+            status: "expired",
+            expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+            replacedBy: subscriptionId,
+          });
+        });
+
+        // Log redemption and deduct tokens
+        const redemptionRef = admin.firestore().collection("redemptions").doc();
+        postLedgerTransfer(transaction, {
+          from: userAccount(userId),
+          to: SYSTEM_ACCOUNTS.revenue,
+          amount: totalTokenCost,
+          reason: "subscription",
+          referenceType: "redemptions",
+          referenceId: redemptionRef.id,
+          details: { productType: "mediaSubscription", productId: planId, subscriptionId },
+        });
+        transaction.set(redemptionRef, {
+          userId,
+          productType: "mediaSubscription",
+          productId: planId,
+          tokenCost: totalTokenCost,
+          subscriptionId,
+          isUpgrade,
+          proRateCredit: isUpgrade ? proRateCredit : 0,
+          adjustedRequestLimits: isUpgrade ? adjustedRequestLimits : null,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return {
+          subscriptionId,
+          endDate: endDate.toISOString(),
+          embyUserId: userData?.services?.emby?.serviceUserId || null,
+          email: userData?.email || null,
+          isUpgrade,
+          adjustedRequestLimits,
+          boosterMovieRequests,
+          boosterTvRequests,
+          replacedPaypalSubscriptionId,
+        };
+      });
+
+      // The PayPal billing plan is tied to the old plan's price and period, so the upgrade renews with tokens
+      if (result.replacedPaypalSubscriptionId) {
+        try {
+          await cancelPaypalBillingSubscription(result.replacedPaypalSubscriptionId, `Upgraded to the ${planId} plan`);
+        } catch (error) {
+          console.error(`Failed to cancel PayPal subscription ${result.replacedPaypalSubscriptionId} after upgrade:`, error);
+        }
+      }
+
+      // Update services
+      if (result.embyUserId) {
+        try {
+          await updateEmbySubscriptionPermissions(result.embyUserId, planId);
+          await syncJellyseerrUser(result.embyUserId);
+          await updateJellyseerrRequestLimits(
+            result.email,
+            planId,
+            result.embyUserId,
+            await getBoostedRequestLimits(planId, result.boosterMovieRequests, result.boosterTvRequests),
+            new Date(result.endDate)
+          );
+          console.log(`Updated Jellyseerr with ${planId} plan limits`);
+        } catch (error) {
+          console.error("Failed to update services:", error);
+        }
+      }
+
+      return {
+        success: true,
+        subscriptionId: result.subscriptionId,
+        endDate: result.endDate,
+      };
+    } catch (error: unknown) {
+      console.error("Error in processSubscription:", error);
+      if (error instanceof HttpsError) throw error;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new HttpsError("internal", `Failed to process subscription: ${errorMessage}`);
+    }
+  }
+);
+
+exports.toggleAutoRenew = onCall(async (request) => {
+  const { userId, autoRenew } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  if (typeof autoRenew !== "boolean") {
+    throw new HttpsError("invalid-argument", "autoRenew must be a boolean value.");
+  }
+
+  try {
+    // Find active subscription
+    const activeSubQuery = admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .limit(1);
+    
+    const snapshot = await activeSubQuery.get();
+    
+    if (snapshot.empty) {
+      throw new HttpsError("not-found", "No active subscription found.");
+    }
+
+    const subDoc = snapshot.docs[0];
+    const subData = subDoc.data();
+
+    // Turning auto-renew back on after a cancellation takes the cancellation back
+    if (autoRenew && subData.cancelledAt) {
+      await withdrawCancellation(subDoc);
+      return { success: true, autoRenew, message: "Auto-renewal enabled" };
+    }
+
+    // Turning auto-renew off has to stop PayPal billing too
+    if (!autoRenew && subData.renewalMethod === "paypal" && subData.paypalSubscriptionId) {
+      await cancelPaypalBillingSubscription(subData.paypalSubscriptionId, "Auto-renewal turned off");
+    }
+    
+    // Update auto-renew status; a scheduled downgrade is applied by the renewal, so it goes too
+    await subDoc.ref.update({
+      autoRenew,
+      autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(!autoRenew && subData.renewalMethod === "paypal" ? {
+        renewalMethod: "tokens",
+        paypalSubscriptionStatus: "CANCELLED",
+      } : {}),
+      ...(!autoRenew && subData.scheduledDowngrade ? {
+        scheduledDowngrade: admin.firestore.FieldValue.delete(),
+      } : {}),
+    });
+
+    return { 
+      success: true, 
+      autoRenew,
+      message: autoRenew ? "Auto-renewal enabled" : "Auto-renewal disabled. Subscription will expire at the end of the current period."
+    };
+  } catch (error: any) {
+    console.error("Error toggling auto-renew:", error);
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError("internal", "Failed to update auto-renewal status.");
+  }
+});
+
+exports.setRenewalMethod = onCall<SetRenewalMethodData, Promise<SetRenewalMethodResponse>>(async (request) => {
+  const { userId, method } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  if (method !== "tokens" && method !== "paypal") {
+    throw new HttpsError("invalid-argument", "Renewal method must be 'tokens' or 'paypal'.");
+  }
+
+  try {
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      throw new HttpsError("not-found", "No active subscription found.");
+    }
+
+    const subDoc = snapshot.docs[0];
+    const subData = subDoc.data();
+
+    if (method === "tokens") {
+      if (subData.renewalMethod === "paypal" && subData.paypalSubscriptionId) {
+        await cancelPaypalBillingSubscription(subData.paypalSubscriptionId, "Switched to token renewal");
+      }
+
+      await subDoc.ref.update({
+        renewalMethod: "tokens",
+        paypalSubscriptionStatus: subData.paypalSubscriptionId ? "CANCELLED" : null,
+        autoRenew: true,
+        autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { success: true, renewalMethod: "tokens" };
+    }
+
+    if (subData.renewalMethod === "paypal" && PAYPAL_BILLING_STATUSES.includes(subData.paypalSubscriptionStatus)) {
+      throw new HttpsError("already-exists", "This subscription already renews through PayPal.");
+    }
+
+    // PayPal would bill for the current plan, so a scheduled downgrade has to renew with tokens
+    if (subData.scheduledDowngrade) {
+      throw new HttpsError("failed-precondition", "Cancel your scheduled plan change before renewing through PayPal.");
+    }
+
+    const billingPeriod: BillingPeriod = subData.billingPeriod === "yearly" ? "yearly" : "monthly";
+    const billingPlanId = await getPaypalBillingPlanId(subData.planId, billingPeriod);
+
+    // Start billing when the current period ends so the member isn't charged twice for it
+    const endDate: Date = subData.endDate.toDate();
+    const startTime = new Date(Math.max(endDate.getTime(), Date.now() + 5 * 60 * 1000));
+
+    const paypalSubscription = await paypalClient.createSubscription({
+      planId: billingPlanId,
+      customId: `${userId}:${subDoc.id}`,
+      startTime,
+      returnUrl: `${APP_BASE_URL}/media?paypalRenewal=approved`,
+      cancelUrl: `${APP_BASE_URL}/media?paypalRenewal=cancelled`,
+    });
+
+    const approvalUrl = paypalSubscription.links?.find((link) => link.rel === "approve")?.href;
+    if (!approvalUrl) {
+      throw new HttpsError("internal", "PayPal did not return an approval link.");
+    }
+
+    const mapping: PaypalSubscriptionRecord = {
+      userId,
+      planId: subData.planId,
+      billingPeriod,
+      subscriptionDocId: subDoc.id,
+      status: paypalSubscription.status,
+    };
+    await admin.firestore().doc(`paypalSubscriptions/${paypalSubscription.id}`).set({
+      ...mapping,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { success: true, renewalMethod: "paypal", approvalUrl };
+  } catch (error: unknown) {
+    console.error("Error in setRenewalMethod:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to change renewal method: ${errorMessage}`);
+  }
+});
+
+exports.confirmPaypalRenewal = onCall<ConfirmPaypalRenewalData, Promise<ConfirmPaypalRenewalResponse>>(
+  async (request) => {
+    const { userId, paypalSubscriptionId } = request.data;
+    const auth = request.auth;
+
+    if (!auth || auth.uid !== userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    if (!paypalSubscriptionId) {
+      throw new HttpsError("invalid-argument", "Missing required field: paypalSubscriptionId.");
+    }
+
+    try {
+      const mappingRef = admin.firestore().doc(`paypalSubscriptions/${paypalSubscriptionId}`);
+      const mappingDoc = await mappingRef.get();
+      const mapping = mappingDoc.data() as PaypalSubscriptionRecord | undefined;
+      if (!mapping || mapping.userId !== userId) {
+        throw new HttpsError("not-found", "PayPal subscription not found.");
+      }
+
+      const paypalSubscription = await paypalClient.getSubscription(paypalSubscriptionId);
+      if (paypalSubscription.custom_id !== `${userId}:${mapping.subscriptionDocId}`) {
+        throw new HttpsError("permission-denied", "PayPal subscription does not belong to the authenticated user.");
+      }
+      if (paypalSubscription.plan_id !== await getPaypalBillingPlanId(mapping.planId, mapping.billingPeriod || "monthly")) {
+        throw new HttpsError("failed-precondition", "PayPal subscription is for a different plan.");
+      }
+      if (!PAYPAL_BILLING_STATUSES.includes(paypalSubscription.status)) {
+        throw new HttpsError("failed-precondition", `PayPal subscription is ${paypalSubscription.status.toLowerCase()}.`);
+      }
+
+      const previousPaypalSubscriptionId = await admin.firestore().runTransaction(async (transaction) => {
+        const subRef = admin.firestore().doc(`subscriptions/${mapping.subscriptionDocId}`);
+        const subDoc = await transaction.get(subRef);
+        const subData = subDoc.data();
+        if (!subData || subData.status !== "active") {
+          throw new HttpsError("failed-precondition", "The subscription this renewal was set up for is no longer active.");
         }
 
-        // Check balance
-        if (currentBalance < totalTokenCost) {
-          throw new HttpsError("failed-precondition", "Insufficient tokens.");
+        transaction.update(subRef, {
+          renewalMethod: "paypal",
+          paypalSubscriptionId,
+          paypalSubscriptionStatus: paypalSubscription.status,
+          autoRenew: true,
+          autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        transaction.update(mappingRef, {
+          status: paypalSubscription.status,
+          approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const previousId = subData.paypalSubscriptionId;
+        return previousId && previousId !== paypalSubscriptionId ? previousId as string : null;
+      });
+
+      // Only one PayPal subscription should bill for a plan at a time
+      if (previousPaypalSubscriptionId) {
+        await cancelPaypalBillingSubscription(previousPaypalSubscriptionId, "Replaced by a new PayPal subscription");
+      }
+
+      return { success: true, paypalSubscriptionStatus: paypalSubscription.status };
+    } catch (error: unknown) {
+      console.error("Error in confirmPaypalRenewal:", error);
+      if (error instanceof HttpsError) throw error;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new HttpsError("internal", `Failed to confirm PayPal renewal: ${errorMessage}`);
+    }
+  }
+);
+
+exports.scheduleDowngrade = onCall<ScheduleDowngradeData, Promise<ScheduleDowngradeResponse>>(async (request) => {
+  const { userId, planId, billingPeriod } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  if (!planId || !billingPeriod) {
+    throw new HttpsError("invalid-argument", "Missing required fields: planId, billingPeriod.");
+  }
+
+  if (billingPeriod !== "monthly" && billingPeriod !== "yearly") {
+    throw new HttpsError("invalid-argument", "Billing period must be 'monthly' or 'yearly'.");
+  }
+
+  try {
+    const plans = await getSubscriptionPlanCatalog();
+    const plan = plans[planId];
+    if (!plan) {
+      throw new HttpsError("invalid-argument", "Invalid plan ID.");
+    }
+
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      throw new HttpsError("not-found", "No active subscription found.");
+    }
+
+    const subDoc = snapshot.docs[0];
+    const subData = subDoc.data();
+    const currentBillingPeriod: BillingPeriod = subData.billingPeriod === "yearly" ? "yearly" : "monthly";
+
+    if (subData.planId === planId && currentBillingPeriod === billingPeriod) {
+      throw new HttpsError("failed-precondition", `You are already on the ${billingPeriod} ${planId} plan.`);
+    }
+
+    // Anything processSubscription accepts as an upgrade takes effect immediately instead
+    const currentPlanData = plans[subData.planId];
+    const canUpgradeNow = !(currentBillingPeriod === "yearly" && billingPeriod === "monthly") &&
+      (!currentPlanData || plan.displayOrder > currentPlanData.displayOrder || subData.planId === planId);
+    if (canUpgradeNow) {
+      throw new HttpsError("failed-precondition", "Upgrades take effect immediately. Choose the plan to upgrade now.");
+    }
+
+    // The downgrade is applied by the token renewal, so PayPal must stop billing for the current plan
+    if (subData.renewalMethod === "paypal" && subData.paypalSubscriptionId) {
+      await cancelPaypalBillingSubscription(subData.paypalSubscriptionId, `Downgrading to the ${planId} plan`);
+    }
+
+    // A downgrade renews the subscription, so it takes back any pending cancellation
+    if (subData.cancelledAt) {
+      await withdrawCancellation(subDoc);
+    }
+
+    const scheduledDowngrade: ScheduledDowngrade = {
+      planId,
+      billingPeriod,
+      requestedAt: admin.firestore.Timestamp.now(),
+    };
+    await subDoc.ref.update({
+      scheduledDowngrade,
+      autoRenew: true,
+      autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(subData.renewalMethod === "paypal" ? {
+        renewalMethod: "tokens",
+        paypalSubscriptionStatus: subData.paypalSubscriptionId ? "CANCELLED" : null,
+      } : {}),
+    });
+
+    return {
+      success: true,
+      planId,
+      billingPeriod,
+      effectiveDate: subData.endDate.toDate().toISOString(),
+    };
+  } catch (error: unknown) {
+    console.error("Error in scheduleDowngrade:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to schedule downgrade: ${errorMessage}`);
+  }
+});
+
+exports.cancelScheduledDowngrade = onCall<CancelScheduledDowngradeData, Promise<{ success: boolean }>>(async (request) => {
+  const { userId } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  try {
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .limit(1)
+      .get();
+
+    const subDoc = snapshot.docs[0];
+    if (!subDoc?.data().scheduledDowngrade) {
+      throw new HttpsError("not-found", "No scheduled downgrade found.");
+    }
+
+    await subDoc.ref.update({
+      scheduledDowngrade: admin.firestore.FieldValue.delete(),
+      scheduledDowngradeCancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error in cancelScheduledDowngrade:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to cancel scheduled downgrade: ${errorMessage}`);
+  }
+});
+
+exports.cancelSubscription = onCall<CancelSubscriptionData, Promise<CancelSubscriptionResponse>>(async (request) => {
+  const { userId, reason, comment } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  if (!CANCELLATION_REASONS.includes(reason)) {
+    throw new HttpsError("invalid-argument", `Reason must be one of: ${CANCELLATION_REASONS.join(", ")}.`);
+  }
+
+  if (comment !== undefined && (typeof comment !== "string" || comment.length > CANCELLATION_COMMENT_MAX_LENGTH)) {
+    throw new HttpsError("invalid-argument", `Comment must be text of at most ${CANCELLATION_COMMENT_MAX_LENGTH} characters.`);
+  }
+
+  try {
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      throw new HttpsError("not-found", "No active subscription found.");
+    }
+
+    const subDoc = snapshot.docs[0];
+    const subData = subDoc.data();
+
+    if (subData.cancelledAt) {
+      throw new HttpsError("already-exists", "This subscription is already cancelled.");
+    }
+
+    if (subData.renewalMethod === "paypal" && subData.paypalSubscriptionId) {
+      await cancelPaypalBillingSubscription(subData.paypalSubscriptionId, "Subscription cancelled");
+    }
+
+    const cancellationRef = admin.firestore().collection("subscriptionCancellations").doc();
+    const cancellation: SubscriptionCancellationRecord = {
+      userId,
+      subscriptionId: subDoc.id,
+      planId: subData.planId,
+      billingPeriod: subData.billingPeriod === "yearly" ? "yearly" : "monthly",
+      reason,
+      comment: comment?.trim() || null,
+      reactivated: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const batch = admin.firestore().batch();
+    batch.set(cancellationRef, cancellation);
+    batch.update(subDoc.ref, {
+      autoRenew: false,
+      autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+      cancellationId: cancellationRef.id,
+      cancellationReason: reason,
+      scheduledDowngrade: admin.firestore.FieldValue.delete(),
+      ...(subData.renewalMethod === "paypal" ? {
+        renewalMethod: "tokens",
+        paypalSubscriptionStatus: subData.paypalSubscriptionId ? "CANCELLED" : null,
+      } : {}),
+    });
+    await batch.commit();
+
+    return {
+      success: true,
+      accessEndsAt: subData.endDate.toDate().toISOString(),
+      graceEndsAt: getGraceEndDate(subData).toISOString(),
+    };
+  } catch (error: unknown) {
+    console.error("Error in cancelSubscription:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to cancel subscription: ${errorMessage}`);
+  }
+});
+
+// Undoes a cancellation. Before endDate that just turns renewal back on; during the grace period
+// the member pays for a new period that starts where the old one ended.
+exports.reactivateSubscription = onCall<ReactivateSubscriptionData, Promise<ReactivateSubscriptionResponse>>(
+  async (request) => {
+    const { userId } = request.data;
+    const auth = request.auth;
+
+    if (!auth || auth.uid !== userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    try {
+      const snapshot = await admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "in", ["active", "grace"])
+        .orderBy("endDate", "desc")
+        .limit(1)
+        .get();
+
+      const subDoc = snapshot.docs[0];
+      const subData = subDoc?.data();
+      if (!subDoc || !subData?.cancelledAt) {
+        throw new HttpsError("not-found", "No cancelled subscription to reactivate.");
+      }
+
+      const now = new Date();
+      if (!isSubscriptionLapsed(subData, now)) {
+        await withdrawCancellation(subDoc);
+        return {
+          success: true,
+          subscriptionId: subDoc.id,
+          endDate: subData.endDate.toDate().toISOString(),
+          tokenCost: 0,
+        };
+      }
+
+      if (!isInCancellationGrace(subData, now)) {
+        throw new HttpsError("failed-precondition", "The grace period has ended. Choose a plan to subscribe again.");
+      }
+
+      const plan = await getSubscriptionPlan(subData.planId);
+      if (!plan) {
+        throw new HttpsError("failed-precondition", "This plan is no longer offered. Choose a plan to subscribe again.");
+      }
+
+      const billingPeriod: BillingPeriod = subData.billingPeriod === "yearly" ? "yearly" : "monthly";
+      const tokenCost = getPlanPrice(plan, billingPeriod);
+      const endDate = addBillingPeriods(subData.endDate.toDate(), billingPeriod, 1);
+
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const userRef = admin.firestore().doc(`users/${userId}`);
+        const userDoc = await transaction.get(userRef);
+        const currentSubDoc = await transaction.get(subDoc.ref);
+        if (!userDoc.exists) {
+          throw new HttpsError("not-found", "User not found.");
+        }
+        if (currentSubDoc.data()?.status !== subData.status) {
+          throw new HttpsError("aborted", "This subscription changed while reactivating. Please try again.");
         }
 
-        // Create subscription record
-        const subscriptionRef = admin.firestore().collection("subscriptions").doc();
-        subscriptionId = subscriptionRef.id;
+        const userData = userDoc.data();
+        if ((userData?.tokenBalance || 0) < tokenCost) {
+          throw new HttpsError("failed-precondition", "Insufficient tokens.");
+        }
 
-        transaction.set(subscriptionRef, {
-          subscriptionId,
+        const newSubRef = admin.firestore().collection("subscriptions").doc();
+        transaction.set(newSubRef, {
+          subscriptionId: newSubRef.id,
           userId,
-          planId,
+          planId: subData.planId,
           billingPeriod,
-          duration,
-          tokenCost: totalTokenCost,
-          startDate: admin.firestore.Timestamp.fromDate(startDate),
+          duration: 1,
+          tokenCost,
+          startDate: subData.endDate,
           endDate: admin.firestore.Timestamp.fromDate(endDate),
           status: "active",
-          autoRenew: autoRenew ?? true,
-          isUpgrade,
+          autoRenew: true,
+          renewedFrom: subDoc.id,
+          reactivated: true,
           createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          // For upgrades, carry over the used requests
-          movieRequestsUsed: isUpgrade && hasActiveSubscription ? 
-            (activeSubSnapshot.docs[0].data().movieRequestsUsed || 0) : 0,
-          tvRequestsUsed: isUpgrade && hasActiveSubscription ? 
-            (activeSubSnapshot.docs[0].data().tvRequestsUsed || 0) : 0,
-          lastResetDate: isUpgrade && hasActiveSubscription ? 
-            activeSubSnapshot.docs[0].data().lastResetDate : 
-            admin.firestore.Timestamp.fromDate(startDate),
         });
-
-        // Deduct tokens
-        if (totalTokenCost > 0) {
-          transaction.update(userRef, {
-            tokenBalance: admin.firestore.FieldValue.increment(-totalTokenCost),
+        transaction.update(subDoc.ref, {
+          status: "renewed",
+          renewedAt: admin.firestore.FieldValue.serverTimestamp(),
+          renewedTo: newSubRef.id,
+          reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        if (subData.cancellationId) {
+          transaction.update(admin.firestore().doc(`subscriptionCancellations/${subData.cancellationId}`), {
+            reactivated: true,
+            reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
           });
-        }
-
-        // Log redemption
-        const redemptionRef = admin.firestore().collection("redemptions").doc();
-        transaction.set(redemptionRef, {
-          userId,
-          productType: "mediaSubscription",
-          productId: planId,
-          tokenCost: totalTokenCost,
-          subscriptionId,
-          isUpgrade,
-          proRateCredit: isUpgrade ? proRateCredit : 0,
-          adjustedRequestLimits: isUpgrade ? adjustedRequestLimits : null,
+        }
+
+        const redemptionRef = admin.firestore().collection("redemptions").doc();
+        postLedgerTransfer(transaction, {
+          from: userAccount(userId),
+          to: SYSTEM_ACCOUNTS.revenue,
+          amount: tokenCost,
+          reason: "subscription_renewal",
+          referenceType: "redemptions",
+          referenceId: redemptionRef.id,
+          details: { productType: "subscriptionRenewal", productId: subData.planId, subscriptionId: newSubRef.id },
+        });
+        transaction.set(redemptionRef, {
+          userId,
+          productType: "subscriptionRenewal",
+          productId: subData.planId,
+          tokenCost,
+          subscriptionId: newSubRef.id,
+          reactivation: true,
           createdAt: admin.firestore.FieldValue.serverTimestamp(),
         });
 
         return {
-          subscriptionId,
-          endDate: endDate.toISOString(),
+          subscriptionId: newSubRef.id,
           embyUserId: userData?.services?.emby?.serviceUserId || null,
-          email: userData?.email || null,
-          isUpgrade,
-          adjustedRequestLimits,
+          email: userData?.email || "",
         };
       });
 
-      // Update services
+      // Emby stayed on through the grace period; only the request quota window needs the new end date
       if (result.embyUserId) {
         try {
-          await updateEmbySubscriptionPermissions(result.embyUserId, planId);
-          await syncJellyseerrUser(result.embyUserId);
-          await updateJellyseerrRequestLimits(result.email, planId, result.embyUserId, undefined, new Date(result.endDate));
-          console.log(`Updated Jellyseerr with ${planId} plan limits`);
+          await updateJellyseerrRequestLimits(result.email, subData.planId, result.embyUserId, undefined, endDate);
         } catch (error) {
-          console.error("Failed to update services:", error);
+          console.error("Failed to update Jellyseerr after reactivation:", error);
         }
       }
 
-      return {
-        success: true,
-        subscriptionId: result.subscriptionId,
-        endDate: result.endDate,
-      };
+      return { success: true, subscriptionId: result.subscriptionId, endDate: endDate.toISOString(), tokenCost };
     } catch (error: unknown) {
-      console.error("Error in processSubscription:", error);
+      console.error("Error in reactivateSubscription:", error);
       if (error instanceof HttpsError) throw error;
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      throw new HttpsError("internal", `Failed to process subscription: ${errorMessage}`);
+      throw new HttpsError("internal", `Failed to reactivate subscription: ${errorMessage}`);
     }
   }
 );
 
-exports.toggleAutoRenew = onCall(async (request) => {
-  const { userId, autoRenew } = request.data;
+// Tallies cancellation reasons, and how many of each were won back, over a recent window
+exports.getCancellationStats = onCall<GetCancellationStatsData, Promise<GetCancellationStatsResponse>>(async (request) => {
+  const { days = CANCELLATION_STATS_DEFAULT_DAYS } = request.data || {};
+
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can view cancellation stats.");
+  }
+
+  if (!Number.isInteger(days) || days < 1) {
+    throw new HttpsError("invalid-argument", "Days must be a positive whole number.");
+  }
+
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptionCancellations")
+      .where("createdAt", ">=", admin.firestore.Timestamp.fromDate(since))
+      .get();
+
+    const reasons = Object.fromEntries(
+      CANCELLATION_REASONS.map((reason) => [reason, { cancelled: 0, reactivated: 0 }])
+    ) as GetCancellationStatsResponse["reasons"];
+    let reactivated = 0;
+
+    snapshot.forEach((doc) => {
+      const cancellation = doc.data() as SubscriptionCancellationRecord;
+      const tally = reasons[cancellation.reason] || reasons.other;
+      tally.cancelled++;
+      if (cancellation.reactivated) {
+        tally.reactivated++;
+        reactivated++;
+      }
+    });
+
+    return { since: since.toISOString(), total: snapshot.size, reactivated, reasons };
+  } catch (error: unknown) {
+    console.error("Error in getCancellationStats:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to load cancellation stats: ${errorMessage}`);
+  }
+});
+
+exports.pauseSubscription = onCall<PauseSubscriptionData, Promise<PauseSubscriptionResponse>>(async (request) => {
+  const { userId, days } = request.data;
   const auth = request.auth;
 
   if (!auth || auth.uid !== userId) {
     throw new HttpsError("unauthenticated", "User must be authenticated.");
   }
 
-  if (typeof autoRenew !== "boolean") {
-    throw new HttpsError("invalid-argument", "autoRenew must be a boolean value.");
+  if (!Number.isInteger(days) || days < 1 || days > SUBSCRIPTION_MAX_PAUSE_DAYS) {
+    throw new HttpsError("invalid-argument", `Pause length must be between 1 and ${SUBSCRIPTION_MAX_PAUSE_DAYS} days.`);
   }
 
   try {
-    // Find active subscription
-    const activeSubQuery = admin
+    const snapshot = await admin
       .firestore()
       .collection("subscriptions")
       .where("userId", "==", userId)
       .where("status", "==", "active")
-      .limit(1);
-    
-    const snapshot = await activeSubQuery.get();
-    
+      .limit(1)
+      .get();
+
     if (snapshot.empty) {
       throw new HttpsError("not-found", "No active subscription found.");
     }
 
     const subDoc = snapshot.docs[0];
-    
-    // Update auto-renew status
+    const subData = subDoc.data();
+    const now = new Date();
+
+    if (subData.endDate.toDate() <= now) {
+      throw new HttpsError("failed-precondition", "This subscription has already ended.");
+    }
+
+    // PayPal keeps billing on its own schedule, which a pause can't move
+    if (subData.renewalMethod === "paypal" && PAYPAL_BILLING_STATUSES.includes(subData.paypalSubscriptionStatus)) {
+      throw new HttpsError("failed-precondition", "Switch renewal to tokens before pausing a PayPal subscription.");
+    }
+
+    const pauseDaysAvailable = SUBSCRIPTION_MAX_PAUSE_DAYS - (subData.pausedDays || 0);
+    if (days > pauseDaysAvailable) {
+      throw new HttpsError(
+        "failed-precondition",
+        pauseDaysAvailable > 0
+          ? `You can pause for at most ${pauseDaysAvailable} more day${pauseDaysAvailable !== 1 ? "s" : ""} this period.`
+          : "You have used all of this period's pause days."
+      );
+    }
+
+    const pausedUntil = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
     await subDoc.ref.update({
-      autoRenew,
-      autoRenewUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: "paused",
+      pausedAt: admin.firestore.Timestamp.fromDate(now),
+      pausedUntil: admin.firestore.Timestamp.fromDate(pausedUntil),
+      pausedRemainingDays: Math.ceil((subData.endDate.toDate().getTime() - now.getTime()) / (1000 * 60 * 60 * 24)),
     });
 
-    return { 
-      success: true, 
-      autoRenew,
-      message: autoRenew ? "Auto-renewal enabled" : "Auto-renewal disabled. Subscription will expire at the end of the current period."
-    };
-  } catch (error: any) {
-    console.error("Error toggling auto-renew:", error);
+    // Access is off for the pause, so close Emby and stop new requests
+    const userDoc = await admin.firestore().doc(`users/${userId}`).get();
+    const userData = userDoc.data();
+    const embyUserId = userData?.services?.emby?.serviceUserId;
+    if (embyUserId) {
+      try {
+        await disableEmbyAccount(embyUserId);
+        await updateJellyseerrRequestLimits(userData?.email || "", subData.planId, embyUserId, { movieLimit: 0, tvLimit: 0 });
+      } catch (error) {
+        console.error(`Failed to disable services for paused subscription ${subDoc.id}:`, error);
+      }
+    }
+
+    return { success: true, pausedUntil: pausedUntil.toISOString() };
+  } catch (error: unknown) {
+    console.error("Error in pauseSubscription:", error);
     if (error instanceof HttpsError) throw error;
-    throw new HttpsError("internal", "Failed to update auto-renewal status.");
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to pause subscription: ${errorMessage}`);
+  }
+});
+
+exports.resumeSubscription = onCall<ResumeSubscriptionData, Promise<ResumeSubscriptionResponse>>(async (request) => {
+  const { userId } = request.data;
+  const auth = request.auth;
+
+  if (!auth || auth.uid !== userId) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  try {
+    const snapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("userId", "==", userId)
+      .where("status", "==", "paused")
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      throw new HttpsError("not-found", "No paused subscription found.");
+    }
+
+    const endDate = await resumePausedSubscription(snapshot.docs[0].ref);
+    if (!endDate) {
+      throw new HttpsError("failed-precondition", "This subscription is no longer paused.");
+    }
+
+    return { success: true, endDate: endDate.toISOString() };
+  } catch (error: unknown) {
+    console.error("Error in resumeSubscription:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to resume subscription: ${errorMessage}`);
   }
 });
 
@@ -1727,16 +4894,23 @@ exports.checkSubscriptionStatus = onCall<CheckSubscriptionStatusData, Promise<Ch
       }
       const userData = userDoc.data();
 
-      // Check for active subscriptions
+      // Check for active subscriptions; paused ones and cancelled ones in their grace period still count
       const activeSubQuery = admin
         .firestore()
         .collection("subscriptions")
         .where("userId", "==", userId)
-        .where("status", "==", "active")
+        .where("status", "in", ["active", "paused", "grace"])
         .orderBy("endDate", "desc")
         .limit(1);
 
-      const activeSubSnapshot = await activeSubQuery.get();
+      let activeSubSnapshot = await activeSubQuery.get();
+
+      // Resume a pause that ran past its end before processAutoRenewals got to it
+      const pausedSub = activeSubSnapshot.docs[0]?.data();
+      if (pausedSub?.status === "paused" && pausedSub.pausedUntil.toDate() <= new Date()) {
+        await resumePausedSubscription(activeSubSnapshot.docs[0].ref);
+        activeSubSnapshot = await activeSubQuery.get();
+      }
 
       if (activeSubSnapshot.empty) {
         // No active subscription - disable services
@@ -1763,8 +4937,10 @@ exports.checkSubscriptionStatus = onCall<CheckSubscriptionStatusData, Promise<Ch
       const subData = activeSubSnapshot.docs[0].data();
       const endDate = subData.endDate.toDate();
       const now = new Date();
+      const isPaused = subData.status === "paused";
+      const inGrace = !isPaused && isInCancellationGrace(subData, now);
 
-      if (endDate <= now) {
+      if (!isPaused && !inGrace && isSubscriptionLapsed(subData, now)) {
         // Subscription has expired
         await activeSubSnapshot.docs[0].ref.update({ status: "expired" });
 
@@ -1789,7 +4965,14 @@ exports.checkSubscriptionStatus = onCall<CheckSubscriptionStatusData, Promise<Ch
         return { hasActiveSubscription: false };
       }
 
-      const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      if (inGrace && subData.status !== "grace") {
+        await activeSubSnapshot.docs[0].ref.update({ status: "grace" });
+      }
+
+      // Paused subscriptions keep the days they had left when the pause started
+      const daysRemaining = isPaused
+        ? subData.pausedRemainingDays || 0
+        : Math.max(0, Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
       
       // Get request usage
       const movieRequestsUsed = subData.movieRequestsUsed || 0;
@@ -1802,14 +4985,26 @@ exports.checkSubscriptionStatus = onCall<CheckSubscriptionStatusData, Promise<Ch
           subscriptionId: subData.subscriptionId,
           planId: subData.planId,
           billingPeriod: subData.billingPeriod,
+          duration: subData.duration || 1,
           startDate: subData.startDate.toDate().toISOString(),
           endDate: endDate.toISOString(),
-          status: subData.status,
+          status: inGrace ? "grace" : subData.status,
           autoRenew: subData.autoRenew || false,
+          renewalMethod: subData.renewalMethod === "paypal" ? "paypal" : "tokens",
+          paypalSubscriptionStatus: subData.paypalSubscriptionStatus || null,
           daysRemaining,
           movieRequestsUsed,
           tvRequestsUsed,
           lastResetDate,
+          scheduledDowngrade: subData.scheduledDowngrade ? {
+            planId: subData.scheduledDowngrade.planId,
+            billingPeriod: subData.scheduledDowngrade.billingPeriod,
+            effectiveDate: endDate.toISOString(),
+          } : null,
+          pausedUntil: isPaused ? subData.pausedUntil.toDate().toISOString() : null,
+          pauseDaysAvailable: Math.max(0, SUBSCRIPTION_MAX_PAUSE_DAYS - (subData.pausedDays || 0)),
+          cancellationReason: subData.cancellationReason || null,
+          graceEndsAt: subData.cancelledAt ? getGraceEndDate(subData).toISOString() : null,
         },
       };
     } catch (error: unknown) {
@@ -2153,6 +5348,38 @@ exports.getJellyseerrQuotas = onCall<GetJellyseerrQuotasData, Promise<GetJellyse
       const tvQuotaLimit = userInfo.tvQuotaLimit || 0;
       const tvQuotaDays = userInfo.tvQuotaDays || 0;
 
+      // Get active subscription to calculate actual days until reset and booster balance
+      const activeSubQuery = admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "==", "active")
+        .orderBy("endDate", "desc")
+        .limit(1);
+
+      const activeSubSnapshot = await activeSubQuery.get();
+      let daysUntilReset = 0;
+      let movieBoost = 0;
+      let tvBoost = 0;
+      let movieLimit = movieQuotaLimit;
+      let tvLimit = tvQuotaLimit;
+
+      if (!activeSubSnapshot.empty) {
+        const subData = activeSubSnapshot.docs[0].data();
+        const subscriptionEndDate = subData.endDate.toDate();
+        const now = new Date();
+        daysUntilReset = Math.max(0, Math.ceil((subscriptionEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+
+        // Jellyseerr may not have picked up a booster yet (e.g. user hadn't logged in when it was bought),
+        // so never report less than plan + boosters for an active subscription
+        const boosters = getActiveBoosterRequests(subData, now);
+        movieBoost = boosters.movie;
+        tvBoost = boosters.tv;
+        const boostedLimits = await getBoostedRequestLimits(subData.planId, movieBoost, tvBoost);
+        movieLimit = Math.max(movieQuotaLimit, boostedLimits.movieLimit);
+        tvLimit = Math.max(tvQuotaLimit, boostedLimits.tvLimit);
+      }
+
       // Get request counts
       const requestsResponse = await fetch(`${JELLYSEERR_URL}/api/v1/user/${jellyseerrUser.id}/requests?take=100`, {
         method: 'GET',
@@ -2167,14 +5394,16 @@ exports.getJellyseerrQuotas = onCall<GetJellyseerrQuotasData, Promise<GetJellyse
         return {
           success: true,
           quotas: {
-            movieLimit: movieQuotaLimit,
+            movieLimit,
             movieUsed: 0,
-            movieRemaining: movieQuotaLimit,
+            movieRemaining: movieLimit,
             movieDaysToReset: movieQuotaDays,
-            tvLimit: tvQuotaLimit,
+            tvLimit,
             tvUsed: 0,
-            tvRemaining: tvQuotaLimit,
+            tvRemaining: tvLimit,
             tvDaysToReset: tvQuotaDays,
+            movieBoost,
+            tvBoost,
           },
         };
       }
@@ -2182,25 +5411,6 @@ exports.getJellyseerrQuotas = onCall<GetJellyseerrQuotasData, Promise<GetJellyse
       const requestsData = await requestsResponse.json();
       const requests = requestsData.results || [];
 
-      // Get active subscription to calculate actual days until reset
-      const activeSubQuery = admin
-        .firestore()
-        .collection("subscriptions")
-        .where("userId", "==", userId)
-        .where("status", "==", "active")
-        .orderBy("endDate", "desc")
-        .limit(1);
-
-      const activeSubSnapshot = await activeSubQuery.get();
-      let daysUntilReset = 0;
-
-      if (!activeSubSnapshot.empty) {
-        const subData = activeSubSnapshot.docs[0].data();
-        const subscriptionEndDate = subData.endDate.toDate();
-        const now = new Date();
-        daysUntilReset = Math.max(0, Math.ceil((subscriptionEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-      }
-      
       // Count requests within quota period
       const now = new Date();
       const movieCutoff = new Date(now.getTime() - (movieQuotaDays * 24 * 60 * 60 * 1000));
@@ -2222,14 +5432,16 @@ exports.getJellyseerrQuotas = onCall<GetJellyseerrQuotasData, Promise<GetJellyse
       return {
         success: true,
         quotas: {
-          movieLimit: movieQuotaLimit,
+          movieLimit,
           movieUsed,
-          movieRemaining: Math.max(0, movieQuotaLimit - movieUsed),
-          movieDaysToReset: movieQuotaLimit > 0 ? daysUntilReset : 0,
-          tvLimit: tvQuotaLimit,
+          movieRemaining: Math.max(0, movieLimit - movieUsed),
+          movieDaysToReset: movieLimit > 0 ? daysUntilReset : 0,
+          tvLimit,
           tvUsed,
-          tvRemaining: Math.max(0, tvQuotaLimit - tvUsed),
-          tvDaysToReset: tvQuotaLimit > 0 ? daysUntilReset : 0,
+          tvRemaining: Math.max(0, tvLimit - tvUsed),
+          tvDaysToReset: tvLimit > 0 ? daysUntilReset : 0,
+          movieBoost,
+          tvBoost,
         },
       };
 
@@ -2243,6 +5455,129 @@ exports.getJellyseerrQuotas = onCall<GetJellyseerrQuotasData, Promise<GetJellyse
   }
 );
 
+exports.purchaseBoosterPack = onCall<PurchaseBoosterPackData, Promise<PurchaseBoosterPackResponse>>(
+  async (request) => {
+    const { userId, boosterId } = request.data;
+    const auth = request.auth;
+
+    if (!auth || auth.uid !== userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    if (!userId || !boosterId) {
+      throw new HttpsError("invalid-argument", "Missing required fields: userId, boosterId.");
+    }
+
+    const booster = BOOSTER_PACKS[boosterId];
+    if (!booster) {
+      throw new HttpsError("invalid-argument", "Invalid booster pack.");
+    }
+
+    try {
+      const activeSubQuery = admin
+        .firestore()
+        .collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("status", "==", "active")
+        .orderBy("endDate", "desc")
+        .limit(1);
+      const activeSubSnapshot = await activeSubQuery.get();
+
+      if (activeSubSnapshot.empty) {
+        throw new HttpsError("failed-precondition", "An active subscription is required to purchase a booster pack.");
+      }
+
+      const subRef = activeSubSnapshot.docs[0].ref;
+
+      const result = await admin.firestore().runTransaction(async (transaction) => {
+        const userRef = admin.firestore().doc(`users/${userId}`);
+        const userDoc = await transaction.get(userRef);
+        const subDoc = await transaction.get(subRef);
+
+        if (!userDoc.exists) {
+          throw new HttpsError("not-found", "User not found.");
+        }
+
+        const subData = subDoc.data();
+        if (!subData || subData.status !== "active") {
+          throw new HttpsError("failed-precondition", "An active subscription is required to purchase a booster pack.");
+        }
+
+        const userData = userDoc.data();
+        const currentBalance = userData?.tokenBalance || 0;
+        if (currentBalance < booster.tokens) {
+          throw new HttpsError("failed-precondition", "Insufficient tokens.");
+        }
+
+        // Boosters last one quota window, not the whole subscription, so a yearly plan doesn't add a pack
+        // to every month. A new pack tops up the unexpired ones and starts the window over.
+        const activeBoosters = getActiveBoosterRequests(subData);
+        const boosterMovieRequests = activeBoosters.movie + booster.movie;
+        const boosterTvRequests = activeBoosters.tv + booster.tv;
+        transaction.update(subRef, {
+          boosterMovieRequests,
+          boosterTvRequests,
+          boosterExpiresAt: admin.firestore.Timestamp.fromDate(
+            new Date(Date.now() + REQUEST_QUOTA_MAX_DAYS * 24 * 60 * 60 * 1000)
+          ),
+        });
+
+        const redemptionRef = admin.firestore().collection("redemptions").doc();
+        postLedgerTransfer(transaction, {
+          from: userAccount(userId),
+          to: SYSTEM_ACCOUNTS.revenue,
+          amount: booster.tokens,
+          reason: "booster_pack",
+          referenceType: "redemptions",
+          referenceId: redemptionRef.id,
+          details: { productType: "boosterPack", productId: boosterId, subscriptionId: subDoc.id },
+        });
+        transaction.set(redemptionRef, {
+          userId,
+          productType: "boosterPack",
+          productId: boosterId,
+          tokenCost: booster.tokens,
+          subscriptionId: subDoc.id,
+          movieRequests: booster.movie,
+          tvRequests: booster.tv,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return {
+          planId: subData.planId as string,
+          endDate: subData.endDate.toDate() as Date,
+          boosterMovieRequests,
+          boosterTvRequests,
+          embyUserId: userData?.services?.emby?.serviceUserId || null,
+          email: userData?.email || "",
+        };
+      });
+
+      console.log(`User ${userId} purchased booster ${boosterId}: +${booster.movie} movie, +${booster.tv} TV requests`);
+
+      if (result.embyUserId) {
+        await updateJellyseerrRequestLimits(
+          result.email,
+          result.planId,
+          result.embyUserId,
+          await getBoostedRequestLimits(result.planId, result.boosterMovieRequests, result.boosterTvRequests),
+          result.endDate
+        );
+      }
+
+      return {
+        success: true,
+        boosterMovieRequests: result.boosterMovieRequests,
+        boosterTvRequests: result.boosterTvRequests,
+      };
+    } catch (error: unknown) {
+      console.error("Error in purchaseBoosterPack:", error);
+      if (error instanceof HttpsError) throw error;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new HttpsError("internal", `Failed to purchase booster pack: ${errorMessage}`);
+    }
+  }
+);
 
 // Scheduled function to process auto-renewals daily at midnight
 exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
@@ -2252,7 +5587,55 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
     const now = new Date();
     const tomorrow = new Date(now);
     tomorrow.setDate(tomorrow.getDate() + 1);
+
+    // Resume pauses that have run their length first, so their shifted end dates are renewed on time
+    const overduePausesSnapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("status", "==", "paused")
+      .where("pausedUntil", "<=", admin.firestore.Timestamp.fromDate(now))
+      .get();
+
+    console.log(`Found ${overduePausesSnapshot.size} paused subscriptions to resume`);
+
+    for (const doc of overduePausesSnapshot.docs) {
+      try {
+        await resumePausedSubscription(doc.ref);
+      } catch (error) {
+        console.error(`Error resuming paused subscription ${doc.id}:`, error);
+      }
+    }
     
+    // Take booster packs that have run their quota window back out of Jellyseerr
+    const lapsedBoostersSnapshot = await admin
+      .firestore()
+      .collection("subscriptions")
+      .where("status", "==", "active")
+      .where("boosterExpiresAt", "<=", admin.firestore.Timestamp.fromDate(now))
+      .get();
+
+    console.log(`Found ${lapsedBoostersSnapshot.size} subscriptions with expired booster packs`);
+
+    for (const doc of lapsedBoostersSnapshot.docs) {
+      const subData = doc.data();
+      try {
+        await doc.ref.update({
+          boosterMovieRequests: 0,
+          boosterTvRequests: 0,
+          boosterExpiresAt: admin.firestore.FieldValue.delete(),
+        });
+
+        const userDoc = await admin.firestore().doc(`users/${subData.userId}`).get();
+        const userData = userDoc.data();
+        const embyUserId = userData?.services?.emby?.serviceUserId;
+        if (embyUserId) {
+          await updateJellyseerrRequestLimits(userData.email || "", subData.planId, embyUserId, undefined, subData.endDate.toDate());
+        }
+      } catch (error) {
+        console.error(`Error expiring booster packs on subscription ${doc.id}:`, error);
+      }
+    }
+
     // Find subscriptions expiring tomorrow with autoRenew = true
     const expiringSubsQuery = admin
       .firestore()
@@ -2268,6 +5651,9 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
     
     for (const doc of expiringSnapshot.docs) {
       const subData = doc.data();
+
+      // PayPal renews these through the PAYMENT.SALE.COMPLETED webhook
+      if (subData.renewalMethod === "paypal") continue;
       
       try {
         // Check user's token balance
@@ -2276,27 +5662,33 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
         
         const userData = userDoc.data();
         const tokenBalance = userData?.tokenBalance || 0;
-        const plan = SUBSCRIPTION_PLANS[subData.planId];
-        const renewalCost = plan.monthly;
+        // A scheduled downgrade replaces the renewal; otherwise renew for one period of the same plan
+        const downgrade = subData.scheduledDowngrade as ScheduledDowngrade | undefined;
+        const renewalPlanId: string = downgrade?.planId || subData.planId;
+        const plan = await getSubscriptionPlan(renewalPlanId);
+        if (!plan) {
+          console.error(`Subscription ${doc.id} renews onto unknown plan ${renewalPlanId}, skipping renewal`);
+          continue;
+        }
+        const billingPeriod: BillingPeriod = downgrade?.billingPeriod ||
+          (subData.billingPeriod === "yearly" ? "yearly" : "monthly");
+        const renewalCost = getPlanPrice(plan, billingPeriod);
         
         if (tokenBalance >= renewalCost) {
 
-          const newEndDate = new Date(subData.endDate.toDate());
-          newEndDate.setMonth(newEndDate.getMonth() + 1);
+          const newEndDate = addBillingPeriods(subData.endDate.toDate(), billingPeriod, 1);
+          // Booster packs keep their own expiry, so ones bought late in the period carry over
+          const boosters = getActiveBoosterRequests(subData, now);
+          const hasBoosters = boosters.movie > 0 || boosters.tv > 0;
 
           // Process renewal
           await admin.firestore().runTransaction(async (transaction) => {
-            // Deduct tokens
-            transaction.update(userDoc.ref, {
-              tokenBalance: admin.firestore.FieldValue.increment(-renewalCost),
-            });
-            
             const newSubRef = admin.firestore().collection("subscriptions").doc();
             transaction.set(newSubRef, {
               subscriptionId: newSubRef.id,
               userId: subData.userId,
-              planId: subData.planId,
-              billingPeriod: "monthly",
+              planId: renewalPlanId,
+              billingPeriod,
               duration: 1,
               tokenCost: renewalCost,
               startDate: subData.endDate,
@@ -2304,6 +5696,12 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
               status: "active",
               autoRenew: true,
               renewedFrom: doc.id,
+              ...(downgrade ? { downgradedFrom: subData.planId } : {}),
+              ...(hasBoosters ? {
+                boosterMovieRequests: boosters.movie,
+                boosterTvRequests: boosters.tv,
+                boosterExpiresAt: subData.boosterExpiresAt || null,
+              } : {}),
               createdAt: admin.firestore.FieldValue.serverTimestamp(),
             });
             
@@ -2314,12 +5712,21 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
               renewedTo: newSubRef.id,
             });
             
-            // Log redemption
+            // Log redemption and deduct tokens
             const redemptionRef = admin.firestore().collection("redemptions").doc();
+            postLedgerTransfer(transaction, {
+              from: userAccount(subData.userId),
+              to: SYSTEM_ACCOUNTS.revenue,
+              amount: renewalCost,
+              reason: "subscription_renewal",
+              referenceType: "redemptions",
+              referenceId: redemptionRef.id,
+              details: { productType: "subscriptionRenewal", productId: renewalPlanId, subscriptionId: newSubRef.id },
+            });
             transaction.set(redemptionRef, {
               userId: subData.userId,
               productType: "subscriptionRenewal",
-              productId: subData.planId,
+              productId: renewalPlanId,
               tokenCost: renewalCost,
               subscriptionId: newSubRef.id,
               autoRenewal: true,
@@ -2327,17 +5734,22 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
             });
           });
           
-          console.log(`Auto-renewed subscription for user ${subData.userId}`);
+          console.log(downgrade
+            ? `Auto-renewed subscription for user ${subData.userId} as a downgrade from ${subData.planId} to ${renewalPlanId}`
+            : `Auto-renewed subscription for user ${subData.userId}`);
 
-          // Update Jellyseerr with new end date. Pass in undefined for limits because
-          // this is a renewal to the same plan, so they remain unchanged.
+          // Update Jellyseerr with new end date. Limits come from the plan renewed onto plus
+          // any carried-over boosters; a downgrade also lowers the Emby stream limit.
           const embyUserId = userData?.services?.emby?.serviceUserId;
           if (embyUserId) {
+            if (downgrade) {
+              await updateEmbySubscriptionPermissions(embyUserId, renewalPlanId);
+            }
             await updateJellyseerrRequestLimits(
               userData.email || "",
-              subData.planId,
+              renewalPlanId,
               embyUserId,
-              undefined,
+              hasBoosters ? await getBoostedRequestLimits(renewalPlanId, boosters.movie, boosters.tv) : undefined,
               newEndDate
             );
           }
@@ -2360,7 +5772,7 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
     const expiredSubsQuery = admin
       .firestore()
       .collection("subscriptions")
-      .where("status", "==", "active")
+      .where("status", "in", ["active", "grace"])
       .where("endDate", "<", admin.firestore.Timestamp.fromDate(now));
     
     const expiredSnapshot = await expiredSubsQuery.get();
@@ -2369,8 +5781,17 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
     
     for (const doc of expiredSnapshot.docs) {
       const subData = doc.data();
+      if (!isSubscriptionLapsed(subData, now)) continue;
       
       try {
+        // Cancelled members keep access through the grace period so they can still reactivate
+        if (isInCancellationGrace(subData, now)) {
+          if (subData.status !== "grace") {
+            await doc.ref.update({ status: "grace" });
+          }
+          continue;
+        }
+
         await doc.ref.update({
           status: "expired",
           expiredAt: admin.firestore.FieldValue.serverTimestamp(),
@@ -2413,6 +5834,936 @@ exports.processAutoRenewals = onSchedule("every day 00:00", async (event) => {
   }
 });
 
+// Scheduled function to expire unredeemed vouchers, returning balance-bought ones to the buyer
+exports.expireVouchers = onSchedule("every day 01:00", async () => {
+  console.log("Starting voucher expiry...");
+
+  const expiredSnapshot = await admin
+    .firestore()
+    .collection("vouchers")
+    .where("status", "==", "active")
+    .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  let expired = 0;
+  let refundedTokens = 0;
+
+  for (const voucherDoc of expiredSnapshot.docs) {
+    try {
+      const refunded = await admin.firestore().runTransaction(async (transaction) => {
+        const currentDoc = await transaction.get(voucherDoc.ref);
+        const voucher = currentDoc.data() as VoucherRecord | undefined;
+        if (!voucher || voucher.status !== "active") return 0;
+
+        // PayPal vouchers lapse into revenue and admin ones back into promotions;
+        // balance-bought ones go back to the buyer
+        let refundToBuyer = false;
+        if (voucher.source === "balance" && voucher.purchaserId) {
+          const buyerDoc = await transaction.get(admin.firestore().doc(`users/${voucher.purchaserId}`));
+          refundToBuyer = buyerDoc.exists;
+        }
+
+        postLedgerTransfer(transaction, {
+          from: SYSTEM_ACCOUNTS.vouchers,
+          to: refundToBuyer
+            ? getVoucherFundingAccount(voucher)
+            : voucher.source === "admin" ? SYSTEM_ACCOUNTS.promotions : SYSTEM_ACCOUNTS.revenue,
+          amount: voucher.tokens,
+          reason: "voucher_expiry",
+          referenceType: "vouchers",
+          referenceId: voucherDoc.id,
+          details: { code: voucherDoc.id },
+        });
+        transaction.update(voucherDoc.ref, {
+          status: "expired",
+          refundedToBuyer: refundToBuyer,
+          expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return refundToBuyer ? voucher.tokens : 0;
+      });
+
+      expired++;
+      refundedTokens += refunded;
+    } catch (error: unknown) {
+      console.error(`Error expiring voucher ${voucherDoc.id}:`, error);
+    }
+  }
+
+  console.log(`Voucher expiry completed: ${expired} expired, ${refundedTokens} tokens returned to buyers`);
+});
+
+// Scheduled function to return the escrow of trades the receiver never answered
+exports.expirePendingTrades = onSchedule("every 1 hours", async () => {
+  console.log("Starting pending trade expiry...");
+
+  const expiredSnapshot = await admin
+    .firestore()
+    .collection("trades")
+    .where("status", "==", "pending")
+    .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  let expired = 0;
+  let returnedTokens = 0;
+
+  for (const tradeDoc of expiredSnapshot.docs) {
+    try {
+      const returned = await admin.firestore().runTransaction(async (transaction) => {
+        const currentDoc = await transaction.get(tradeDoc.ref);
+        // Accepted, declined or cancelled since the query ran
+        if (currentDoc.data()?.status !== "pending") return 0;
+
+        closePendingTrade(transaction, currentDoc, "expired");
+        return currentDoc.data()?.tokens || 0;
+      });
+
+      if (returned > 0) {
+        expired++;
+        returnedTokens += returned;
+      }
+    } catch (error: unknown) {
+      console.error(`Error expiring trade ${tradeDoc.id}:`, error);
+    }
+  }
+
+  console.log(`Trade expiry completed: ${expired} expired, ${returnedTokens} tokens returned to senders`);
+});
+
+// Helper function to count everything shown on the dashboard's platform stats. Uses aggregation
+// queries where the field is numeric; tip amounts are strings, so tips are summed here instead.
+async function computePlatformStats(): Promise<PlatformStats> {
+  const db = admin.firestore();
+  const activeSubscriptions = db.collection("subscriptions").where("status", "==", "active");
+  const acceptedTrades = db.collection("trades").where("status", "==", "accepted");
+
+  const planIds = Object.keys(await getSubscriptionPlanCatalog());
+  const [usersCount, purchasesSum, tradesSum, tipsSnapshot, ...planCounts] = await Promise.all([
+    db.collection("users").count().get(),
+    db.collection("tokenPurchases")
+      .where("status", "==", "completed")
+      .aggregate({ tokens: admin.firestore.AggregateField.sum("tokens") })
+      .get(),
+    acceptedTrades
+      .aggregate({ tokens: admin.firestore.AggregateField.sum("tokens"), count: admin.firestore.AggregateField.count() })
+      .get(),
+    db.collection("tips").select("amount", "refundedAmount", "status").get(),
+    ...planIds.map((planId) => activeSubscriptions.where("planId", "==", planId).count().get()),
+  ]);
+
+  let tipCents = 0;
+  let tipCount = 0;
+  for (const tipDoc of tipsSnapshot.docs) {
+    const contributionCents = getTipContributionCents(tipDoc.data());
+    if (contributionCents > 0) {
+      tipCents += contributionCents;
+      tipCount++;
+    }
+  }
+
+  const activeSubscriptionsByPlan: { [planId: string]: number } = {};
+  planIds.forEach((planId, index) => {
+    activeSubscriptionsByPlan[planId] = planCounts[index].data().count;
+  });
+
+  return {
+    memberCount: usersCount.data().count,
+    totalTips: (tipCents / 100).toFixed(2),
+    tipCount,
+    totalTokensPurchased: purchasesSum.data().tokens || 0,
+    activeSubscriptions: Object.values(activeSubscriptionsByPlan).reduce((sum, count) => sum + count, 0),
+    activeSubscriptionsByPlan,
+    tradeVolume: tradesSum.data().tokens || 0,
+    tradeCount: tradesSum.data().count,
+  };
+}
+
+// Scheduled function to keep stats/platform current so clients never scan users or tips themselves
+exports.refreshPlatformStats = onSchedule(`every ${PLATFORM_STATS_REFRESH_MINUTES} minutes`, async () => {
+  const stats = await computePlatformStats();
+  await admin.firestore().doc("stats/platform").set({
+    ...stats,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  console.log("Platform stats refreshed:", stats);
+});
+
+// Helper function to get the key and start of the period containing `now`, e.g. 2026-10 or 2026-W42 (UTC)
+function getLeaderboardPeriod(period: LeaderboardPeriod, now: Date): { key: string; start: Date | null } {
+  if (period === "allTime") return { key: "all-time", start: null };
+
+  if (period === "monthly") {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return { key: start.toISOString().slice(0, 7), start };
+  }
+
+  // ISO weeks start on Monday and belong to the year their Thursday falls in
+  const dayMs = 24 * 60 * 60 * 1000;
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+  const thursday = new Date(start.getTime() + 3 * dayMs);
+  const week = Math.floor((thursday.getTime() - Date.UTC(thursday.getUTCFullYear(), 0, 1)) / (7 * dayMs)) + 1;
+  return { key: `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`, start };
+}
+
+// Helper function to total activity per user between two points in time, highest first. Ties go to
+// the user ID so ranks stay stable between refreshes.
+function tallyLeaderboardScores(activity: LeaderboardActivity[], since: Date | null, until: Date | null = null): LeaderboardScore[] {
+  const totals = new Map<string, LeaderboardScore>();
+  for (const item of activity) {
+    if (since && (!item.occurredAt || item.occurredAt < since)) continue;
+    if (until && item.occurredAt && item.occurredAt >= until) continue;
+    const total = totals.get(item.userId) || { userId: item.userId, username: item.username, value: 0 };
+    total.value += item.value;
+    totals.set(item.userId, total);
+  }
+
+  // Tip dollars are summed from cents, so round away floating point dust
+  return Array.from(totals.values())
+    .map((score) => ({ ...score, value: Math.round(score.value * 100) / 100 }))
+    .filter((score) => score.value > 0)
+    .sort((a, b) => b.value - a.value || a.userId.localeCompare(b.userId));
+}
+
+// Helper function to work out how much of a tip ranks its tipper, in cents. Anonymous tips count
+// toward platform totals but never rank their tipper.
+function getTipLeaderboardCents(tip: admin.firestore.DocumentData | undefined): number {
+  if (!tip || tip.anonymous === true || !tip.userId) return 0;
+  return getTipContributionCents(tip);
+}
+
+// Helper function to get where the earliest board being written starts, so activity is only read from there on
+function getLeaderboardActivityStart(now: Date, seasons: LeaderboardSeason[]): Date {
+  const starts = [
+    getLeaderboardPeriod("monthly", now).start!,
+    getLeaderboardPeriod("weekly", now).start!,
+    ...seasons.map((season) => season.startDate.toDate()),
+  ];
+  return new Date(Math.min(...starts.map((start) => start.getTime())));
+}
+
+// Helper function to load what the leaderboards rank, one activity item per user per record. Tips and
+// trades are read from `since` on; all-time boards come from leaderboardTotals instead.
+async function loadLeaderboardActivity(since: Date | null): Promise<{ [type in LeaderboardType]: LeaderboardActivity[] }> {
+  const sinceTimestamp = since ? admin.firestore.Timestamp.fromDate(since) : null;
+  const tipsQuery = sinceTimestamp
+    ? admin.firestore().collection("tips").where("createdAt", ">=", sinceTimestamp)
+    : admin.firestore().collection("tips");
+  // Trades from before two-step trading have no resolvedAt, and are older than any board with a start
+  const acceptedTradesQuery = admin.firestore().collection("trades").where("status", "==", "accepted");
+  const tradesQuery = sinceTimestamp ? acceptedTradesQuery.where("resolvedAt", ">=", sinceTimestamp) : acceptedTradesQuery;
+
+  const [tipsSnapshot, tradesSnapshot, holdersSnapshot] = await Promise.all([
+    tipsQuery.get(),
+    tradesQuery.get(),
+    admin.firestore().collection("users").where("tokenBalance", ">", 0).get(),
+  ]);
+
+  const tippers: LeaderboardActivity[] = [];
+  for (const tipDoc of tipsSnapshot.docs) {
+    const tip = tipDoc.data();
+    const contributionCents = getTipLeaderboardCents(tip);
+    if (contributionCents === 0) continue;
+    tippers.push({
+      userId: tip.userId,
+      username: tip.username || "Anonymous",
+      value: contributionCents / 100,
+      occurredAt: tip.createdAt?.toDate() || null,
+    });
+  }
+
+  const traders: LeaderboardActivity[] = [];
+  for (const tradeDoc of tradesSnapshot.docs) {
+    const trade = tradeDoc.data();
+    const occurredAt = (trade.resolvedAt || trade.createdAt)?.toDate() || null;
+    const tokens = trade.tokens || 0;
+    traders.push(
+      { userId: trade.senderId, username: trade.senderUsername || "Anonymous", value: tokens, occurredAt },
+      { userId: trade.receiverId, username: trade.receiverUsername || "Anonymous", value: tokens, occurredAt }
+    );
+  }
+
+  const holders: LeaderboardActivity[] = holdersSnapshot.docs.map((userDoc) => ({
+    userId: userDoc.id,
+    username: userDoc.data().username || "Anonymous",
+    value: userDoc.data().tokenBalance || 0,
+    occurredAt: null,
+  }));
+
+  return { tippers, trades: traders, tokens: holders };
+}
+
+// Helper function to load the per-user all-time totals, as activity for tallyLeaderboardScores
+async function loadLeaderboardTotals(): Promise<{ [type in LeaderboardActivityType]: LeaderboardActivity[] }> {
+  const snapshot = await admin.firestore().collection("leaderboardTotals").get();
+  const totals: { [type in LeaderboardActivityType]: LeaderboardActivity[] } = { tippers: [], trades: [] };
+  for (const totalDoc of snapshot.docs) {
+    const total = totalDoc.data() as LeaderboardTotal;
+    totals[total.type]?.push({ userId: total.userId, username: total.username, value: total.value, occurredAt: null });
+  }
+  return totals;
+}
+
+// Helper function to recount one user's all-time total for a leaderboard type from their tips or
+// accepted trades. Recounting rather than incrementing keeps the total right when a trigger is
+// delivered twice or a tip is refunded.
+async function recalculateLeaderboardTotal(type: LeaderboardActivityType, userId: string): Promise<void> {
+  const totalRef = admin.firestore().doc(`leaderboardTotals/${type}_${userId}`);
+  const activity: LeaderboardActivity[] = [];
+
+  if (type === "tippers") {
+    const tipsSnapshot = await admin.firestore().collection("tips").where("userId", "==", userId).get();
+    for (const tipDoc of tipsSnapshot.docs) {
+      const tip = tipDoc.data();
+      const contributionCents = getTipLeaderboardCents(tip);
+      if (contributionCents > 0) {
+        activity.push({ userId, username: tip.username || "Anonymous", value: contributionCents / 100, occurredAt: null });
+      }
+    }
+  } else {
+    const tradesRef = admin.firestore().collection("trades");
+    const [sentSnapshot, receivedSnapshot] = await Promise.all([
+      tradesRef.where("senderId", "==", userId).where("status", "==", "accepted").get(),
+      tradesRef.where("receiverId", "==", userId).where("status", "==", "accepted").get(),
+    ]);
+    for (const tradeDoc of sentSnapshot.docs) {
+      const trade = tradeDoc.data();
+      activity.push({ userId, username: trade.senderUsername || "Anonymous", value: trade.tokens || 0, occurredAt: null });
+    }
+    for (const tradeDoc of receivedSnapshot.docs) {
+      const trade = tradeDoc.data();
+      activity.push({ userId, username: trade.receiverUsername || "Anonymous", value: trade.tokens || 0, occurredAt: null });
+    }
+  }
+
+  const [score] = tallyLeaderboardScores(activity, null);
+  if (!score) {
+    await totalRef.delete();
+    return;
+  }
+  const total: LeaderboardTotal = { ...score, type, updatedAt: admin.firestore.FieldValue.serverTimestamp() };
+  await totalRef.set(total);
+}
+
+// Keeps the tippers' all-time totals in step with tips, so leaderboard refreshes don't rescan every tip
+exports.updateTipLeaderboardTotals = onDocumentWritten("tips/{tipId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (before?.userId === after?.userId && getTipLeaderboardCents(before) === getTipLeaderboardCents(after)) return;
+
+  const userIds = new Set<string>([before?.userId, after?.userId].filter((userId): userId is string => !!userId));
+  for (const userId of userIds) {
+    await recalculateLeaderboardTotal("tippers", userId);
+  }
+});
+
+// Keeps the traders' all-time totals in step with trades as they are accepted
+exports.updateTradeLeaderboardTotals = onDocumentWritten("trades/{tradeId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if ((before?.status === "accepted") === (after?.status === "accepted")) return;
+
+  const trade = (after || before)!;
+  for (const userId of [trade.senderId, trade.receiverId].filter((id): id is string => !!id)) {
+    await recalculateLeaderboardTotal("trades", userId);
+  }
+});
+
+// Fills leaderboardTotals from every tip and accepted trade, for activity recorded before it existed
+exports.rebuildLeaderboardTotals = onCall<void, Promise<{ success: boolean; count: number }>>(async (request) => {
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can rebuild leaderboard totals.");
+  }
+
+  try {
+    const [activity, existingSnapshot] = await Promise.all([
+      loadLeaderboardActivity(null),
+      admin.firestore().collection("leaderboardTotals").get(),
+    ]);
+
+    const wanted = new Map<string, LeaderboardTotal>();
+    for (const type of ["tippers", "trades"] as LeaderboardActivityType[]) {
+      for (const score of tallyLeaderboardScores(activity[type], null)) {
+        wanted.set(`${type}_${score.userId}`, { ...score, type, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      }
+    }
+
+    const writes: Array<(batch: admin.firestore.WriteBatch) => void> = existingSnapshot.docs
+      .filter((totalDoc) => !wanted.has(totalDoc.id))
+      .map((totalDoc) => (batch) => batch.delete(totalDoc.ref));
+    for (const [totalId, total] of wanted) {
+      writes.push((batch) => batch.set(admin.firestore().doc(`leaderboardTotals/${totalId}`), total));
+    }
+    await commitInBatches(writes);
+
+    return { success: true, count: wanted.size };
+  } catch (error: unknown) {
+    console.error("Error in rebuildLeaderboardTotals:", error);
+    if (error instanceof HttpsError) throw error;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new HttpsError("internal", `Failed to rebuild leaderboard totals: ${errorMessage}`);
+  }
+});
+
+// Helper function to apply writes in batches under Firestore's 500-write limit
+async function commitInBatches(writes: Array<(batch: admin.firestore.WriteBatch) => void>): Promise<void> {
+  for (let i = 0; i < writes.length; i += 500) {
+    const batch = admin.firestore().batch();
+    writes.slice(i, i + 500).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+// Helper function to make a collection hold exactly the given docs, only writing the ones that changed
+async function syncLeaderboardDocs(
+  collectionRef: admin.firestore.CollectionReference,
+  docs: Map<string, { username: string; value: number; rank: number }>
+): Promise<void> {
+  const existingSnapshot = await collectionRef.get();
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+  // Works on a copy, since callers still count the docs they passed in
+  const changed = new Map(docs);
+
+  for (const existingDoc of existingSnapshot.docs) {
+    const wanted = docs.get(existingDoc.id);
+    const existing = existingDoc.data();
+    if (!wanted) {
+      writes.push((batch) => batch.delete(existingDoc.ref));
+    } else if (existing.rank === wanted.rank && existing.value === wanted.value && existing.username === wanted.username) {
+      changed.delete(existingDoc.id);
+    }
+  }
+  for (const [userId, data] of changed) {
+    writes.push((batch) => batch.set(collectionRef.doc(userId), { userId, ...data }));
+  }
+
+  await commitInBatches(writes);
+}
+
+// Helper function to write one leaderboard: the public top entries, and a private rank for everyone on it
+async function writeLeaderboard(boardId: string, summary: admin.firestore.DocumentData, scores: LeaderboardScore[]): Promise<void> {
+  const boardRef = admin.firestore().doc(`leaderboards/${boardId}`);
+
+  const ranked = new Map(scores.map((score, index) => [
+    score.userId,
+    { username: score.username, value: score.value, rank: index + 1 },
+  ]));
+  const top = new Map(Array.from(ranked).slice(0, LEADERBOARD_TOP_N));
+
+  await syncLeaderboardDocs(boardRef.collection("entries"), top);
+  await syncLeaderboardDocs(boardRef.collection("ranks"), ranked);
+  await boardRef.set({
+    ...summary,
+    entryCount: top.size,
+    rankedCount: ranked.size,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Helper function to write a season's standings for every leaderboard type. Balances can't be looked up
+// as of a past date, so holders are ranked on balances at the time of writing.
+async function writeSeasonLeaderboards(
+  seasonId: string,
+  season: LeaderboardSeason,
+  activity: { [type in LeaderboardType]: LeaderboardActivity[] },
+  final: boolean
+): Promise<{ [type in LeaderboardType]: LeaderboardScore[] }> {
+  const standings = {} as { [type in LeaderboardType]: LeaderboardScore[] };
+
+  for (const type of Object.keys(LEADERBOARD_PERIODS) as LeaderboardType[]) {
+    const scores = type === "tokens"
+      ? tallyLeaderboardScores(activity[type], null)
+      : tallyLeaderboardScores(activity[type], season.startDate.toDate(), season.endDate.toDate());
+    await writeLeaderboard(`${type}_season_${seasonId}`, {
+      type,
+      period: "season",
+      seasonId,
+      seasonName: season.name,
+      periodStart: season.startDate,
+      periodEnd: season.endDate,
+      final,
+    }, scores);
+    standings[type] = scores;
+  }
+
+  return standings;
+}
+
+// Helper function to grant one user their season reward. The reward record's fixed ID makes this safe
+// to retry if closing the season fails partway.
+async function grantLeaderboardReward(
+  seasonId: string,
+  season: LeaderboardSeason,
+  type: LeaderboardType,
+  rank: number,
+  score: LeaderboardScore,
+  reward: LeaderboardSeasonReward
+): Promise<boolean> {
+  const rewardRef = admin.firestore().doc(`leaderboardRewards/${seasonId}_${type}_${score.userId}`);
+  const userRef = admin.firestore().doc(`users/${score.userId}`);
+  const tokens = Math.max(0, Math.floor(reward.tokens || 0));
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const [rewardDoc, userDoc] = await transaction.getAll(rewardRef, userRef);
+    if (rewardDoc.exists) return false;
+    if (!userDoc.exists) {
+      console.warn(`Skipping ${type} reward for season ${seasonId}: user ${score.userId} not found`);
+      return false;
+    }
+
+    postLedgerTransfer(transaction, {
+      from: SYSTEM_ACCOUNTS.promotions,
+      to: userAccount(score.userId),
+      amount: tokens,
+      reason: "leaderboard_reward",
+      referenceType: "leaderboardRewards",
+      referenceId: rewardRef.id,
+      details: { seasonId, seasonName: season.name, leaderboardType: type, rank },
+    });
+    if (reward.badge) {
+      transaction.update(userRef, {
+        badges: admin.firestore.FieldValue.arrayUnion({ label: reward.badge, seasonId, leaderboardType: type, rank }),
+      });
+    }
+    transaction.create(rewardRef, {
+      seasonId,
+      seasonName: season.name,
+      leaderboardType: type,
+      userId: score.userId,
+      username: score.username,
+      rank,
+      value: score.value,
+      tokens,
+      badge: reward.badge || null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// Scheduled function to freeze the final standings of seasons that have ended and hand out their rewards
+exports.closeLeaderboardSeasons = onSchedule({ schedule: "every 1 hours", timeoutSeconds: 540 }, async () => {
+  const endedSnapshot = await admin.firestore()
+    .collection("leaderboardSeasons")
+    .where("endDate", "<=", admin.firestore.Timestamp.now())
+    .get();
+  const endedSeasons = endedSnapshot.docs.filter((seasonDoc) => !seasonDoc.data().closedAt);
+  if (endedSeasons.length === 0) return;
+
+  const since = new Date(Math.min(...endedSeasons.map((seasonDoc) => (seasonDoc.data() as LeaderboardSeason).startDate.toMillis())));
+  const activity = await loadLeaderboardActivity(since);
+
+  for (const seasonDoc of endedSeasons) {
+    const season = seasonDoc.data() as LeaderboardSeason;
+    try {
+      const standings = await writeSeasonLeaderboards(seasonDoc.id, season, activity, true);
+
+      let granted = 0;
+      for (const type of Object.keys(standings) as LeaderboardType[]) {
+        for (const [index, score] of standings[type].entries()) {
+          const rank = index + 1;
+          const reward = (season.rewards || []).find((tier) => tier.type === type && rank >= tier.fromRank && rank <= tier.toRank);
+          if (reward && await grantLeaderboardReward(seasonDoc.id, season, type, rank, score, reward)) {
+            granted++;
+          }
+        }
+      }
+
+      await seasonDoc.ref.update({
+        closedAt: admin.firestore.FieldValue.serverTimestamp(),
+        rewardsGranted: granted,
+      });
+      console.log(`Closed leaderboard season ${seasonDoc.id}: ${granted} rewards granted`);
+    } catch (error: unknown) {
+      console.error(`Error closing leaderboard season ${seasonDoc.id}:`, error);
+    }
+  }
+});
+
+// Scheduled function to rebuild every leaderboard so clients page through stored rankings instead of raw tips
+// and trades. Only activity inside the current periods and seasons is read; all-time boards use leaderboardTotals.
+exports.refreshLeaderboards = onSchedule(
+  { schedule: `every ${LEADERBOARD_REFRESH_MINUTES} minutes`, timeoutSeconds: 540 },
+  async () => {
+    const now = new Date();
+
+    // Seasons in progress get live standings on the same boards their final standings are archived to
+    const seasonsSnapshot = await admin.firestore()
+      .collection("leaderboardSeasons")
+      .where("startDate", "<=", admin.firestore.Timestamp.fromDate(now))
+      .get();
+    const activeSeasons = seasonsSnapshot.docs.filter((seasonDoc) => {
+      const season = seasonDoc.data() as LeaderboardSeason;
+      return !season.closedAt && season.endDate.toDate() > now;
+    });
+
+    const [activity, totals] = await Promise.all([
+      loadLeaderboardActivity(getLeaderboardActivityStart(now, activeSeasons.map((seasonDoc) => seasonDoc.data() as LeaderboardSeason))),
+      loadLeaderboardTotals(),
+    ]);
+
+    for (const type of Object.keys(LEADERBOARD_PERIODS) as LeaderboardType[]) {
+      for (const period of LEADERBOARD_PERIODS[type]) {
+        try {
+          const { key, start } = getLeaderboardPeriod(period, now);
+          const scores = period === "allTime" && type !== "tokens"
+            ? tallyLeaderboardScores(totals[type], null)
+            : tallyLeaderboardScores(activity[type], start);
+          await writeLeaderboard(`${type}_${period}`, {
+            type,
+            period,
+            periodKey: key,
+            periodStart: start ? admin.firestore.Timestamp.fromDate(start) : null,
+          }, scores);
+        } catch (error: unknown) {
+          console.error(`Error refreshing ${type} ${period} leaderboard:`, error);
+        }
+      }
+    }
+
+    for (const seasonDoc of activeSeasons) {
+      try {
+        await writeSeasonLeaderboards(seasonDoc.id, seasonDoc.data() as LeaderboardSeason, activity, false);
+      } catch (error: unknown) {
+        console.error(`Error refreshing leaderboards for season ${seasonDoc.id}:`, error);
+      }
+    }
+
+    console.log("Leaderboards refreshed");
+  }
+);
+
+// Scheduled function to recover PayPal orders that were captured but never credited
+exports.reconcilePaypalOrders = onSchedule("every 1 hours", async () => {
+  console.log("Starting PayPal order reconciliation...");
+
+  const now = Date.now();
+  const reconcileCutoff = new Date(now - PAYPAL_RECONCILE_AFTER_MINUTES * 60 * 1000);
+  const abandonCutoff = new Date(now - PAYPAL_ABANDON_AFTER_HOURS * 60 * 60 * 1000);
+
+  const staleOrdersSnapshot = await admin
+    .firestore()
+    .collection("paypalOrders")
+    .where("status", "in", ["created", "captured"])
+    .where("createdAt", "<", admin.firestore.Timestamp.fromDate(reconcileCutoff))
+    .get();
+
+  console.log(`Found ${staleOrdersSnapshot.size} stale PayPal orders to reconcile`);
+
+  let credited = 0;
+  let alreadyCredited = 0;
+  let abandoned = 0;
+  const unresolved: PaypalReconciliationIssue[] = [];
+
+  for (const orderDoc of staleOrdersSnapshot.docs) {
+    const order = orderDoc.data();
+    const flagForReview = async (reason: string) => {
+      await orderDoc.ref.update({
+        status: "needs_review",
+        reviewReason: reason,
+        flaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      unresolved.push({ orderId: orderDoc.id, userId: order.userId, type: order.type, amount: order.amount, reason });
+    };
+    const markAbandoned = async () => {
+      await orderDoc.ref.update({
+        status: "abandoned",
+        abandonedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (order.promoCode) {
+        await releasePromoCodeReservation(orderDoc.id, order.promoCode);
+      }
+      abandoned++;
+    };
+
+    try {
+      const paypalOrder = await paypalClient.getOrder(orderDoc.id);
+
+      if (paypalOrder.status !== "COMPLETED") {
+        if (order.createdAt && order.createdAt.toDate() < abandonCutoff) {
+          await markAbandoned();
+        }
+        continue;
+      }
+
+      const capture = paypalOrder.purchase_units?.[0]?.payments?.captures?.[0];
+      if (!capture) {
+        await flagForReview("missing_capture");
+        continue;
+      }
+      if (capture.status === "PENDING") {
+        // e.g. eCheck payments; the money hasn't landed yet
+        continue;
+      }
+      if (capture.status !== "COMPLETED") {
+        await flagForReview(`capture_${capture.status.toLowerCase()}`);
+        continue;
+      }
+
+      const result = await creditCapturedPaypalOrder(orderDoc.id, capture, "reconciliation");
+      if (result === "credited") {
+        credited++;
+      } else if (result === "already_credited") {
+        alreadyCredited++;
+      } else {
+        // creditCapturedPaypalOrder already flagged the order
+        unresolved.push({ orderId: orderDoc.id, userId: order.userId, type: order.type, amount: order.amount, reason: result });
+      }
+    } catch (error: unknown) {
+      // PayPal drops orders that were never approved, so nothing was charged
+      if (error instanceof HttpsError && error.code === "not-found") {
+        await markAbandoned();
+        continue;
+      }
+
+      console.error(`Error reconciling PayPal order ${orderDoc.id}:`, error);
+      const attempts = (order.reconcileAttempts || 0) + 1;
+      if (attempts >= PAYPAL_RECONCILE_MAX_ATTEMPTS) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await flagForReview(`lookup_failed: ${errorMessage}`);
+      } else {
+        await orderDoc.ref.update({ reconcileAttempts: attempts });
+      }
+    }
+  }
+
+  if (staleOrdersSnapshot.size > 0) {
+    await admin.firestore().collection("paypalReconciliationReports").add({
+      checked: staleOrdersSnapshot.size,
+      credited,
+      alreadyCredited,
+      abandoned,
+      unresolved,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  console.log(`PayPal reconciliation completed: ${credited} credited, ${alreadyCredited} already credited, ${abandoned} abandoned, ${unresolved.length} need review`);
+});
+
+// Rebuilds what a user's token balance should be from the records each balance change leaves behind,
+// independently of the ledger, so the two can be checked against each other and the stored balance
+async function rebuildTokenBalance(userId: string): Promise<RebuiltTokenBalance> {
+  const db = admin.firestore();
+  const [
+    purchases,
+    tradesSent,
+    tradesReceived,
+    redemptions,
+    vouchersBought,
+    vouchersRedeemed,
+    leaderboardRewards,
+    openingBalances,
+  ] = await Promise.all([
+    db.collection("tokenPurchases").where("userId", "==", userId).get(),
+    db.collection("trades").where("senderId", "==", userId).get(),
+    db.collection("trades").where("receiverId", "==", userId).get(),
+    db.collection("redemptions").where("userId", "==", userId).get(),
+    db.collection("vouchers").where("purchaserId", "==", userId).get(),
+    db.collection("vouchers").where("redeemedBy", "==", userId).get(),
+    db.collection("leaderboardRewards").where("userId", "==", userId).get(),
+    db.collection("ledger").where("userId", "==", userId).where("reason", "==", "opening_balance").get(),
+  ]);
+
+  const items: Array<Omit<TokenHistoryItem, "balanceAfter">> = [];
+
+  // Balances from before the ledger left no records to rebuild from, only the opening entry backfilled for them
+  openingBalances.forEach((doc) => {
+    const entry = doc.data() as LedgerEntry;
+    items.push({
+      source: "ledger",
+      id: doc.id,
+      description: "Opening balance",
+      delta: entry.delta,
+      // Sorts ahead of everything, since it stands for history before the entry was written
+      createdAt: null,
+    });
+  });
+
+  purchases.forEach((doc) => {
+    const purchase = doc.data();
+    // Gift purchases go into a voucher, not the buyer's balance
+    if (!purchase.voucherCode) {
+      items.push({
+        source: "tokenPurchases",
+        id: doc.id,
+        description: `Purchased ${purchase.tokens || 0} tokens`,
+        delta: purchase.tokens || 0,
+        createdAt: purchase.createdAt || null,
+      });
+    }
+    // Clawed back and owed tokens both came off the balance; neither is set when a voucher was voided instead
+    const clawedBack = (purchase.clawedBackTokens || 0) + (purchase.owedTokens || 0);
+    if (clawedBack > 0) {
+      items.push({
+        source: "tokenPurchases",
+        id: doc.id,
+        description: `Clawed back ${clawedBack} tokens for ${purchase.status || "refunded"} purchase`,
+        delta: -clawedBack,
+        createdAt: purchase.refundedAt || purchase.createdAt || null,
+      });
+    }
+  });
+
+  // Trades leave the sender's balance when offered; ones that never completed come back to them
+  tradesSent.forEach((doc) => {
+    const trade = doc.data();
+    items.push({
+      source: "trades",
+      id: doc.id,
+      description: `Sent to ${trade.receiverUsername || trade.receiverId}`,
+      delta: -(trade.tokens || 0),
+      createdAt: trade.createdAt || null,
+    });
+    if (["declined", "cancelled", "expired"].includes(trade.status)) {
+      items.push({
+        source: "trades",
+        id: doc.id,
+        description: `Trade to ${trade.receiverUsername || trade.receiverId} ${trade.status}, tokens returned`,
+        delta: trade.tokens || 0,
+        createdAt: trade.resolvedAt || null,
+      });
+    }
+  });
+
+  // Trades from before escrow have no status and completed immediately
+  tradesReceived.forEach((doc) => {
+    const trade = doc.data();
+    if (trade.status && trade.status !== "accepted") return;
+    items.push({
+      source: "trades",
+      id: doc.id,
+      description: `Received from ${trade.senderUsername || trade.senderId}`,
+      delta: trade.tokens || 0,
+      createdAt: trade.resolvedAt || trade.createdAt || null,
+    });
+  });
+
+  redemptions.forEach((doc) => {
+    const redemption = doc.data();
+    items.push({
+      source: "redemptions",
+      id: doc.id,
+      description: `${redemption.productType} ${redemption.productId}`,
+      delta: -(redemption.tokenCost || 0),
+      createdAt: redemption.createdAt || null,
+    });
+  });
+
+  vouchersBought.forEach((doc) => {
+    const voucher = doc.data();
+    if (voucher.source !== "balance") return;
+    items.push({
+      source: "vouchers",
+      id: doc.id,
+      description: `Bought gift voucher ${doc.id}`,
+      delta: -(voucher.tokens || 0),
+      createdAt: voucher.createdAt || null,
+    });
+    if (voucher.status === "expired" && voucher.refundedToBuyer) {
+      items.push({
+        source: "vouchers",
+        id: doc.id,
+        description: `Gift voucher ${doc.id} expired and returned`,
+        delta: voucher.tokens || 0,
+        createdAt: voucher.expiredAt || null,
+      });
+    }
+  });
+
+  vouchersRedeemed.forEach((doc) => {
+    const voucher = doc.data();
+    items.push({
+      source: "vouchers",
+      id: doc.id,
+      description: `Redeemed gift voucher ${doc.id}`,
+      delta: voucher.tokens || 0,
+      createdAt: voucher.redeemedAt || null,
+    });
+  });
+
+  leaderboardRewards.forEach((doc) => {
+    const reward = doc.data();
+    if (!reward.tokens) return;
+    items.push({
+      source: "leaderboardRewards",
+      id: doc.id,
+      description: `${reward.seasonName} ${reward.leaderboardType} reward for rank #${reward.rank}`,
+      delta: reward.tokens,
+      createdAt: reward.createdAt || null,
+    });
+  });
+
+  items.sort((a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0));
+
+  let expectedBalance = 0;
+  const history = items.map((item) => {
+    expectedBalance += item.delta;
+    return { ...item, balanceAfter: expectedBalance };
+  });
+
+  return { expectedBalance, history };
+}
+
+// Scheduled function that checks every user's stored token balance against their rebuilt history and
+// their ledger entries, and files a drift report for admins when either disagrees
+exports.reconcileTokenBalances = onSchedule({ schedule: "every day 02:00", timeoutSeconds: 540 }, async () => {
+  console.log("Starting token balance reconciliation...");
+
+  const runId = new Date().toISOString().slice(0, 10);
+  const usersSnapshot = await admin.firestore().collection("users").select("username", "tokenBalance").get();
+
+  let drifted = 0;
+  let failed = 0;
+
+  for (const userDoc of usersSnapshot.docs) {
+    const userId = userDoc.id;
+    try {
+      let rebuilt = await rebuildTokenBalance(userId);
+      let ledgerBalance = await getLedgerBalance(userId);
+      let storedBalance = userDoc.data().tokenBalance || 0;
+
+      if (rebuilt.expectedBalance === storedBalance && ledgerBalance === storedBalance) continue;
+
+      // The reads above aren't a snapshot, so rule out a purchase or trade that landed mid-check
+      rebuilt = await rebuildTokenBalance(userId);
+      ledgerBalance = await getLedgerBalance(userId);
+      storedBalance = (await userDoc.ref.get()).data()?.tokenBalance || 0;
+
+      if (rebuilt.expectedBalance === storedBalance && ledgerBalance === storedBalance) continue;
+
+      drifted++;
+      await admin.firestore().doc(`balanceDriftReports/${runId}_${userId}`).set({
+        runId,
+        userId,
+        username: userDoc.data().username || null,
+        storedBalance,
+        expectedBalance: rebuilt.expectedBalance,
+        ledgerBalance,
+        difference: storedBalance - rebuilt.expectedBalance,
+        ledgerDifference: storedBalance - ledgerBalance,
+        history: rebuilt.history.slice(-BALANCE_REPORT_MAX_HISTORY),
+        historyTruncated: rebuilt.history.length > BALANCE_REPORT_MAX_HISTORY,
+        status: "open",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Balance drift for user ${userId}: stored ${storedBalance}, rebuilt ${rebuilt.expectedBalance}, ledger ${ledgerBalance}`);
+    } catch (error: unknown) {
+      failed++;
+      console.error(`Error reconciling token balance for user ${userId}:`, error);
+    }
+  }
+
+  await admin.firestore().doc(`balanceReconciliationRuns/${runId}`).set({
+    checked: usersSnapshot.size,
+    drifted,
+    failed,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  console.log(`Token balance reconciliation completed: ${usersSnapshot.size} checked, ${drifted} drifted, ${failed} failed`);
+});
+
 exports.initiate2FA = onCall<void, Promise<Initiate2FAResponse>>(
   async (request) => {
     const auth = request.auth;
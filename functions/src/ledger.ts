@@ -0,0 +1,186 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+
+// Accounts outside the platform that tokens flow in from or out to. Only user accounts carry a
+// stored balance (users/{uid}.tokenBalance); system account balances are the sum of their entries.
+export const SYSTEM_ACCOUNTS = {
+  paypal: "system:paypal",
+  revenue: "system:revenue",
+  vouchers: "system:vouchers",
+  promotions: "system:promotions",
+  escrow: "system:escrow",
+  opening: "system:opening",
+} as const;
+
+export type SystemAccount = typeof SYSTEM_ACCOUNTS[keyof typeof SYSTEM_ACCOUNTS];
+export type LedgerAccount = SystemAccount | `user:${string}`;
+
+export type LedgerReason =
+  | "token_purchase"
+  | "purchase_refund"
+  | "trade"
+  | "trade_escrow"
+  | "trade_release"
+  | "trade_return"
+  | "subscription"
+  | "subscription_renewal"
+  | "booster_pack"
+  | "voucher_purchase"
+  | "voucher_redemption"
+  | "voucher_expiry"
+  | "voucher_void"
+  | "leaderboard_reward"
+  | "opening_balance";
+
+export type LedgerSide = "debit" | "credit";
+
+export interface LedgerTransfer {
+  /** The account the tokens leave */
+  from: LedgerAccount;
+  /** The account the tokens arrive in */
+  to: LedgerAccount;
+  amount: number;
+  reason: LedgerReason;
+  /** The collection of the record that caused the transfer, e.g. "tokenPurchases" */
+  referenceType?: string | null;
+  referenceId?: string | null;
+  /** Display data for the transaction history, e.g. the trade counterparty's username */
+  details?: { [key: string]: unknown };
+}
+
+export interface LedgerEntry {
+  transactionId: string;
+  account: LedgerAccount;
+  userId: string | null;
+  side: LedgerSide;
+  amount: number;
+  /** Signed change to the account balance: positive for credits, negative for debits */
+  delta: number;
+  reason: LedgerReason;
+  referenceType: string | null;
+  referenceId: string | null;
+  counterparty: LedgerAccount;
+  details: { [key: string]: unknown };
+  createdAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+}
+
+export function userAccount(userId: string): LedgerAccount {
+  return `user:${userId}`;
+}
+
+export function getAccountUserId(account: LedgerAccount): string | null {
+  return account.startsWith("user:") ? account.slice("user:".length) : null;
+}
+
+function getEntryRef(transactionId: string, side: LedgerSide): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`ledger/${transactionId}_${side}`);
+}
+
+/**
+ * Write the balanced debit and credit entries for a transfer without touching any stored balance
+ */
+function writeLedgerEntries(
+  transaction: admin.firestore.Transaction,
+  transactionId: string,
+  transfer: LedgerTransfer
+): void {
+  const entry = {
+    transactionId,
+    amount: transfer.amount,
+    reason: transfer.reason,
+    referenceType: transfer.referenceType || null,
+    referenceId: transfer.referenceId || null,
+    details: transfer.details || {},
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const debit: LedgerEntry = {
+    ...entry,
+    account: transfer.from,
+    userId: getAccountUserId(transfer.from),
+    side: "debit",
+    delta: -transfer.amount,
+    counterparty: transfer.to,
+  };
+  const credit: LedgerEntry = {
+    ...entry,
+    account: transfer.to,
+    userId: getAccountUserId(transfer.to),
+    side: "credit",
+    delta: transfer.amount,
+    counterparty: transfer.from,
+  };
+
+  // create() rather than set() so the append-only ledger can never overwrite an entry
+  transaction.create(getEntryRef(transactionId, "debit"), debit);
+  transaction.create(getEntryRef(transactionId, "credit"), credit);
+}
+
+function validateTransfer(transfer: LedgerTransfer): void {
+  if (!Number.isInteger(transfer.amount) || transfer.amount < 0) {
+    throw new HttpsError("internal", `Invalid ledger amount ${transfer.amount} for ${transfer.reason}.`);
+  }
+  if (transfer.from === transfer.to) {
+    throw new HttpsError("internal", `Ledger transfer for ${transfer.reason} has the same account on both sides.`);
+  }
+}
+
+/**
+ * Move tokens between two accounts. This is the only place token balances may change: it writes a
+ * debit and a credit entry to the ledger and applies the matching tokenBalance increments to any
+ * user account involved. Only writes, so it can be called after the transaction's reads.
+ * @returns The ledger transaction ID, or null when the amount is zero and nothing was written
+ */
+export function postLedgerTransfer(transaction: admin.firestore.Transaction, transfer: LedgerTransfer): string | null {
+  validateTransfer(transfer);
+  if (transfer.amount === 0) return null;
+
+  const transactionId = admin.firestore().collection("ledger").doc().id;
+  writeLedgerEntries(transaction, transactionId, transfer);
+
+  for (const [account, delta] of [[transfer.from, -transfer.amount], [transfer.to, transfer.amount]] as const) {
+    const userId = getAccountUserId(account);
+    if (userId) {
+      transaction.update(admin.firestore().doc(`users/${userId}`), {
+        tokenBalance: admin.firestore.FieldValue.increment(delta),
+      });
+    }
+  }
+
+  return transactionId;
+}
+
+/**
+ * Record the part of a user's balance that predates the ledger, so their entries sum to tokenBalance.
+ * The balance itself is left alone. Uses a fixed transaction ID, so it fails the transaction if the
+ * user already has an opening balance.
+ * @param amount The signed amount to open with; negative for users who owe tokens from a refund
+ */
+export function recordOpeningBalance(transaction: admin.firestore.Transaction, userId: string, amount: number): void {
+  if (amount === 0) return;
+
+  const transfer: LedgerTransfer = amount > 0
+    ? { from: SYSTEM_ACCOUNTS.opening, to: userAccount(userId), amount, reason: "opening_balance" }
+    : { from: userAccount(userId), to: SYSTEM_ACCOUNTS.opening, amount: -amount, reason: "opening_balance" };
+  validateTransfer(transfer);
+  writeLedgerEntries(transaction, getOpeningBalanceTransactionId(userId), transfer);
+}
+
+function getOpeningBalanceTransactionId(userId: string): string {
+  return `opening-${userId}`;
+}
+
+export async function hasOpeningBalance(transaction: admin.firestore.Transaction, userId: string): Promise<boolean> {
+  const transactionId = getOpeningBalanceTransactionId(userId);
+  const docs = await transaction.getAll(getEntryRef(transactionId, "debit"), getEntryRef(transactionId, "credit"));
+  return docs.some((doc) => doc.exists);
+}
+
+/**
+ * Sum a user's ledger entries, which should always equal their stored tokenBalance
+ */
+export async function getLedgerBalance(userId: string, transaction?: admin.firestore.Transaction): Promise<number> {
+  const entriesQuery = admin.firestore().collection("ledger").where("userId", "==", userId);
+  const snapshot = transaction ? await transaction.get(entriesQuery) : await entriesQuery.get();
+  return snapshot.docs.reduce((sum, doc) => sum + ((doc.data() as LedgerEntry).delta || 0), 0);
+}
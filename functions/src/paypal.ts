@@ -0,0 +1,314 @@
+import { HttpsError, FunctionsErrorCode } from "firebase-functions/v2/https";
+
+export interface PaypalCredentials {
+  clientId: string;
+  secret: string;
+  baseUrl: string;
+}
+
+export interface PaypalAmount {
+  value: string;
+  currency_code: string;
+}
+
+export interface PaypalCapture {
+  id: string;
+  status: string;
+  amount?: PaypalAmount;
+}
+
+export interface PaypalPurchaseUnit {
+  amount: PaypalAmount;
+  description?: string;
+  custom_id?: string;
+  payments?: {
+    captures?: PaypalCapture[];
+  };
+}
+
+export interface PaypalOrder {
+  id: string;
+  status: string;
+  purchase_units?: PaypalPurchaseUnit[];
+}
+
+export interface PaypalRefund {
+  id: string;
+  status: string;
+  amount?: PaypalAmount;
+}
+
+export interface PaypalLink {
+  href: string;
+  rel: string;
+}
+
+export interface PaypalSubscription {
+  id: string;
+  status: string;
+  plan_id?: string;
+  custom_id?: string;
+  start_time?: string;
+  billing_info?: {
+    next_billing_time?: string;
+    last_payment?: { amount?: PaypalAmount; time?: string };
+  };
+  links?: PaypalLink[];
+}
+
+export interface CreatePaypalSubscriptionParams {
+  planId: string;
+  customId: string;
+  returnUrl: string;
+  cancelUrl: string;
+  /** When the first billing cycle starts; PayPal bills immediately if omitted */
+  startTime?: Date;
+}
+
+export interface PaypalWebhookSignature {
+  authAlgo: string;
+  certUrl: string;
+  transmissionId: string;
+  transmissionSig: string;
+  transmissionTime: string;
+  webhookId: string;
+}
+
+interface PaypalErrorPayload {
+  name?: string;
+  message?: string;
+  debug_id?: string;
+  details?: Array<{ issue?: string; description?: string }>;
+  error?: string;
+  error_description?: string;
+}
+
+// Issues that mean the request was fine but the order is already past that step
+const ALREADY_DONE_ISSUES = [
+  "ORDER_ALREADY_CAPTURED",
+  "DUPLICATE_INVOICE_ID",
+  "CAPTURE_FULLY_REFUNDED",
+  "SUBSCRIPTION_STATUS_INVALID",
+];
+
+// Refresh the cached token a minute early so in-flight requests don't race its expiry
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Map a failed PayPal response to the HttpsError code callers should see
+ * @param status The HTTP status PayPal returned
+ * @param payload The parsed PayPal error body, if any
+ */
+function toHttpsErrorCode(status: number, payload: PaypalErrorPayload): FunctionsErrorCode {
+  const issue = payload.details?.[0]?.issue;
+  if (issue && ALREADY_DONE_ISSUES.includes(issue)) return "already-exists";
+
+  switch (status) {
+    case 400:
+      return "invalid-argument";
+    case 401:
+      return "internal"; // Our credentials are bad, not the caller's
+    case 403:
+      return "permission-denied";
+    case 404:
+      return "not-found";
+    case 409:
+      return "already-exists";
+    case 422:
+      return "failed-precondition";
+    case 429:
+      return "resource-exhausted";
+    default:
+      return status >= 500 ? "unavailable" : "internal";
+  }
+}
+
+function describePaypalError(status: number, statusText: string, payload: PaypalErrorPayload): string {
+  const detail = payload.details?.[0];
+  const summary = detail?.issue
+    ? `${detail.issue}${detail.description ? ` - ${detail.description}` : ""}`
+    : payload.message || payload.error_description || statusText;
+  const debugId = payload.debug_id ? ` (debug_id ${payload.debug_id})` : "";
+  return `PayPal ${payload.name || payload.error || status}: ${summary}${debugId}`;
+}
+
+/**
+ * Typed client for the PayPal REST API that caches the OAuth access token until it expires
+ */
+export class PaypalClient {
+  private getCredentials: () => Promise<PaypalCredentials>;
+  private baseUrlOverride?: string;
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt: number = 0;
+  private pendingToken: Promise<string> | null = null;
+
+  /**
+   * @param getCredentials Resolves the client ID, secret and API base for the active environment
+   * @param baseUrlOverride Replaces the API base, e.g. to point emulator tests at a local stub
+   */
+  constructor(getCredentials: () => Promise<PaypalCredentials>, baseUrlOverride?: string) {
+    this.getCredentials = getCredentials;
+    this.baseUrlOverride = baseUrlOverride;
+  }
+
+  async createOrder(purchaseUnit: PaypalPurchaseUnit): Promise<PaypalOrder> {
+    const order = await this.request<PaypalOrder>("POST", "/v2/checkout/orders", {
+      intent: "CAPTURE",
+      purchase_units: [purchaseUnit],
+    });
+    if (!order.id) {
+      throw new HttpsError("internal", "Failed to create PayPal order: No order ID in response.");
+    }
+    return order;
+  }
+
+  async getOrder(orderId: string): Promise<PaypalOrder> {
+    return this.request<PaypalOrder>("GET", `/v2/checkout/orders/${encodeURIComponent(orderId)}`);
+  }
+
+  async captureOrder(orderId: string): Promise<PaypalOrder> {
+    return this.request<PaypalOrder>("POST", `/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`);
+  }
+
+  /**
+   * Refund a capture, fully when no amount is given
+   * @param requestId Makes retries of the same refund idempotent on PayPal's side
+   */
+  async refundCapture(captureId: string, amount?: PaypalAmount, note?: string, requestId?: string): Promise<PaypalRefund> {
+    const body: { amount?: PaypalAmount; note_to_payer?: string } = {};
+    if (amount) body.amount = amount;
+    if (note) body.note_to_payer = note;
+    return this.request<PaypalRefund>(
+      "POST",
+      `/v2/payments/captures/${encodeURIComponent(captureId)}/refund`,
+      body,
+      requestId
+    );
+  }
+
+  async createSubscription(params: CreatePaypalSubscriptionParams): Promise<PaypalSubscription> {
+    const subscription = await this.request<PaypalSubscription>("POST", "/v1/billing/subscriptions", {
+      plan_id: params.planId,
+      custom_id: params.customId,
+      start_time: params.startTime?.toISOString(),
+      application_context: {
+        brand_name: "Gondola Bros",
+        user_action: "SUBSCRIBE_NOW",
+        shipping_preference: "NO_SHIPPING",
+        return_url: params.returnUrl,
+        cancel_url: params.cancelUrl,
+      },
+    });
+    if (!subscription.id) {
+      throw new HttpsError("internal", "Failed to create PayPal subscription: No subscription ID in response.");
+    }
+    return subscription;
+  }
+
+  async getSubscription(subscriptionId: string): Promise<PaypalSubscription> {
+    return this.request<PaypalSubscription>("GET", `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}`);
+  }
+
+  async cancelSubscription(subscriptionId: string, reason: string): Promise<void> {
+    await this.request<void>("POST", `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/cancel`, { reason });
+  }
+
+  async verifyWebhookSignature(signature: PaypalWebhookSignature, event: unknown): Promise<boolean> {
+    const result = await this.request<{ verification_status?: string }>("POST", "/v1/notifications/verify-webhook-signature", {
+      auth_algo: signature.authAlgo,
+      cert_url: signature.certUrl,
+      transmission_id: signature.transmissionId,
+      transmission_sig: signature.transmissionSig,
+      transmission_time: signature.transmissionTime,
+      webhook_id: signature.webhookId,
+      webhook_event: event,
+    });
+    return result.verification_status === "SUCCESS";
+  }
+
+  private async getBaseUrl(): Promise<string> {
+    if (this.baseUrlOverride) return this.baseUrlOverride;
+    const credentials = await this.getCredentials();
+    return credentials.baseUrl;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    // Share one token exchange between concurrent callers
+    if (!this.pendingToken) {
+      this.pendingToken = this.fetchAccessToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  private async fetchAccessToken(): Promise<string> {
+    const credentials = await this.getCredentials();
+    const baseUrl = await this.getBaseUrl();
+
+    const authResponse = await fetch(`${baseUrl}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(`${credentials.clientId}:${credentials.secret}`).toString("base64")}`,
+      },
+      body: "grant_type=client_credentials",
+    });
+
+    if (!authResponse.ok) {
+      const payload = await authResponse.json().catch(() => ({}));
+      throw new HttpsError("internal", `Failed to obtain PayPal access token: ${describePaypalError(authResponse.status, authResponse.statusText, payload)}`);
+    }
+
+    const authData = await authResponse.json();
+    if (!authData.access_token) {
+      throw new HttpsError("internal", "Failed to obtain PayPal access token: No access token in response.");
+    }
+
+    const expiresInMs = (authData.expires_in || 0) * 1000;
+    this.accessToken = authData.access_token;
+    this.accessTokenExpiresAt = Date.now() + Math.max(0, expiresInMs - TOKEN_EXPIRY_MARGIN_MS);
+    return authData.access_token;
+  }
+
+  private async request<T>(method: "GET" | "POST", path: string, body?: unknown, requestId?: string, isRetry: boolean = false): Promise<T> {
+    const accessToken = await this.getAccessToken();
+    const baseUrl = await this.getBaseUrl();
+
+    const headers: { [key: string]: string } = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    };
+    if (requestId) headers["PayPal-Request-Id"] = requestId;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // PayPal can revoke a token before its advertised expiry, so retry once with a fresh one
+    if (response.status === 401 && !isRetry) {
+      this.accessToken = null;
+      return this.request<T>(method, path, body, requestId, true);
+    }
+
+    if (!response.ok) {
+      const payload: PaypalErrorPayload = await response.json().catch(() => ({}));
+      const message = describePaypalError(response.status, response.statusText, payload);
+      console.error(`PayPal ${method} ${path} failed: ${message}`);
+      throw new HttpsError(toHttpsErrorCode(response.status, payload), message);
+    }
+
+    // Actions like cancelling a subscription succeed with no body
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,130 @@
+export type ReceiptType = "purchase" | "tip" | "redemption";
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity?: string;
+  amount: string;
+}
+
+export interface Receipt {
+  receiptNumber: string;
+  title: string;
+  issuedAt: Date;
+  username: string;
+  email?: string | null;
+  items: ReceiptLineItem[];
+  total: string;
+  paymentMethod: string;
+  paypalOrderId?: string | null;
+  paypalCaptureId?: string | null;
+  status?: string | null;
+  notes?: string[];
+}
+
+const RECEIPT_PREFIXES: { [key in ReceiptType]: string } = {
+  purchase: "TP",
+  tip: "TIP",
+  redemption: "RD",
+};
+
+const BUSINESS_NAME = "Gondola Bros";
+
+/**
+ * Build a stable receipt number from the record it describes, e.g. TP-20261019-3F9A2C1B
+ * @param type The kind of record the receipt is for
+ * @param recordId The Firestore document ID of the record
+ * @param issuedAt When the record was created
+ */
+export function getReceiptNumber(type: ReceiptType, recordId: string, issuedAt: Date): string {
+  const date = issuedAt.toISOString().slice(0, 10).replace(/-/g, "");
+  return `${RECEIPT_PREFIXES[type]}-${date}-${recordId.slice(0, 8).toUpperCase()}`;
+}
+
+export function formatMoney(amount: string | number, currency: string): string {
+  const value = typeof amount === "number" ? amount : parseFloat(amount);
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(value);
+  } catch {
+    // Unknown currency codes make Intl throw
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render a receipt as a standalone HTML document that prints cleanly on a single page
+ */
+export function renderReceiptHtml(receipt: Receipt): string {
+  const issuedAt = receipt.issuedAt.toLocaleString("en-US", {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+
+  const details: Array<[string, string | null | undefined]> = [
+    ["Receipt number", receipt.receiptNumber],
+    ["Date", `${issuedAt} UTC`],
+    ["Account", receipt.username],
+    ["Email", receipt.email],
+    ["Payment method", receipt.paymentMethod],
+    ["PayPal order ID", receipt.paypalOrderId],
+    ["PayPal transaction ID", receipt.paypalCaptureId],
+    ["Status", receipt.status],
+  ];
+
+  const detailRows = details
+    .filter((detail): detail is [string, string] => !!detail[1])
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("");
+
+  const itemRows = receipt.items
+    .map((item) => `<tr><td>${escapeHtml(item.description)}</td><td class="qty">${escapeHtml(item.quantity || "")}</td><td class="amount">${escapeHtml(item.amount)}</td></tr>`)
+    .join("");
+
+  const notes = (receipt.notes || [])
+    .map((note) => `<p class="note">${escapeHtml(note)}</p>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${receipt.title} ${receipt.receiptNumber}`)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 640px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin: 0; }
+  .business { color: #6b7280; margin: 4px 0 32px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  .details th { text-align: left; font-weight: 500; color: #6b7280; width: 40%; padding: 4px 0; }
+  .details td { padding: 4px 0; word-break: break-all; }
+  .items th { text-align: left; border-bottom: 2px solid #111827; padding: 8px 0; }
+  .items td { border-bottom: 1px solid #e5e7eb; padding: 8px 0; }
+  .items .qty, .items .amount { text-align: right; }
+  .items tfoot td { border-bottom: none; font-weight: 700; font-size: 18px; }
+  .note { color: #6b7280; font-size: 14px; }
+  .print { margin-top: 24px; padding: 8px 16px; }
+  @media print { .print { display: none; } body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(receipt.title)}</h1>
+<p class="business">${BUSINESS_NAME}</p>
+<table class="details">${detailRows}</table>
+<table class="items">
+<thead><tr><th>Item</th><th class="qty">Qty</th><th class="amount">Amount</th></tr></thead>
+<tbody>${itemRows}</tbody>
+<tfoot><tr><td>Total</td><td></td><td class="amount">${escapeHtml(receipt.total)}</td></tr></tfoot>
+</table>
+${notes}
+<button class="print" onclick="window.print()">Print or save as PDF</button>
+</body>
+</html>`;
+}
@@ -0,0 +1,382 @@
+import * as crypto from "crypto";
+
+// In-memory stand-in for the parts of firebase-admin the functions use, so tests run without the
+// Firestore emulator. Writes inside a transaction or batch only land when it commits.
+
+type DocumentData = { [key: string]: unknown };
+const WHERE_OPERATORS = ["==", "in", "<", "<=", ">", ">="] as const;
+type WhereOperator = typeof WHERE_OPERATORS[number];
+
+export class FakeTimestamp {
+  constructor(private readonly millis: number) {}
+
+  static now(): FakeTimestamp {
+    return new FakeTimestamp(Date.now());
+  }
+
+  static fromDate(date: Date): FakeTimestamp {
+    return new FakeTimestamp(date.getTime());
+  }
+
+  static fromMillis(millis: number): FakeTimestamp {
+    return new FakeTimestamp(millis);
+  }
+
+  toDate(): Date {
+    return new Date(this.millis);
+  }
+
+  toMillis(): number {
+    return this.millis;
+  }
+}
+
+class FakeFieldValue {
+  constructor(readonly kind: "serverTimestamp" | "increment" | "delete", readonly operand?: number) {}
+
+  static serverTimestamp(): FakeFieldValue {
+    return new FakeFieldValue("serverTimestamp");
+  }
+
+  static increment(amount: number): FakeFieldValue {
+    return new FakeFieldValue("increment", amount);
+  }
+
+  static delete(): FakeFieldValue {
+    return new FakeFieldValue("delete");
+  }
+}
+
+function isPlainObject(value: unknown): value is DocumentData {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Resolves sentinels against the current value and applies one field, following dotted paths
+function applyField(target: DocumentData, path: string[], value: unknown): void {
+  const [field, ...rest] = path;
+  if (rest.length > 0) {
+    if (!isPlainObject(target[field])) target[field] = {};
+    applyField(target[field] as DocumentData, rest, value);
+    return;
+  }
+
+  if (value instanceof FakeFieldValue) {
+    if (value.kind === "delete") {
+      delete target[field];
+    } else if (value.kind === "increment") {
+      target[field] = (typeof target[field] === "number" ? (target[field] as number) : 0) + (value.operand || 0);
+    } else {
+      target[field] = FakeTimestamp.now();
+    }
+  } else if (isPlainObject(value)) {
+    const nested: DocumentData = {};
+    for (const [key, nestedValue] of Object.entries(value)) applyField(nested, [key], nestedValue);
+    target[field] = nested;
+  } else {
+    target[field] = value;
+  }
+}
+
+// Timestamps are immutable, so only plain objects and arrays need copying
+function cloneData<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneData) as T;
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, cloneData(nested)])) as T;
+}
+
+function toComparable(value: unknown): number | null {
+  if (value instanceof FakeTimestamp) return value.toMillis();
+  return typeof value === "number" ? value : null;
+}
+
+function mergeInto(target: DocumentData, data: DocumentData): void {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key] as DocumentData, value);
+    } else {
+      applyField(target, [key], value);
+    }
+  }
+}
+
+export class FakeDocumentSnapshot {
+  constructor(readonly ref: FakeDocumentReference, private readonly stored: DocumentData | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored === undefined ? undefined : cloneData(this.stored);
+  }
+
+  get(field: string): unknown {
+    return this.stored?.[field];
+  }
+}
+
+export class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: FakeDocumentSnapshot) => void): void {
+    this.docs.forEach((doc) => callback(doc));
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(private readonly db: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split("/").pop()!;
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return this.db.read(this);
+  }
+
+  async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
+    this.db.commit([{ type: "set", ref: this, data, merge: !!options?.merge }]);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    this.db.commit([{ type: "update", ref: this, data }]);
+  }
+
+  async create(data: DocumentData): Promise<void> {
+    this.db.commit([{ type: "create", ref: this, data }]);
+  }
+
+  async delete(): Promise<void> {
+    this.db.commit([{ type: "delete", ref: this }]);
+  }
+}
+
+export class FakeQuery {
+  constructor(
+    protected readonly db: FakeFirestore,
+    readonly path: string,
+    private readonly filters: Array<{ field: string; operator: WhereOperator; value: unknown }> = [],
+    private readonly maxResults?: number
+  ) {}
+
+  where(field: string, operator: string, value: unknown): FakeQuery {
+    if (!WHERE_OPERATORS.includes(operator as WhereOperator)) {
+      throw new Error(`The fake Firestore does not support the ${operator} operator.`);
+    }
+    return new FakeQuery(this.db, this.path, [...this.filters, { field, operator: operator as WhereOperator, value }], this.maxResults);
+  }
+
+  limit(maxResults: number): FakeQuery {
+    return new FakeQuery(this.db, this.path, this.filters, maxResults);
+  }
+
+  // Field masks only save bandwidth, so the fake keeps returning whole documents
+  select(): FakeQuery {
+    return this;
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    return this.db.runQuery(this);
+  }
+
+  matches(data: DocumentData): boolean {
+    return this.filters.every(({ field, operator, value }) => {
+      if (operator === "==") return data[field] === value;
+      if (operator === "in") return Array.isArray(value) && value.includes(data[field]);
+
+      // Like Firestore, range filters skip docs missing the field or holding another type
+      const left = toComparable(data[field]);
+      const right = toComparable(value);
+      if (left === null || right === null) return false;
+      if (operator === "<") return left < right;
+      if (operator === "<=") return left <= right;
+      if (operator === ">") return left > right;
+      return left >= right;
+    });
+  }
+
+  applyLimit<T>(results: T[]): T[] {
+    return this.maxResults === undefined ? results : results.slice(0, this.maxResults);
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split("/").pop()!;
+  }
+
+  doc(id: string = crypto.randomBytes(10).toString("hex")): FakeDocumentReference {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: DocumentData): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+type PendingWrite =
+  | { type: "set"; ref: FakeDocumentReference; data: DocumentData; merge: boolean }
+  | { type: "update"; ref: FakeDocumentReference; data: DocumentData }
+  | { type: "create"; ref: FakeDocumentReference; data: DocumentData }
+  | { type: "delete"; ref: FakeDocumentReference };
+
+export class FakeWriteBatch {
+  protected readonly writes: PendingWrite[] = [];
+
+  constructor(protected readonly db: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.writes.push({ type: "set", ref, data, merge: !!options?.merge });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: DocumentData): this {
+    this.writes.push({ type: "update", ref, data });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: DocumentData): this {
+    this.writes.push({ type: "create", ref, data });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push({ type: "delete", ref });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.db.commit(this.writes);
+  }
+}
+
+export class FakeTransaction extends FakeWriteBatch {
+  async get(target: FakeDocumentReference): Promise<FakeDocumentSnapshot>;
+  async get(target: FakeQuery): Promise<FakeQuerySnapshot>;
+  async get(target: FakeDocumentReference | FakeQuery): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+    this.assertNoWrites();
+    return target instanceof FakeDocumentReference ? this.db.read(target) : this.db.runQuery(target);
+  }
+
+  async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+    this.assertNoWrites();
+    return refs.map((ref) => this.db.read(ref));
+  }
+
+  applyWrites(): void {
+    this.db.commit(this.writes);
+  }
+
+  // Firestore rejects a transaction that reads after writing, so the fake does too
+  private assertNoWrites(): void {
+    if (this.writes.length > 0) {
+      throw new Error("Firestore transactions require all reads to be executed before all writes.");
+    }
+  }
+}
+
+export class FakeFirestore {
+  private documents = new Map<string, DocumentData>();
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  async runTransaction<T>(updateFunction: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    const transaction = new FakeTransaction(this);
+    const result = await updateFunction(transaction);
+    transaction.applyWrites();
+    return result;
+  }
+
+  read(ref: FakeDocumentReference): FakeDocumentSnapshot {
+    return new FakeDocumentSnapshot(ref, this.documents.get(ref.path));
+  }
+
+  runQuery(query: FakeQuery): FakeQuerySnapshot {
+    const prefix = `${query.path}/`;
+    const matches = [...this.documents.entries()]
+      .filter(([path, data]) => path.startsWith(prefix) && !path.slice(prefix.length).includes("/") && query.matches(data))
+      .map(([path, data]) => new FakeDocumentSnapshot(this.doc(path), data));
+    return new FakeQuerySnapshot(query.applyLimit(matches));
+  }
+
+  // Applies every write or none, like a committed batch
+  commit(writes: PendingWrite[]): void {
+    const next = new Map(this.documents);
+    for (const write of writes) {
+      const existing = next.get(write.ref.path);
+      if (write.type === "delete") {
+        next.delete(write.ref.path);
+        continue;
+      }
+      if (write.type === "create" && existing) {
+        throw new Error(`Document ${write.ref.path} already exists.`);
+      }
+      if (write.type === "update" && !existing) {
+        throw new Error(`No document to update: ${write.ref.path}`);
+      }
+
+      const document = write.type === "create" || (write.type === "set" && !write.merge) ? {} : cloneData(existing || {});
+      if (write.type === "set" && write.merge) {
+        mergeInto(document, write.data);
+      } else {
+        for (const [key, value] of Object.entries(write.data)) applyField(document, key.split("."), value);
+      }
+      next.set(write.ref.path, document);
+    }
+    this.documents = next;
+  }
+
+  /** Write a document directly, outside any transaction */
+  seed(path: string, data: DocumentData): void {
+    this.commit([{ type: "set", ref: this.doc(path), data, merge: false }]);
+  }
+
+  reset(): void {
+    this.documents.clear();
+  }
+}
+
+export const firestoreInstance = new FakeFirestore();
+
+export const apps: unknown[] = [];
+
+export function initializeApp(): void {
+  apps.push({});
+}
+
+export function storage(): { bucket: () => Record<string, never> } {
+  return { bucket: () => ({}) };
+}
+
+export const firestore = Object.assign(() => firestoreInstance, {
+  FieldValue: FakeFieldValue,
+  Timestamp: FakeTimestamp,
+});
@@ -0,0 +1,90 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+// Local stand-in for the PayPal REST API. It hands out access tokens and checks webhook signatures,
+// which here are an HMAC over the transmission details and event instead of PayPal's certificate chain.
+
+const SIGNING_KEY = "fake-paypal-signing-key";
+const AUTH_ALGO = "SHA256withRSA";
+const CERT_URL = "https://api.sandbox.paypal.com/v1/notifications/certs/CERT-FAKE";
+
+export interface FakePaypalServer {
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+function computeSignature(transmissionId: string, transmissionTime: string, webhookId: string, event: unknown): string {
+  return crypto
+    .createHmac("sha256", SIGNING_KEY)
+    .update(`${transmissionId}|${transmissionTime}|${webhookId}|${JSON.stringify(event)}`)
+    .digest("base64");
+}
+
+/**
+ * Build the PAYPAL-* headers PayPal sends with a webhook delivery
+ * @param webhookId The webhook the event is delivered to; a mismatch fails verification
+ */
+export function signWebhookEvent(event: unknown, webhookId: string): { [key: string]: string } {
+  const transmissionId = crypto.randomUUID();
+  const transmissionTime = new Date().toISOString();
+  return {
+    "paypal-auth-algo": AUTH_ALGO,
+    "paypal-cert-url": CERT_URL,
+    "paypal-transmission-id": transmissionId,
+    "paypal-transmission-sig": computeSignature(transmissionId, transmissionTime, webhookId, event),
+    "paypal-transmission-time": transmissionTime,
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const body = await readBody(req);
+
+  if (req.method === "POST" && req.url === "/v1/oauth2/token") {
+    sendJson(res, 200, { access_token: "fake-access-token", token_type: "Bearer", expires_in: 32400 });
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/v1/notifications/verify-webhook-signature") {
+    const payload = JSON.parse(body);
+    const expected = computeSignature(payload.transmission_id, payload.transmission_time, payload.webhook_id, payload.webhook_event);
+    const isValid = payload.auth_algo === AUTH_ALGO && payload.cert_url === CERT_URL && payload.transmission_sig === expected;
+    sendJson(res, 200, { verification_status: isValid ? "SUCCESS" : "FAILURE" });
+    return;
+  }
+
+  sendJson(res, 404, { name: "RESOURCE_NOT_FOUND", message: `The fake PayPal API has no ${req.method} ${req.url}` });
+}
+
+export async function startFakePaypalServer(): Promise<FakePaypalServer> {
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      sendJson(res, 500, { name: "INTERNAL_SERVER_ERROR", message: String(error) });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      // fetch keeps connections alive, which would hold close() open
+      server.closeAllConnections();
+      server.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
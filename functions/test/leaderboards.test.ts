@@ -0,0 +1,170 @@
+import { FakeTimestamp, firestoreInstance as db } from "./fakes/firebaseAdmin";
+
+jest.mock("firebase-admin", () => jest.requireActual("./fakes/firebaseAdmin"));
+jest.mock("../src/secrets", () => ({
+  getSecret: async (name: string) => `fake-${name}`,
+  getAllSecrets: async () => ({}),
+}));
+
+type DocumentData = { [key: string]: unknown };
+type TriggeredFunction = { run: (event: unknown) => Promise<unknown> };
+
+interface LeaderboardFunctions {
+  refreshLeaderboards: TriggeredFunction;
+  updateTipLeaderboardTotals: TriggeredFunction;
+  updateTradeLeaderboardTotals: TriggeredFunction;
+  rebuildLeaderboardTotals: TriggeredFunction;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let functions: LeaderboardFunctions;
+
+beforeAll(async () => {
+  functions = (await import("../src/index")) as unknown as LeaderboardFunctions;
+});
+
+beforeEach(() => {
+  db.reset();
+  jest.spyOn(console, "log").mockReturnValue(undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function seedUser(userId: string, username: string, tokenBalance: number): void {
+  db.seed(`users/${userId}`, { username, tokenBalance });
+}
+
+function seedTip(tipId: string, userId: string, username: string, amount: string, createdAt = FakeTimestamp.now()): DocumentData {
+  const tip = { userId, username, amount, currency: "USD", status: "completed", createdAt };
+  db.seed(`tips/${tipId}`, tip);
+  return tip;
+}
+
+function seedAcceptedTrade(tradeId: string, tokens: number, resolvedAt: FakeTimestamp): DocumentData {
+  const trade = {
+    senderId: "user-1",
+    senderUsername: "alice",
+    receiverId: "user-2",
+    receiverUsername: "bob",
+    tokens,
+    status: "accepted",
+    createdAt: resolvedAt,
+    resolvedAt,
+  };
+  db.seed(`trades/${tradeId}`, trade);
+  return trade;
+}
+
+// The Firestore trigger event for a write from `before` to `after`
+function documentWritten(before: DocumentData | undefined, after: DocumentData | undefined) {
+  return { params: {}, data: { before: { data: () => before }, after: { data: () => after } } };
+}
+
+async function getBoard(boardId: string) {
+  const [boardDoc, entries, ranks] = await Promise.all([
+    db.doc(`leaderboards/${boardId}`).get(),
+    db.collection(`leaderboards/${boardId}/entries`).get(),
+    db.collection(`leaderboards/${boardId}/ranks`).get(),
+  ]);
+  return {
+    summary: boardDoc.data()!,
+    entries: entries.docs.map((doc) => doc.data()!).sort((a, b) => (a.rank as number) - (b.rank as number)),
+    rankCount: ranks.size,
+  };
+}
+
+describe("refreshLeaderboards", () => {
+  it("keeps board counts when a refresh finds the standings unchanged", async () => {
+    seedUser("user-1", "alice", 50);
+    seedUser("user-2", "bob", 20);
+    seedUser("user-3", "carol", 0);
+    seedTip("tip-1", "user-1", "alice", "5.00");
+    seedTip("tip-2", "user-2", "bob", "7.50");
+
+    await functions.refreshLeaderboards.run({});
+    const first = await getBoard("tokens_allTime");
+    await functions.refreshLeaderboards.run({});
+    const second = await getBoard("tokens_allTime");
+
+    expect(first.summary).toMatchObject({ entryCount: 2, rankedCount: 2 });
+    expect(second.summary).toMatchObject({ entryCount: 2, rankedCount: 2 });
+    expect(second.entries).toEqual(first.entries);
+    expect(second.entries.map((entry) => entry.username)).toEqual(["alice", "bob"]);
+    expect(second.rankCount).toBe(2);
+
+    const tippers = await getBoard("tippers_weekly");
+    expect(tippers.summary).toMatchObject({ entryCount: 2, rankedCount: 2 });
+    expect(tippers.entries).toEqual([
+      { userId: "user-2", username: "bob", value: 7.5, rank: 1 },
+      { userId: "user-1", username: "alice", value: 5, rank: 2 },
+    ]);
+  });
+
+  it("drops users who leave the board from its counts", async () => {
+    seedUser("user-1", "alice", 50);
+    seedUser("user-2", "bob", 20);
+
+    await functions.refreshLeaderboards.run({});
+    await db.doc("users/user-2").update({ tokenBalance: 80 });
+    await db.doc("users/user-1").update({ tokenBalance: 0 });
+    await functions.refreshLeaderboards.run({});
+
+    const board = await getBoard("tokens_allTime");
+    expect(board.summary).toMatchObject({ entryCount: 1, rankedCount: 1 });
+    expect(board.entries).toEqual([{ userId: "user-2", username: "bob", value: 80, rank: 1 }]);
+    expect(board.rankCount).toBe(1);
+  });
+
+  it("ranks all-time tippers and traders from the totals the triggers keep, outside the period windows", async () => {
+    seedUser("user-1", "alice", 0);
+    seedUser("user-2", "bob", 0);
+    const longAgo = FakeTimestamp.fromMillis(Date.now() - 400 * DAY_MS);
+    const tip = seedTip("tip-1", "user-1", "alice", "10.00", longAgo);
+    const trade = seedAcceptedTrade("trade-1", 30, longAgo);
+
+    // Triggers can be delivered more than once
+    for (let i = 0; i < 2; i++) {
+      await functions.updateTipLeaderboardTotals.run(documentWritten(undefined, tip));
+      await functions.updateTradeLeaderboardTotals.run(documentWritten({ ...trade, status: "pending" }, trade));
+    }
+    await functions.refreshLeaderboards.run({});
+
+    expect((await getBoard("tippers_allTime")).entries).toEqual([{ userId: "user-1", username: "alice", value: 10, rank: 1 }]);
+    expect((await getBoard("trades_allTime")).entries).toEqual([
+      { userId: "user-1", username: "alice", value: 30, rank: 1 },
+      { userId: "user-2", username: "bob", value: 30, rank: 2 },
+    ]);
+    expect((await getBoard("tippers_monthly")).summary).toMatchObject({ entryCount: 0 });
+    expect((await getBoard("trades_weekly")).summary).toMatchObject({ entryCount: 0 });
+
+    const refunded = { ...tip, status: "refunded", refundedAmount: "10.00" };
+    await db.doc("tips/tip-1").update({ status: "refunded", refundedAmount: "10.00" });
+    await functions.updateTipLeaderboardTotals.run(documentWritten(tip, refunded));
+    await functions.refreshLeaderboards.run({});
+
+    expect((await getBoard("tippers_allTime")).summary).toMatchObject({ entryCount: 0, rankedCount: 0 });
+  });
+
+  it("backfills all-time totals for activity recorded before the triggers", async () => {
+    seedUser("user-1", "alice", 0);
+    seedUser("user-2", "bob", 0);
+    seedTip("tip-1", "user-1", "alice", "4.00");
+    seedTip("tip-2", "user-2", "bob", "6.25");
+    db.seed("tips/tip-3", { userId: "user-1", username: "alice", amount: "50.00", status: "completed", anonymous: true });
+    seedAcceptedTrade("trade-1", 15, FakeTimestamp.now());
+
+    await expect(functions.rebuildLeaderboardTotals.run({ auth: { uid: "user-1", token: {} } })).rejects.toThrow("Only admins");
+    expect(await functions.rebuildLeaderboardTotals.run({ auth: { uid: "admin", token: { admin: true } } })).toEqual({ success: true, count: 4 });
+
+    const totals = await db.collection("leaderboardTotals").get();
+    expect(Object.fromEntries(totals.docs.map((doc) => [doc.id, doc.data()!.value]))).toEqual({
+      "tippers_user-1": 4,
+      "tippers_user-2": 6.25,
+      "trades_user-1": 15,
+      "trades_user-2": 15,
+    });
+  });
+});
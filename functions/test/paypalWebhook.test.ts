@@ -0,0 +1,302 @@
+import { firestoreInstance as db } from "./fakes/firebaseAdmin";
+import { FakePaypalServer, signWebhookEvent, startFakePaypalServer } from "./fakes/paypalServer";
+
+jest.mock("firebase-admin", () => jest.requireActual("./fakes/firebaseAdmin"));
+jest.mock("../src/secrets", () => ({
+  getSecret: async (name: string) => `fake-${name}`,
+  getAllSecrets: async () => ({
+    PAYPAL_CLIENT_ID: "fake-client-id",
+    PAYPAL_SECRET: "fake-secret",
+    PAYPAL_API_BASE: "http://127.0.0.1:1",
+  }),
+}));
+
+const WEBHOOK_ID = "WH-TEST";
+const USER_ID = "user-1";
+
+type WebhookHandler = (req: unknown, res: unknown) => Promise<void>;
+type EventType = "PAYMENT.CAPTURE.COMPLETED" | "PAYMENT.CAPTURE.REFUNDED" | "PAYMENT.CAPTURE.REVERSED";
+
+interface WebhookEvent {
+  id: string;
+  event_type: EventType;
+  resource: { [key: string]: unknown };
+}
+
+let paypal: FakePaypalServer;
+let paypalWebhook: WebhookHandler;
+
+beforeAll(async () => {
+  paypal = await startFakePaypalServer();
+  process.env.PAYPAL_API_BASE_URL = paypal.baseUrl;
+  process.env.PAYPAL_WEBHOOK_ID = WEBHOOK_ID;
+  ({ paypalWebhook } = (await import("../src/index")) as unknown as { paypalWebhook: WebhookHandler });
+});
+
+afterAll(async () => {
+  await paypal.close();
+});
+
+beforeEach(() => {
+  db.reset();
+  jest.spyOn(console, "log").mockReturnValue(undefined);
+  jest.spyOn(console, "error").mockReturnValue(undefined);
+  db.seed(`users/${USER_ID}`, { username: "tester", tokenBalance: 0 });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function deliver(event: WebhookEvent, headers = signWebhookEvent(event, WEBHOOK_ID)): Promise<{ status: number; body: unknown }> {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    send(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  // Round-trip through JSON like the real request body parser
+  await paypalWebhook({ method: "POST", headers, body: JSON.parse(JSON.stringify(event)) }, res);
+  return { status: res.statusCode, body: res.body };
+}
+
+function captureCompleted(eventId: string, orderId: string, captureId: string, value: string): WebhookEvent {
+  return {
+    id: eventId,
+    event_type: "PAYMENT.CAPTURE.COMPLETED",
+    resource: {
+      id: captureId,
+      status: "COMPLETED",
+      amount: { value, currency_code: "USD" },
+      supplementary_data: { related_ids: { order_id: orderId } },
+    },
+  };
+}
+
+function captureRefunded(eventId: string, eventType: EventType, captureId: string, value: string): WebhookEvent {
+  return {
+    id: eventId,
+    event_type: eventType,
+    resource: {
+      id: `REFUND-${eventId}`,
+      status: "COMPLETED",
+      amount: { value, currency_code: "USD" },
+      links: [{ rel: "up", href: `https://api.sandbox.paypal.com/v2/payments/captures/${captureId}` }],
+    },
+  };
+}
+
+function seedTokenOrder(orderId: string, tokens: number, amount: string, giftVoucher = false): void {
+  db.seed(`paypalOrders/${orderId}`, {
+    type: "tokenPurchase",
+    userId: USER_ID,
+    sessionId: "session-1",
+    packageId: "package-1",
+    tokens,
+    amount,
+    currency: "USD",
+    status: "created",
+    giftVoucher,
+  });
+}
+
+function seedTipOrder(orderId: string, amount: string): void {
+  db.seed(`paypalOrders/${orderId}`, {
+    type: "tip",
+    userId: USER_ID,
+    sessionId: "session-1",
+    message: "Thanks!",
+    amount,
+    currency: "USD",
+    status: "created",
+  });
+}
+
+async function getRecords(collectionName: "tokenPurchases" | "tips", orderId: string) {
+  const snapshot = await db.collection(collectionName).where("orderId", "==", orderId).get();
+  return snapshot.docs.map((doc) => doc.data()!);
+}
+
+async function getTokenBalance(): Promise<number> {
+  const userDoc = await db.doc(`users/${USER_ID}`).get();
+  return userDoc.data()!.tokenBalance as number;
+}
+
+async function getLedgerEntryCount(): Promise<number> {
+  const snapshot = await db.collection("ledger").where("userId", "==", USER_ID).get();
+  return snapshot.size;
+}
+
+describe("paypalWebhook", () => {
+  it("rejects events whose signature does not verify", async () => {
+    seedTokenOrder("ORDER-1", 100, "10.00");
+    const event = captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00");
+
+    const forged = await deliver(event, signWebhookEvent(event, "WH-SOMEONE-ELSE"));
+    const tampered = await deliver(
+      { ...event, resource: { ...event.resource, amount: { value: "1000.00", currency_code: "USD" } } },
+      signWebhookEvent(event, WEBHOOK_ID)
+    );
+
+    expect(forged.status).toBe(400);
+    expect(tampered.status).toBe(400);
+    expect(await getRecords("tokenPurchases", "ORDER-1")).toHaveLength(0);
+    expect(await getTokenBalance()).toBe(0);
+  });
+
+  describe("token purchases", () => {
+    it("credits a capture once however often it is delivered", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00");
+      const event = captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00");
+
+      expect((await deliver(event)).status).toBe(200);
+      expect((await deliver(event)).status).toBe(200);
+      // PayPal can also send the same capture under a new event ID
+      expect((await deliver(captureCompleted("WH-2", "ORDER-1", "CAPTURE-1", "10.00"))).status).toBe(200);
+
+      const purchases = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchases).toHaveLength(1);
+      expect(purchases[0]).toMatchObject({ status: "completed", tokens: 100, captureId: "CAPTURE-1", source: "webhook" });
+      expect(await getTokenBalance()).toBe(100);
+      expect(await getLedgerEntryCount()).toBe(1);
+    });
+
+    it("claws back a full refund once", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00");
+      await deliver(captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00"));
+
+      const refund = captureRefunded("WH-2", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "10.00");
+      expect((await deliver(refund)).status).toBe(200);
+      expect((await deliver(refund)).status).toBe(200);
+
+      const [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "refunded", refundedAmount: "10.00", refundedTokens: 100, clawedBackTokens: 100, owedTokens: 0 });
+      expect(await getTokenBalance()).toBe(0);
+      expect(await getLedgerEntryCount()).toBe(2);
+    });
+
+    it("claws back partial refunds in proportion and stops at the purchase amount", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00");
+      await deliver(captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00"));
+
+      const firstRefund = captureRefunded("WH-2", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "4.00");
+      await deliver(firstRefund);
+      await deliver(firstRefund);
+
+      let [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "partially_refunded", refundedAmount: "4.00", refundedTokens: 40 });
+      expect(await getTokenBalance()).toBe(60);
+
+      await deliver(captureRefunded("WH-3", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "6.00"));
+      // Nothing is left to take once the purchase is fully refunded
+      await deliver(captureRefunded("WH-4", "PAYMENT.CAPTURE.REVERSED", "CAPTURE-1", "10.00"));
+
+      [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "refunded", refundedAmount: "10.00", refundedTokens: 100, clawedBackTokens: 100 });
+      expect(await getTokenBalance()).toBe(0);
+      expect(await getLedgerEntryCount()).toBe(3);
+    });
+
+    it("records tokens already spent as owed when a capture is reversed", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00");
+      await deliver(captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00"));
+      await db.doc(`users/${USER_ID}`).update({ tokenBalance: 30 });
+
+      const reversal = captureRefunded("WH-2", "PAYMENT.CAPTURE.REVERSED", "CAPTURE-1", "10.00");
+      await deliver(reversal);
+      await deliver(reversal);
+
+      const [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "reversed", refundedTokens: 100, clawedBackTokens: 30, owedTokens: 70 });
+      expect(await getTokenBalance()).toBe(-70);
+    });
+  });
+
+  describe("gift voucher purchases", () => {
+    async function getVoucher(code: string) {
+      const voucherDoc = await db.doc(`vouchers/${code}`).get();
+      return voucherDoc.data()!;
+    }
+
+    it("takes refunds off the unredeemed voucher instead of the buyer's balance", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00", true);
+      await deliver(captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00"));
+      await db.doc(`users/${USER_ID}`).update({ tokenBalance: 25 });
+      const [{ voucherCode }] = await getRecords("tokenPurchases", "ORDER-1");
+
+      const partialRefund = captureRefunded("WH-2", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "4.00");
+      await deliver(partialRefund);
+      await deliver(partialRefund);
+
+      let [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "partially_refunded", refundedAmount: "4.00", refundedTokens: 40 });
+      expect(await getVoucher(voucherCode as string)).toMatchObject({ status: "active", tokens: 60 });
+
+      await deliver(captureRefunded("WH-3", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "6.00"));
+
+      [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "refunded", refundedAmount: "10.00", refundedTokens: 100 });
+      expect(await getVoucher(voucherCode as string)).toMatchObject({ status: "void" });
+      expect(await getTokenBalance()).toBe(25);
+      expect(await getLedgerEntryCount()).toBe(0);
+    });
+
+    it("flags the purchase for review when the voucher was already redeemed", async () => {
+      seedTokenOrder("ORDER-1", 100, "10.00", true);
+      await deliver(captureCompleted("WH-1", "ORDER-1", "CAPTURE-1", "10.00"));
+      const [{ voucherCode }] = await getRecords("tokenPurchases", "ORDER-1");
+      await db.doc(`vouchers/${voucherCode}`).update({ status: "redeemed", redeemedBy: "user-2" });
+
+      await deliver(captureRefunded("WH-2", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-1", "4.00"));
+
+      const [purchase] = await getRecords("tokenPurchases", "ORDER-1");
+      expect(purchase).toMatchObject({ status: "needs_review", reviewReason: "voucher_already_redeemed", refundedAmount: "4.00" });
+      expect(await getTokenBalance()).toBe(0);
+      expect(await getLedgerEntryCount()).toBe(0);
+    });
+  });
+
+  describe("tips", () => {
+    it("records a capture once however often it is delivered", async () => {
+      seedTipOrder("ORDER-2", "5.00");
+      const event = captureCompleted("WH-1", "ORDER-2", "CAPTURE-2", "5.00");
+
+      await deliver(event);
+      await deliver(event);
+      await deliver(captureCompleted("WH-2", "ORDER-2", "CAPTURE-2", "5.00"));
+
+      const tips = await getRecords("tips", "ORDER-2");
+      expect(tips).toHaveLength(1);
+      expect(tips[0]).toMatchObject({ status: "completed", amount: "5.00", captureId: "CAPTURE-2", message: "Thanks!" });
+      expect(await getRecords("tokenPurchases", "ORDER-2")).toHaveLength(0);
+      expect(await getTokenBalance()).toBe(0);
+    });
+
+    it("tracks refunds and reversals once without touching token balances", async () => {
+      seedTipOrder("ORDER-2", "5.00");
+      await deliver(captureCompleted("WH-1", "ORDER-2", "CAPTURE-2", "5.00"));
+
+      const refund = captureRefunded("WH-2", "PAYMENT.CAPTURE.REFUNDED", "CAPTURE-2", "2.00");
+      await deliver(refund);
+      await deliver(refund);
+
+      let [tip] = await getRecords("tips", "ORDER-2");
+      expect(tip).toMatchObject({ status: "partially_refunded", refundedAmount: "2.00" });
+
+      const reversal = captureRefunded("WH-3", "PAYMENT.CAPTURE.REVERSED", "CAPTURE-2", "3.00");
+      await deliver(reversal);
+      await deliver(reversal);
+
+      [tip] = await getRecords("tips", "ORDER-2");
+      expect(tip).toMatchObject({ status: "reversed", refundedAmount: "5.00" });
+      expect(await getTokenBalance()).toBe(0);
+      expect(await getLedgerEntryCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { FakeTimestamp, firestoreInstance as db } from "./fakes/firebaseAdmin";
+
+jest.mock("firebase-admin", () => jest.requireActual("./fakes/firebaseAdmin"));
+jest.mock("../src/secrets", () => ({
+  getSecret: async (name: string) => `fake-${name}`,
+  getAllSecrets: async () => ({}),
+}));
+
+type ScheduledFunction = { run: (event: unknown) => Promise<void> };
+
+let reconcileTokenBalances: ScheduledFunction;
+
+beforeAll(async () => {
+  ({ reconcileTokenBalances } = (await import("../src/index")) as unknown as { reconcileTokenBalances: ScheduledFunction });
+});
+
+beforeEach(() => {
+  db.reset();
+  jest.spyOn(console, "log").mockReturnValue(undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Writes the entries recordOpeningBalance leaves for a balance that predates the ledger
+function seedOpeningBalance(userId: string, amount: number): void {
+  const entry = { transactionId: `opening-${userId}`, amount: Math.abs(amount), reason: "opening_balance", createdAt: FakeTimestamp.now() };
+  const userSide = amount > 0 ? "credit" : "debit";
+  const systemSide = amount > 0 ? "debit" : "credit";
+  db.seed(`ledger/opening-${userId}_${userSide}`, { ...entry, account: `user:${userId}`, userId, side: userSide, delta: amount });
+  db.seed(`ledger/opening-${userId}_${systemSide}`, { ...entry, account: "system:opening", userId: null, side: systemSide, delta: -amount });
+}
+
+function seedLedgeredPurchase(userId: string, purchaseId: string, tokens: number): void {
+  const createdAt = FakeTimestamp.now();
+  db.seed(`tokenPurchases/${purchaseId}`, { userId, tokens, amount: "10.00", status: "completed", createdAt });
+  db.seed(`ledger/${purchaseId}_credit`, {
+    account: `user:${userId}`,
+    userId,
+    side: "credit",
+    amount: tokens,
+    delta: tokens,
+    reason: "token_purchase",
+    referenceType: "tokenPurchases",
+    referenceId: purchaseId,
+    createdAt,
+  });
+}
+
+describe("reconcileTokenBalances", () => {
+  it("counts opening balances when rebuilding balances that predate the ledger", async () => {
+    db.seed("users/user-1", { username: "alice", tokenBalance: 150 });
+    seedOpeningBalance("user-1", 50);
+    seedLedgeredPurchase("user-1", "purchase-1", 100);
+    db.seed("users/user-2", { username: "bob", tokenBalance: -20 });
+    seedOpeningBalance("user-2", -20);
+
+    await reconcileTokenBalances.run({});
+
+    expect((await db.collection("balanceDriftReports").get()).size).toBe(0);
+    const [run] = (await db.collection("balanceReconciliationRuns").get()).docs.map((doc) => doc.data()!);
+    expect(run).toMatchObject({ checked: 2, drifted: 0, failed: 0 });
+  });
+
+  it("still reports balances that disagree with their history", async () => {
+    db.seed("users/user-1", { username: "alice", tokenBalance: 175 });
+    seedOpeningBalance("user-1", 50);
+    seedLedgeredPurchase("user-1", "purchase-1", 100);
+
+    await reconcileTokenBalances.run({});
+
+    const [report] = (await db.collection("balanceDriftReports").get()).docs.map((doc) => doc.data()!);
+    expect(report).toMatchObject({ userId: "user-1", storedBalance: 175, expectedBalance: 150, ledgerBalance: 150, difference: 25 });
+    expect((report.history as Array<{ description: string; balanceAfter: number }>).map(({ description, balanceAfter }) => [description, balanceAfter])).toEqual([
+      ["Opening balance", 50],
+      ["Purchased 100 tokens", 150],
+    ]);
+  });
+});
@@ -3,14 +3,22 @@ import { useState, useEffect } from "react";
 import { useTheme } from "../context/theme-context";
 import { useAuth } from "../context/auth-context";
 import { useNavigate } from "react-router-dom";
-import { collection, getDocs, doc, getDoc, query, where } from "firebase/firestore";
+import { collection, getDocs, doc, getDoc, query, where, orderBy, limit, onSnapshot, Timestamp } from "firebase/firestore";
 import { db } from "../config/firebase";
 import { 
   GameController, PlayCircle, Coin, Rocket, 
   Users, Star, Heart, ShoppingCart,
-  ArrowRight, Sparkle, Spinner
+  ArrowRight, Sparkle, Spinner, Target
 } from "phosphor-react";
 
+interface TipGoal {
+  id: string;
+  title: string;
+  targetAmount: string;
+  raisedAmount?: string;
+  deadline: Timestamp;
+}
+
 const Dashboard = () => {
   const { theme } = useTheme();
   const { user, loading: authLoading } = useAuth();
@@ -22,6 +30,7 @@ const Dashboard = () => {
   const [memberSince, setMemberSince] = useState<string>("New Member");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tipGoals, setTipGoals] = useState<TipGoal[]>([]);
 
   const services = [
     {
@@ -183,23 +192,12 @@ const Dashboard = () => {
         try {
           console.log("[Dashboard] Getting platform stats...");
           
-          // Total Platform Members
-          const usersSnapshot = await getDocs(collection(db, "users"));
-          const totalUsers = usersSnapshot.size;
-          console.log("[Dashboard] Total users:", totalUsers);
-          setMemberCount(totalUsers);
-          
-          // Total Tips Given
-          const tipsSnapshot = await getDocs(
-            query(collection(db, "tips"), where("status", "==", "completed"))
-          );
-          let tipsTotal = 0;
-          tipsSnapshot.forEach(doc => {
-            const tip = doc.data();
-            tipsTotal += parseFloat(tip.amount || "0");
-          });
-          console.log("[Dashboard] Total tips:", tipsTotal);
-          setTotalTips(Math.round(tipsTotal));
+          // Kept current by the refreshPlatformStats scheduled function
+          const statsDoc = await getDoc(doc(db, "stats", "platform"));
+          const stats = statsDoc.data();
+          console.log("[Dashboard] Platform stats:", stats);
+          setMemberCount(stats?.memberCount || 0);
+          setTotalTips(Math.round(parseFloat(stats?.totalTips || "0")));
           
         } catch (statsError: any) {
           console.error("[Dashboard] Error getting platform stats:", statsError);
@@ -236,6 +234,30 @@ const Dashboard = () => {
     };
   }, [user, authLoading]);
 
+  // Goal totals are maintained server-side, so a listener is enough to keep the widget current
+  useEffect(() => {
+    if (!user) return;
+    const goalsQuery = query(
+      collection(db, "tipGoals"),
+      where("active", "==", true),
+      orderBy("deadline", "asc"),
+      limit(3)
+    );
+    const unsubscribe = onSnapshot(
+      goalsQuery,
+      (snapshot) => {
+        const now = Date.now();
+        setTipGoals(
+          snapshot.docs
+            .map((goalDoc) => ({ id: goalDoc.id, ...goalDoc.data() } as TipGoal))
+            .filter((goal) => goal.deadline.toMillis() > now)
+        );
+      },
+      (goalsError) => console.error("[Dashboard] Error loading funding goals:", goalsError)
+    );
+    return unsubscribe;
+  }, [user]);
+
   const getGreeting = () => {
     const hour = new Date().getHours();
     if (hour < 12) return "Good morning";
@@ -318,6 +340,53 @@ const Dashboard = () => {
           ))}
         </div>
 
+        {/* Funding Goals */}
+        {tipGoals.length > 0 && (
+          <div className={`mb-12 rounded-2xl p-6 backdrop-blur-xl ${
+            theme === "dark" 
+              ? "bg-white/5 border border-white/10" 
+              : "bg-white/70 border border-gray-200"
+          }`}>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Target size={20} className={theme === "dark" ? "text-green-400" : "text-green-600"} />
+                <h2 className={`text-lg font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+                  Funding Goals
+                </h2>
+              </div>
+              <button
+                onClick={() => window.open("/tipjar", "_blank")}
+                className="px-4 py-1.5 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-lg text-sm font-medium hover:shadow-lg transition-all"
+              >
+                Chip In
+              </button>
+            </div>
+            <div className="space-y-3">
+              {tipGoals.map((goal) => {
+                const raised = parseFloat(goal.raisedAmount || "0");
+                const target = parseFloat(goal.targetAmount) || 0;
+                const progress = target > 0 ? Math.min(100, (raised / target) * 100) : 0;
+                return (
+                  <div key={goal.id}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className={theme === "dark" ? "text-gray-300" : "text-gray-700"}>{goal.title}</span>
+                      <span className={theme === "dark" ? "text-gray-400" : "text-gray-600"}>
+                        ${Math.round(raised)} / ${Math.round(target)} by {goal.deadline.toDate().toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                      </span>
+                    </div>
+                    <div className={`h-2 rounded-full overflow-hidden ${theme === "dark" ? "bg-white/10" : "bg-gray-200"}`}>
+                      <div
+                        className="h-full rounded-full bg-gradient-to-r from-green-500 to-emerald-500 transition-all duration-500"
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Main Services */}
         <div className="mb-8">
           <h2 className={`text-2xl font-bold mb-6 ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
@@ -1,136 +1,194 @@
 import { useState, useEffect } from "react";
 import { useTheme } from "../context/theme-context";
 import { useAuth } from "../context/auth-context";
-import { collection, query, getDocs, where } from "firebase/firestore";
+import { collection, query, getDocs, getDoc, doc, where, orderBy, limit, startAfter, Timestamp } from "firebase/firestore";
 import { db } from "../config/firebase";
-import { Spinner, Trophy, Crown, Handshake, Coin, Star, Heart, Warning, Sparkle } from "phosphor-react";
+import { Spinner, Trophy, Crown, Handshake, Coin, Star, Heart, Warning, Sparkle, ChatCircleText } from "phosphor-react";
 import Pagination from "./Pagination"; // NEW IMPORT
 
+type LeaderboardType = "tippers" | "trades" | "tokens";
+type LeaderboardPeriod = "allTime" | "monthly" | "weekly";
+
 interface LeaderboardEntry {
   userId: string;
   username: string;
   value: number; // total tips (USD), total tokens traded, or token balance
+  rank: number;
+}
+
+interface LeaderboardSeason {
+  id: string;
+  name: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  closedAt?: Timestamp;
 }
 
+const PERIOD_OPTIONS: Array<{ value: LeaderboardPeriod; label: string }> = [
+  { value: "allTime", label: "All Time" },
+  { value: "monthly", label: "This Month" },
+  { value: "weekly", label: "This Week" },
+];
+
+interface TipShoutOut {
+  id: string;
+  username: string;
+  amount: string;
+  message: string;
+  createdAt: Date;
+}
+
+// Recent tips scanned for public messages; the feed has already dropped private and anonymous ones
+const SHOUT_OUT_SCAN_LIMIT = 25;
+const SHOUT_OUT_DISPLAY_LIMIT = 5;
+
 const Leaderboard = () => {
   const { theme } = useTheme();
   const { user: authUser } = useAuth();
-  const [type, setType] = useState<"tippers" | "trades" | "tokens">("tippers");
+  const [type, setType] = useState<LeaderboardType>("tippers");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("allTime");
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [entriesPerPage, setEntriesPerPage] = useState<number>(5);
   const [totalEntries, setTotalEntries] = useState<number>(0);
-  const [allEntries, setAllEntries] = useState<LeaderboardEntry[]>([]);
+  const [myRank, setMyRank] = useState<LeaderboardEntry | null>(null);
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [seasonId, setSeasonId] = useState<string>("");
+  const [shoutOuts, setShoutOuts] = useState<TipShoutOut[]>([]);
   // REMOVED: isMobile state and useEffect for mobile detection
 
-  // Fetch leaderboard data
+  // Token holders are ranked on current balances, so they only have an all-time board
+  const boardPeriod: LeaderboardPeriod = type === "tokens" ? "allTime" : period;
+  const boardId = seasonId ? `${type}_season_${seasonId}` : `${type}_${boardPeriod}`;
+  const selectedSeason = seasons.find((season) => season.id === seasonId) || null;
+
+  // Seasons that have started, newest first; each has its own boards alongside the rolling periods
   useEffect(() => {
-    const fetchLeaderboard = async () => {
+    const fetchSeasons = async () => {
+      if (!authUser) {
+        setSeasons([]);
+        return;
+      }
+
+      try {
+        const snapshot = await getDocs(query(collection(db, "leaderboardSeasons"), orderBy("startDate", "desc")));
+        const now = Date.now();
+        setSeasons(
+          snapshot.docs
+            .map((seasonDoc) => ({ id: seasonDoc.id, ...seasonDoc.data() } as LeaderboardSeason))
+            .filter((season) => season.startDate.toMillis() <= now)
+        );
+      } catch (err: unknown) {
+        console.error("[Leaderboard] Error loading seasons:", err);
+      }
+    };
+
+    fetchSeasons();
+  }, [authUser]);
+
+  // Fetch the board summary and the caller's own rank; rankings are computed by the refreshLeaderboards function
+  useEffect(() => {
+    const fetchBoard = async () => {
       if (!authUser) {
         setError("You must be logged in to view the leaderboard.");
-        setAllEntries([]);
         setTotalEntries(0);
-        setLoading(false);
+        setMyRank(null);
         return;
       }
 
-      setLoading(true);
       setError(null);
 
       try {
-        let entries: LeaderboardEntry[] = [];
-
-        if (type === "tippers") {
-          const tipsSnapshot = await getDocs(query(collection(db, "tips"), where("status", "==", "completed")));
-          const userTotals: { [key: string]: { username: string; total: number } } = {};
-
-          tipsSnapshot.forEach((doc) => {
-            const tip = doc.data();
-            const userId = tip.userId;
-            if (!userTotals[userId]) {
-              userTotals[userId] = { username: tip.username || "Anonymous", total: 0 };
-            }
-            userTotals[userId].total += parseFloat(tip.amount || "0");
-          });
+        const [boardDoc, rankDoc] = await Promise.all([
+          getDoc(doc(db, "leaderboards", boardId)),
+          getDoc(doc(db, "leaderboards", boardId, "ranks", authUser.uid)),
+        ]);
+        setTotalEntries(boardDoc.data()?.entryCount || 0);
+        setMyRank(rankDoc.exists() ? (rankDoc.data() as LeaderboardEntry) : null);
+      } catch (err: unknown) {
+        setError("Failed to load leaderboard. Please try again.");
+        console.error("[Leaderboard] Error:", err);
+      }
+    };
 
-          entries = Object.entries(userTotals)
-            .map(([userId, { username, total }]) => ({
-              userId,
-              username,
-              value: total,
-            }))
-            .sort((a, b) => b.value - a.value);
-        } else if (type === "trades") {
-          const tradesSnapshot = await getDocs(collection(db, "trades"));
-          const userTotals: { [key: string]: { username: string; total: number } } = {};
-
-          tradesSnapshot.forEach((doc) => {
-            const trade = doc.data();
-            const senderId = trade.senderId;
-            const receiverId = trade.receiverId;
-            const tokens = trade.tokens || 0;
-
-            if (!userTotals[senderId]) {
-              userTotals[senderId] = { username: trade.senderUsername || "Anonymous", total: 0 };
-            }
-            userTotals[senderId].total += tokens;
-
-            if (!userTotals[receiverId]) {
-              userTotals[receiverId] = { username: trade.receiverUsername || "Anonymous", total: 0 };
-            }
-            userTotals[receiverId].total += tokens;
-          });
+    fetchBoard();
+  }, [boardId, authUser]);
+
+  // Fetch one page of entries, using the rank as the cursor so any page can be loaded directly
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      if (!authUser) {
+        setLeaderboard([]);
+        return;
+      }
+
+      setLoading(true);
 
-          entries = Object.entries(userTotals)
-            .map(([userId, { username, total }]) => ({
-              userId,
-              username,
-              value: total,
-            }))
-            .sort((a, b) => b.value - a.value);
-        } else if (type === "tokens") {
-          const q = query(collection(db, "users"), where("tokenBalance", ">", 0));
-          const snapshot = await getDocs(q);
-          entries = snapshot.docs
-            .map((doc) => {
-              const data = doc.data();
-              return {
-                userId: doc.id,
-                username: data.username || "Anonymous",
-                value: data.tokenBalance || 0,
-              };
-            })
-            .sort((a, b) => b.value - a.value);
-        }
-
-        setAllEntries(entries);
-        setTotalEntries(entries.length);
-      } catch (err: any) {
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, "leaderboards", boardId, "entries"),
+          orderBy("rank", "asc"),
+          startAfter((currentPage - 1) * entriesPerPage),
+          limit(entriesPerPage)
+        ));
+        // A later page or board may have been picked while this one loaded
+        if (cancelled) return;
+        setLeaderboard(snapshot.docs.map((entryDoc) => entryDoc.data() as LeaderboardEntry));
+      } catch (err: unknown) {
         setError("Failed to load leaderboard. Please try again.");
         console.error("[Leaderboard] Error:", err);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
-    fetchLeaderboard();
-  }, [type, authUser]);
+    fetchPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, authUser, currentPage, entriesPerPage]);
 
-  // Paginate entries
+  // Fetch recent public tip messages
   useEffect(() => {
-    if (allEntries.length === 0) {
-      setLeaderboard([]);
-      return;
-    }
+    const fetchShoutOuts = async () => {
+      if (!authUser) {
+        setShoutOuts([]);
+        return;
+      }
+
+      try {
+        const tipsSnapshot = await getDocs(query(
+          collection(db, "tipFeed"),
+          where("status", "==", "completed"),
+          orderBy("createdAt", "desc"),
+          limit(SHOUT_OUT_SCAN_LIMIT)
+        ));
+
+        const recent: TipShoutOut[] = [];
+        tipsSnapshot.forEach((doc) => {
+          const tip = doc.data();
+          if (!tip.message) return;
+          recent.push({
+            id: doc.id,
+            username: tip.username || "Anonymous",
+            amount: tip.amount || "0.00",
+            message: tip.message,
+            createdAt: tip.createdAt?.toDate() ?? new Date(),
+          });
+        });
 
-    const startIndex = (currentPage - 1) * entriesPerPage;
-    const endIndex = Math.min(startIndex + entriesPerPage, allEntries.length);
-    const paginatedEntries = allEntries.slice(startIndex, endIndex);
+        setShoutOuts(recent.slice(0, SHOUT_OUT_DISPLAY_LIMIT));
+      } catch (err: unknown) {
+        console.error("[Leaderboard] Error loading tip messages:", err);
+      }
+    };
 
-    setLeaderboard(paginatedEntries);
-  }, [allEntries, currentPage, entriesPerPage]);
+    fetchShoutOuts();
+  }, [authUser]);
 
   // Update entries per page and reset to page 1
   const handleEntriesPerPageChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
@@ -142,8 +200,8 @@ const Leaderboard = () => {
   const totalPages = Math.ceil(totalEntries / entriesPerPage);
   // REMOVED: getPageNumbers() and handlePageChange() functions
 
-  const getRankIcon = (index: number, type: string) => {
-    const globalIndex = index + (currentPage - 1) * entriesPerPage;
+  const getRankIcon = (rank: number, type: string) => {
+    const globalIndex = rank - 1;
     if (globalIndex === 0) {
       return <Trophy size={24} className="text-white" weight="fill" />; // Gold trophy for #1
     } else if (globalIndex === 1) {
@@ -207,7 +265,10 @@ const Leaderboard = () => {
               ].map((option) => (
                 <button
                   key={option.value}
-                  onClick={() => setType(option.value as any)}
+                  onClick={() => {
+                    setType(option.value as LeaderboardType);
+                    setCurrentPage(1);
+                  }}
                   className={`px-6 py-3 rounded-2xl font-medium transition-all flex items-center gap-2 ${
                     type === option.value
                       ? `bg-gradient-to-r ${option.gradient} text-white shadow-lg transform scale-105`
@@ -222,6 +283,62 @@ const Leaderboard = () => {
               ))}
             </div>
           </div>
+          {seasons.length > 0 && (
+            <div className="flex items-center justify-center gap-3 mt-6">
+              <label className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                Season:
+              </label>
+              <select
+                value={seasonId}
+                onChange={(e) => {
+                  setSeasonId(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className={`px-3 py-1.5 rounded-lg text-sm ${
+                  theme === "dark" 
+                    ? "bg-gray-800/50 text-white border border-gray-700 focus:border-purple-500" 
+                    : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+                } focus:outline-none focus:ring-2 focus:ring-purple-500/20`}
+              >
+                <option value="">Rolling rankings</option>
+                {seasons.map((season) => (
+                  <option key={season.id} value={season.id}>
+                    {season.name}{season.closedAt ? "" : " (in progress)"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {selectedSeason && (
+            <p className={`text-center text-sm mt-3 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+              {selectedSeason.closedAt ? "Final standings" : "Live standings"} ·{" "}
+              {selectedSeason.startDate.toDate().toLocaleDateString()} – {selectedSeason.endDate.toDate().toLocaleDateString()}
+            </p>
+          )}
+          {type !== "tokens" && !selectedSeason && (
+            <div className="flex flex-wrap justify-center gap-2 mt-6">
+              {PERIOD_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => {
+                    setPeriod(option.value);
+                    setCurrentPage(1);
+                  }}
+                  className={`px-4 py-1.5 rounded-xl text-sm font-medium transition-all ${
+                    period === option.value
+                      ? theme === "dark"
+                        ? "bg-white/20 text-white"
+                        : "bg-gray-900 text-white"
+                      : theme === "dark"
+                        ? "bg-gray-800/50 text-gray-400 hover:bg-gray-700/50"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {error && (
@@ -283,6 +400,15 @@ const Leaderboard = () => {
             </div>
           </div>
 
+          {/* The caller's own standing, even when they're outside the public top entries */}
+          <div className={`mb-6 px-4 py-3 rounded-2xl text-sm ${
+            theme === "dark" ? "bg-gray-800/50 text-gray-300" : "bg-gray-100 text-gray-700"
+          }`}>
+            {myRank
+              ? `You're ranked #${myRank.rank} with ${type === "tippers" ? `$${myRank.value.toFixed(2)} donated` : `${myRank.value.toLocaleString()} tokens${type === "trades" ? " traded" : ""}`}.`
+              : "You're not on this leaderboard yet."}
+          </div>
+
           <div className="space-y-4">
             {loading ? (
               <div className="text-center py-12">
@@ -292,8 +418,8 @@ const Leaderboard = () => {
                 </p>
               </div>
             ) : leaderboard.length > 0 ? (
-              leaderboard.map((entry, index) => {
-                const globalRank = index + (currentPage - 1) * entriesPerPage;
+              leaderboard.map((entry) => {
+                const globalRank = entry.rank - 1;
                 return (
                   <div
                     key={entry.userId}
@@ -326,7 +452,7 @@ const Leaderboard = () => {
                           theme === "dark" ? "bg-gray-800" : "bg-gray-200"
                         }`}>
                           {globalRank < 3 ? (
-                            getRankIcon(index, type)
+                            getRankIcon(entry.rank, type)
                           ) : (
                             <span className={`text-lg font-bold ${
                               theme === "dark" ? "text-gray-400" : "text-gray-600"
@@ -411,6 +537,38 @@ const Leaderboard = () => {
             />
           )}
         </div>
+
+        {/* Recent tip messages */}
+        {type === "tippers" && shoutOuts.length > 0 && (
+          <div className={`mt-10 p-8 rounded-3xl backdrop-blur-xl ${
+            theme === "dark" 
+              ? "bg-white/5 border border-white/10" 
+              : "bg-white/70 border border-gray-200"
+          }`}>
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-3 rounded-2xl bg-gradient-to-br from-red-500 to-pink-500 shadow-lg">
+                <ChatCircleText size={24} className="text-white" />
+              </div>
+              <h2 className={`text-2xl font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+                Recent Shout-outs
+              </h2>
+            </div>
+            <div className="space-y-3">
+              {shoutOuts.map((shoutOut) => (
+                <div key={shoutOut.id} className={`p-4 rounded-2xl ${
+                  theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
+                }`}>
+                  <p className={`italic ${theme === "dark" ? "text-gray-200" : "text-gray-800"}`}>
+                    "{shoutOut.message}"
+                  </p>
+                  <p className={`text-sm mt-1 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                    {shoutOut.username} · <span className="text-red-400">${shoutOut.amount}</span> · {shoutOut.createdAt.toLocaleDateString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "../config/firebase";
 import { useAuth } from "../context/auth-context";
@@ -6,10 +6,10 @@ import {
   Info, Spinner, FilmSlate, Television, Users,
   Check, X, Rocket, Lightning, Warning, CheckCircle, Clock, 
   CreditCard, ArrowRight, Sparkle, Gift,
-  Headphones, Monitor, CloudArrowDown, Coins
+  Headphones, Monitor, CloudArrowDown, Coins, Pause, Play, ArrowCounterClockwise
 } from "phosphor-react";
 import { getFunctions, httpsCallable } from "firebase/functions";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useTheme } from "../context/theme-context";
 
 interface ProcessSubscriptionResponse {
@@ -24,21 +24,50 @@ interface CheckSubscriptionStatusResponse {
     subscriptionId: string;
     planId: string;
     billingPeriod: string;
+    duration: number;
     startDate: string;
     endDate: string;
     status: string;
     autoRenew: boolean;
+    renewalMethod: "tokens" | "paypal";
+    paypalSubscriptionStatus: string | null;
     daysRemaining: number;
     movieRequestsUsed?: number;
     tvRequestsUsed?: number;
     lastResetDate?: string;
+    scheduledDowngrade: { planId: string; billingPeriod: BillingPeriod; effectiveDate: string } | null;
+    pausedUntil: string | null;
+    pauseDaysAvailable: number;
+    cancellationReason: CancellationReason | null;
+    graceEndsAt: string | null;
   };
 }
 
+interface ReactivateSubscriptionResponse {
+  success: boolean;
+  subscriptionId: string;
+  endDate: string;
+  tokenCost: number;
+}
+
+interface SetRenewalMethodResponse {
+  success: boolean;
+  renewalMethod: "tokens" | "paypal";
+  approvalUrl?: string;
+}
+
+interface ScheduleDowngradeResponse {
+  success: boolean;
+  planId: string;
+  billingPeriod: BillingPeriod;
+  effectiveDate: string;
+}
+
 interface SubscriptionPlan {
   id: string;
   name: string;
   monthlyTokens: number;
+  yearlyTokens: number;
   features: {
     streams: number;
     downloads: boolean;
@@ -52,55 +81,52 @@ interface SubscriptionPlan {
   gradient: string;
 }
 
-const subscriptionPlans: SubscriptionPlan[] = [
-  {
-    id: "basic",
-    name: "Basic",
-    monthlyTokens: 70,
-    features: {
-      streams: 1,
-      downloads: true,
-      movieRequests: 1,
-      tvRequests: 1,
-      support: "standard",
-    },
-    icon: <Monitor size={24} />,
-    color: "gray",
-    gradient: "from-gray-500 to-gray-600",
-  },
-  {
-    id: "duo",
-    name: "Duo",
-    monthlyTokens: 120,
-    features: {
-      streams: 2,
-      downloads: true,
-      movieRequests: 2,
-      tvRequests: 2,
-      support: "standard",
-    },
-    icon: <Users size={24} />,
-    color: "blue",
-    gradient: "from-blue-500 to-purple-500",
-    popular: true,
-  },
-  {
-    id: "family",
-    name: "Family",
-    monthlyTokens: 200,
-    features: {
-      streams: 5,
-      downloads: true,
-      movieRequests: 5,
-      tvRequests: 5,
-      support: "priority",
-    },
-    icon: <Users size={24} />,
-    color: "purple",
-    gradient: "from-purple-500 to-pink-500",
-  },
+interface GetSubscriptionPlansResponse {
+  plans: Array<{
+    id: string;
+    name: string;
+    monthly: number;
+    yearly: number;
+    streamLimit: number;
+    downloads: boolean;
+    movieRequests: number;
+    tvRequests: number;
+    support: "standard" | "priority";
+    displayOrder: number;
+    popular?: boolean;
+  }>;
+  yearlyDiscountPercent: number;
+}
+
+type BillingPeriod = "monthly" | "yearly";
+
+type CancellationReason = "too_expensive" | "not_using" | "missing_content" | "technical_issues" | "switching_service" | "other";
+
+const CANCELLATION_REASONS: { value: CancellationReason; label: string }[] = [
+  { value: "too_expensive", label: "It costs too much" },
+  { value: "not_using", label: "I'm not watching enough" },
+  { value: "missing_content", label: "Shows or movies I want are missing" },
+  { value: "technical_issues", label: "Streaming or playback problems" },
+  { value: "switching_service", label: "I'm moving to another service" },
+  { value: "other", label: "Something else" },
 ];
 
+// Pause lengths offered to members; whatever their period has left is added when shorter
+const PAUSE_LENGTH_OPTIONS = [7, 14, 30, 60];
+
+const getPlanPrice = (plan: SubscriptionPlan | undefined, billingPeriod: BillingPeriod) => {
+  if (!plan) return 0;
+  return billingPeriod === "yearly" ? plan.yearlyTokens : plan.monthlyTokens;
+};
+
+// How each plan card looks; the plans themselves come from the getSubscriptionPlans catalog
+const PLAN_STYLES: { [planId: string]: Pick<SubscriptionPlan, "icon" | "color" | "gradient"> } = {
+  basic: { icon: <Monitor size={24} />, color: "gray", gradient: "from-gray-500 to-gray-600" },
+  duo: { icon: <Users size={24} />, color: "blue", gradient: "from-blue-500 to-purple-500" },
+  family: { icon: <Users size={24} />, color: "purple", gradient: "from-purple-500 to-pink-500" },
+};
+const DEFAULT_PLAN_STYLE = PLAN_STYLES.basic;
+
 const boosterPacks = [
   {
     id: "movie-booster-5",
@@ -163,6 +189,20 @@ const MediaDashboard = () => {
   const [purchasingBooster, setPurchasingBooster] = useState<string | null>(null);
   const [autoRenewEnabled, setAutoRenewEnabled] = useState(false);
   const [togglingAutoRenew, setTogglingAutoRenew] = useState(false);
+  const [changingRenewalMethod, setChangingRenewalMethod] = useState(false);
+  const [renewalNotice, setRenewalNotice] = useState<string | null>(null);
+  const [cancellingDowngrade, setCancellingDowngrade] = useState(false);
+  const [pauseDays, setPauseDays] = useState(PAUSE_LENGTH_OPTIONS[0]);
+  const [changingPause, setChangingPause] = useState(false);
+  const [showCancelForm, setShowCancelForm] = useState(false);
+  const [cancelReason, setCancelReason] = useState<CancellationReason | "">("");
+  const [cancelComment, setCancelComment] = useState("");
+  const [cancelling, setCancelling] = useState(false);
+  const [reactivating, setReactivating] = useState(false);
+  const [subscriptionPlans, setSubscriptionPlans] = useState<SubscriptionPlan[]>([]);
+  const [billingPeriod, setBillingPeriod] = useState<BillingPeriod>("monthly");
+  const [yearlyDiscountPercent, setYearlyDiscountPercent] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
   const functions = getFunctions();
 
   const [quotaData, setQuotaData] = useState<{
@@ -174,11 +214,13 @@ const MediaDashboard = () => {
     tvUsed: number;
     tvRemaining: number;
     tvDaysToReset: number;
+    movieBoost?: number;
+    tvBoost?: number;
   } | null>(null);
   const [quotaLoading, setQuotaLoading] = useState(false);
 
   // Check subscription status
-  const checkSubscriptionStatus = async () => {
+  const checkSubscriptionStatus = useCallback(async () => {
     if (!user) return;
     
     try {
@@ -191,6 +233,10 @@ const MediaDashboard = () => {
       if (result.data.hasActiveSubscription && result.data.subscription) {
         setActiveSubscription(result.data.subscription);
         setCurrentPlan(result.data.subscription.planId);
+        // Yearly members can only move to other yearly plans, so start them on that view
+        if (result.data.subscription.billingPeriod === "yearly") {
+          setBillingPeriod("yearly");
+        }
       } else {
         setActiveSubscription(null);
         setCurrentPlan(null);
@@ -198,7 +244,7 @@ const MediaDashboard = () => {
     } catch (err) {
       console.error("Error checking subscription status:", err);
     }
-  };
+  }, [user, functions]);
 
   // Toggle auto-renewal
   const handleToggleAutoRenew = async () => {
@@ -225,6 +271,192 @@ const MediaDashboard = () => {
     }
   };
 
+  // Switch between token and PayPal renewal. PayPal needs the member to approve on paypal.com first.
+  const handleSetRenewalMethod = async (method: "tokens" | "paypal") => {
+    if (!user || !activeSubscription) return;
+
+    setChangingRenewalMethod(true);
+    setError(null);
+    setRenewalNotice(null);
+
+    try {
+      const setRenewalMethod = httpsCallable<unknown, SetRenewalMethodResponse>(functions, "setRenewalMethod");
+      const result = await setRenewalMethod({ userId: user.uid, method });
+
+      if (result.data.approvalUrl) {
+        window.location.href = result.data.approvalUrl;
+        return;
+      }
+
+      setRenewalNotice("Your subscription will now renew with tokens.");
+      await checkSubscriptionStatus();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to change renewal method");
+      console.error("Set renewal method error:", err);
+    } finally {
+      setChangingRenewalMethod(false);
+    }
+  };
+
+  // Drop a downgrade scheduled for the end of the current period
+  const handleCancelScheduledDowngrade = async () => {
+    if (!user || !activeSubscription) return;
+
+    setCancellingDowngrade(true);
+    setError(null);
+
+    try {
+      const cancelScheduledDowngrade = httpsCallable(functions, "cancelScheduledDowngrade");
+      await cancelScheduledDowngrade({ userId: user.uid });
+      await checkSubscriptionStatus();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to cancel the scheduled downgrade");
+      console.error("Cancel scheduled downgrade error:", err);
+    } finally {
+      setCancellingDowngrade(false);
+    }
+  };
+
+  // Pausing turns off streaming and requests but keeps the days left on the subscription
+  const handleTogglePause = async () => {
+    if (!user || !activeSubscription) return;
+
+    setChangingPause(true);
+    setError(null);
+
+    try {
+      if (activeSubscription.status === "paused") {
+        const resumeSubscription = httpsCallable(functions, "resumeSubscription");
+        await resumeSubscription({ userId: user.uid });
+      } else {
+        const pauseSubscription = httpsCallable(functions, "pauseSubscription");
+        await pauseSubscription({
+          userId: user.uid,
+          days: Math.min(pauseDays, activeSubscription.pauseDaysAvailable),
+        });
+      }
+      await checkSubscriptionStatus();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update subscription");
+      console.error("Pause subscription error:", err);
+    } finally {
+      setChangingPause(false);
+    }
+  };
+
+  const handleCancelSubscription = async () => {
+    if (!user || !activeSubscription || !cancelReason) return;
+
+    setCancelling(true);
+    setError(null);
+
+    try {
+      const cancelSubscription = httpsCallable(functions, "cancelSubscription");
+      await cancelSubscription({
+        userId: user.uid,
+        reason: cancelReason,
+        comment: cancelComment.trim() || undefined,
+      });
+      setShowCancelForm(false);
+      setCancelReason("");
+      setCancelComment("");
+      await checkSubscriptionStatus();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to cancel subscription");
+      console.error("Cancel subscription error:", err);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Takes back a cancellation; during the grace period this charges for a new period
+  const handleReactivateSubscription = async () => {
+    if (!user || !activeSubscription) return;
+
+    setReactivating(true);
+    setError(null);
+
+    try {
+      const reactivateSubscription = httpsCallable<unknown, ReactivateSubscriptionResponse>(functions, "reactivateSubscription");
+      const result = await reactivateSubscription({ userId: user.uid });
+
+      if (result.data.tokenCost > 0) {
+        const userSnap = await getDoc(doc(db, `users/${user.uid}`));
+        if (userSnap.exists()) {
+          setTokenBalance(userSnap.data().tokenBalance || 0);
+        }
+      }
+      await checkSubscriptionStatus();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to reactivate subscription");
+      console.error("Reactivate subscription error:", err);
+    } finally {
+      setReactivating(false);
+    }
+  };
+
+  // Finish PayPal renewal setup when PayPal sends the member back here
+  useEffect(() => {
+    const paypalRenewal = searchParams.get("paypalRenewal");
+    if (!user || authLoading || !paypalRenewal) return;
+
+    const paypalSubscriptionId = searchParams.get("subscription_id");
+    setSearchParams({}, { replace: true });
+
+    if (paypalRenewal !== "approved" || !paypalSubscriptionId) {
+      setRenewalNotice("PayPal renewal setup was cancelled. Your subscription still renews with tokens.");
+      return;
+    }
+
+    const confirmRenewal = async () => {
+      setChangingRenewalMethod(true);
+      try {
+        const confirmPaypalRenewal = httpsCallable(functions, "confirmPaypalRenewal");
+        await confirmPaypalRenewal({ userId: user.uid, paypalSubscriptionId });
+        setRenewalNotice("PayPal renewal is set up. You'll be billed when your current period ends.");
+        await checkSubscriptionStatus();
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "Failed to confirm PayPal renewal");
+        console.error("Confirm PayPal renewal error:", err);
+      } finally {
+        setChangingRenewalMethod(false);
+      }
+    };
+
+    confirmRenewal();
+  }, [user, authLoading, searchParams, setSearchParams, functions, checkSubscriptionStatus]);
+
+  // Load the plan catalog, already sorted from lowest to highest tier
+  useEffect(() => {
+    const fetchSubscriptionPlans = async () => {
+      try {
+        const getSubscriptionPlans = httpsCallable<unknown, GetSubscriptionPlansResponse>(functions, "getSubscriptionPlans");
+        const result = await getSubscriptionPlans();
+        setSubscriptionPlans(result.data.plans.map((plan) => ({
+          id: plan.id,
+          name: plan.name,
+          monthlyTokens: plan.monthly,
+          yearlyTokens: plan.yearly,
+          features: {
+            streams: plan.streamLimit,
+            downloads: plan.downloads,
+            movieRequests: plan.movieRequests,
+            tvRequests: plan.tvRequests,
+            support: plan.support,
+          },
+          popular: plan.popular,
+          ...(PLAN_STYLES[plan.id] || DEFAULT_PLAN_STYLE),
+        })));
+        setYearlyDiscountPercent(result.data.yearlyDiscountPercent);
+      } catch (err: unknown) {
+        console.error("Error fetching subscription plans:", err);
+        setError("Failed to load subscription plans");
+      }
+    };
+
+    fetchSubscriptionPlans();
+  }, [functions]);
+
   useEffect(() => {
     if (!user || authLoading) return;
 
@@ -280,11 +512,25 @@ const MediaDashboard = () => {
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [activeSubscription, isLinked, quotaLoading]);
 
+  const currentBillingPeriod: BillingPeriod = activeSubscription?.billingPeriod === "yearly" ? "yearly" : "monthly";
+
+  // Moving up a tier, or moving the current plan from monthly onto yearly billing
+  const isPlanUpgrade = (planId: string) => {
+    if (!currentPlan) return false;
+    if (currentBillingPeriod === "yearly" && billingPeriod === "monthly") return false;
+    if (planId === currentPlan) return currentBillingPeriod === "monthly" && billingPeriod === "yearly";
+    return subscriptionPlans.findIndex(p => p.id === planId) > subscriptionPlans.findIndex(p => p.id === currentPlan);
+  };
+
+  // Everything else except the current plan and period waits for the end of the current period
+  const isPlanDowngrade = (planId: string) => {
+    if (!currentPlan || isPlanUpgrade(planId)) return false;
+    return planId !== currentPlan || billingPeriod !== currentBillingPeriod;
+  };
+
   const calculateTokenCost = () => {
     if (!selectedPlan) return 0;
-    const plan = subscriptionPlans.find((p) => p.id === selectedPlan);
-    if (!plan) return 0;
-    return plan.monthlyTokens;
+    return getPlanPrice(subscriptionPlans.find((p) => p.id === selectedPlan), billingPeriod);
   };
 
   const calculateProrate = () => {
@@ -301,7 +547,7 @@ const MediaDashboard = () => {
     const remainingDays = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
     const usedDays = totalDays - remainingDays;
     
-    const currentPlanTokens = currentPlanData.monthlyTokens;
+    const currentPlanTokens = getPlanPrice(currentPlanData, currentBillingPeriod) * (activeSubscription.duration || 1);
     const usedTokens = Math.floor((currentPlanTokens * usedDays) / totalDays);
     const unusedTokens = currentPlanTokens - usedTokens;
     
@@ -318,13 +564,8 @@ const MediaDashboard = () => {
       let tokenCost = calculateTokenCost();
       const proRateCredit = calculateProrate();
       
-      if (currentPlan && selectedPlan !== currentPlan && proRateCredit > 0) {
-        const currentPlanIndex = subscriptionPlans.findIndex(p => p.id === currentPlan);
-        const newPlanIndex = subscriptionPlans.findIndex(p => p.id === selectedPlan);
-        
-        if (newPlanIndex > currentPlanIndex) {
-          tokenCost = Math.max(0, tokenCost - proRateCredit);
-        }
+      if (isPlanUpgrade(selectedPlan) && proRateCredit > 0) {
+        tokenCost = Math.max(0, tokenCost - proRateCredit);
       }
       
       if (tokenBalance < tokenCost) {
@@ -339,7 +580,7 @@ const MediaDashboard = () => {
       const result = await processSubscription({
         userId: user.uid,
         planId: selectedPlan,
-        billingPeriod: "monthly", // ALWAYS MONTHLY NOW
+        billingPeriod,
         duration: 1,
         autoRenew: !activeSubscription ? autoRenewEnabled : activeSubscription.autoRenew,
       });
@@ -365,6 +606,30 @@ const MediaDashboard = () => {
     }
   };
 
+  const handleScheduleDowngrade = async () => {
+    if (!selectedPlan || !user) return;
+
+    setRedeeming(true);
+    setError(null);
+
+    try {
+      const scheduleDowngrade = httpsCallable<unknown, ScheduleDowngradeResponse>(functions, "scheduleDowngrade");
+      await scheduleDowngrade({
+        userId: user.uid,
+        planId: selectedPlan,
+        billingPeriod,
+      });
+
+      await checkSubscriptionStatus();
+      setSelectedPlan(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to schedule downgrade");
+      console.error("Schedule downgrade error:", err);
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
   const handlePurchaseBooster = async (boosterId: string) => {
     if (!user) return;
     
@@ -394,6 +659,7 @@ const MediaDashboard = () => {
         }
 
         await checkSubscriptionStatus();
+        await fetchQuotaData();
       }
     } catch (err: any) {
       setError(err.message || "Failed to purchase booster pack");
@@ -439,11 +705,23 @@ const MediaDashboard = () => {
 
   const tokenCost = calculateTokenCost();
   const proRateCredit = calculateProrate();
-  const finalCost = currentPlan && selectedPlan !== currentPlan && proRateCredit > 0 
+  const finalCost = selectedPlan && isPlanUpgrade(selectedPlan) && proRateCredit > 0 
     ? Math.max(0, tokenCost - proRateCredit) 
     : tokenCost;
+  const selectedPlanPrice = getPlanPrice(subscriptionPlans.find(p => p.id === selectedPlan), billingPeriod);
 
   const isCancelled = activeSubscription && !activeSubscription.autoRenew;
+  const isPaused = activeSubscription?.status === "paused";
+  const isInGrace = activeSubscription?.status === "grace";
+  const isCancellationPending = !!activeSubscription?.cancellationReason && !isInGrace;
+  const pauseDaysAvailable: number = activeSubscription?.pauseDaysAvailable || 0;
+  const pauseLengths = PAUSE_LENGTH_OPTIONS.filter(days => days <= pauseDaysAvailable);
+  if (pauseDaysAvailable > 0 && !pauseLengths.includes(pauseDaysAvailable)) {
+    pauseLengths.push(pauseDaysAvailable);
+  }
+  const renewsWithPaypal = activeSubscription?.renewalMethod === "paypal";
+  const currentPlanPrice = getPlanPrice(subscriptionPlans.find(p => p.id === currentPlan), currentBillingPeriod);
+  const cannotAffordRenewal = !renewsWithPaypal && tokenBalance < currentPlanPrice;
 
   return (
     <div className={`min-h-screen ${
@@ -586,7 +864,7 @@ const MediaDashboard = () => {
                                   <p className={`text-sm ${
                                     theme === "dark" ? "text-gray-400" : "text-gray-600"
                                   }`}>
-                                    Monthly subscription
+                                    {currentBillingPeriod === "yearly" ? "Yearly" : "Monthly"} subscription
                                   </p>
                                 </div>
                               </div>
@@ -618,7 +896,7 @@ const MediaDashboard = () => {
                                       : 'from-yellow-500 to-orange-500'
                                   } shadow-lg`}
                                   style={{
-                                    width: `${Math.max(5, (activeSubscription.daysRemaining / 30) * 100)}%`
+                                    width: `${Math.max(5, (activeSubscription.daysRemaining / (currentBillingPeriod === "yearly" ? 365 : 30)) * 100)}%`
                                   }}
                                 >
                                   <div className="absolute inset-0 bg-white/20 animate-pulse"></div>
@@ -626,60 +904,340 @@ const MediaDashboard = () => {
                               </div>
                             </div>
 
-                            {/* Auto-Renewal Toggle */}
-                            <div className={`flex items-center justify-between p-4 rounded-xl ${
-                              theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
-                            }`}>
-                              <div className="flex items-center gap-3">
-                                <div className={`p-2 rounded-lg ${
-                                  activeSubscription.autoRenew 
-                                    ? 'bg-green-500/20 text-green-400' 
-                                    : tokenBalance < subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens!
-                                      ? 'bg-red-500/20 text-red-400'
-                                      : 'bg-yellow-500/20 text-yellow-400'
+                            {/* Scheduled Downgrade */}
+                            {activeSubscription.scheduledDowngrade && (
+                              <div className="flex items-center justify-between gap-3 p-4 mb-3 rounded-xl bg-purple-500/10 border border-purple-500/20">
+                                <div className="flex items-center gap-3">
+                                  <Clock size={20} className="text-purple-400" />
+                                  <p className={`text-sm ${
+                                    theme === "dark" ? "text-gray-300" : "text-gray-700"
+                                  }`}>
+                                    Switching to {subscriptionPlans.find(p => p.id === activeSubscription.scheduledDowngrade.planId)?.name || activeSubscription.scheduledDowngrade.planId}
+                                    {" "}({activeSubscription.scheduledDowngrade.billingPeriod}) on {new Date(activeSubscription.scheduledDowngrade.effectiveDate).toLocaleDateString()}
+                                  </p>
+                                </div>
+                                <button
+                                  onClick={handleCancelScheduledDowngrade}
+                                  disabled={cancellingDowngrade}
+                                  className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                                    theme === "dark"
+                                      ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                                      : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                                  } ${cancellingDowngrade ? "opacity-50 cursor-not-allowed" : ""}`}
+                                >
+                                  {cancellingDowngrade ? <Spinner size={16} className="animate-spin" /> : "Keep Current Plan"}
+                                </button>
+                              </div>
+                            )}
+
+                            {isPaused ? (
+                              <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-blue-500/10 border border-blue-500/20">
+                                <div className="flex items-center gap-3">
+                                  <div className="p-2 rounded-lg bg-blue-500/20 text-blue-400">
+                                    <Pause size={20} />
+                                  </div>
+                                  <div>
+                                    <p className={`font-medium ${
+                                      theme === "dark" ? "text-white" : "text-gray-900"
+                                    }`}>Paused</p>
+                                    <p className={`text-xs ${
+                                      theme === "dark" ? "text-gray-400" : "text-gray-600"
+                                    }`}>
+                                      Resumes on {new Date(activeSubscription.pausedUntil).toLocaleDateString()}. Your {activeSubscription.daysRemaining} remaining days are kept.
+                                    </p>
+                                  </div>
+                                </div>
+                                <button
+                                  onClick={handleTogglePause}
+                                  disabled={changingPause}
+                                  className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg shadow-green-500/25 transition-all ${
+                                    changingPause ? "opacity-50 cursor-not-allowed" : ""
+                                  }`}
+                                >
+                                  {changingPause ? <Spinner size={16} className="animate-spin" /> : <Play size={16} />}
+                                  Resume Now
+                                </button>
+                              </div>
+                            ) : isInGrace ? (
+                              <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-orange-500/10 border border-orange-500/20">
+                                <div className="flex items-center gap-3">
+                                  <div className="p-2 rounded-lg bg-orange-500/20 text-orange-400">
+                                    <Warning size={20} />
+                                  </div>
+                                  <div>
+                                    <p className={`font-medium ${
+                                      theme === "dark" ? "text-white" : "text-gray-900"
+                                    }`}>Subscription ended</p>
+                                    <p className={`text-xs ${
+                                      theme === "dark" ? "text-gray-400" : "text-gray-600"
+                                    }`}>
+                                      Access stays on until {new Date(activeSubscription.graceEndsAt).toLocaleDateString()}.
+                                      Reactivate for {currentPlanPrice} tokens to pick up where you left off.
+                                    </p>
+                                  </div>
+                                </div>
+                                <button
+                                  onClick={handleReactivateSubscription}
+                                  disabled={reactivating || tokenBalance < currentPlanPrice}
+                                  className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg shadow-green-500/25 transition-all ${
+                                    reactivating || tokenBalance < currentPlanPrice ? "opacity-50 cursor-not-allowed" : ""
+                                  }`}
+                                >
+                                  {reactivating ? <Spinner size={16} className="animate-spin" /> : <ArrowCounterClockwise size={16} />}
+                                  {tokenBalance < currentPlanPrice ? "Insufficient Tokens" : "Reactivate"}
+                                </button>
+                              </div>
+                            ) : (
+                              <>
+                                {/* Pending Cancellation */}
+                                {isCancellationPending && (
+                                  <div className="flex items-center justify-between gap-3 p-4 mb-3 rounded-xl bg-orange-500/10 border border-orange-500/20">
+                                    <div className="flex items-center gap-3">
+                                      <Warning size={20} className="text-orange-400" />
+                                      <p className={`text-sm ${
+                                        theme === "dark" ? "text-gray-300" : "text-gray-700"
+                                      }`}>
+                                        Cancelled. You keep access until {new Date(activeSubscription.graceEndsAt).toLocaleDateString()}.
+                                      </p>
+                                    </div>
+                                    <button
+                                      onClick={handleReactivateSubscription}
+                                      disabled={reactivating}
+                                      className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg shadow-green-500/25 transition-all ${
+                                        reactivating ? "opacity-50 cursor-not-allowed" : ""
+                                      }`}
+                                    >
+                                      {reactivating ? <Spinner size={16} className="animate-spin" /> : <ArrowCounterClockwise size={16} />}
+                                      Reactivate
+                                    </button>
+                                  </div>
+                                )}
+
+                                {/* Auto-Renewal Toggle */}
+                                <div className={`flex items-center justify-between p-4 rounded-xl ${
+                                  theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
                                 }`}>
-                                  <CreditCard size={20} />
+                                  <div className="flex items-center gap-3">
+                                    <div className={`p-2 rounded-lg ${
+                                      activeSubscription.autoRenew 
+                                        ? 'bg-green-500/20 text-green-400' 
+                                        : cannotAffordRenewal
+                                          ? 'bg-red-500/20 text-red-400'
+                                          : 'bg-yellow-500/20 text-yellow-400'
+                                    }`}>
+                                      <CreditCard size={20} />
+                                    </div>
+                                    <div>
+                                      <p className={`font-medium ${
+                                        theme === "dark" ? "text-white" : "text-gray-900"
+                                      }`}>
+                                        {activeSubscription.autoRenew ? 'Auto-Renewal On' : 'Manual Renewal'}
+                                      </p>
+                                      <p className={`text-xs ${
+                                        theme === "dark" ? "text-gray-400" : "text-gray-600"
+                                      }`}>
+                                        {activeSubscription.autoRenew 
+                                          ? renewsWithPaypal ? 'Renews automatically via PayPal' : 'Renews automatically with tokens'
+                                          : cannotAffordRenewal 
+                                            ? `Need ${currentPlanPrice} tokens to enable`
+                                            : 'Renew manually before expiry'
+                                        }
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <button
+                                    onClick={handleToggleAutoRenew}
+                                    disabled={togglingAutoRenew || (!activeSubscription.autoRenew && cannotAffordRenewal)}
+                                    className={`relative px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                                      activeSubscription.autoRenew
+                                        ? theme === "dark"
+                                          ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                                          : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                                        : cannotAffordRenewal
+                                          ? theme === "dark"
+                                            ? "bg-gray-800 text-gray-500 cursor-not-allowed"
+                                            : "bg-gray-300 text-gray-500 cursor-not-allowed"
+                                          : "bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg shadow-green-500/25"
+                                    } ${togglingAutoRenew ? "opacity-50 cursor-not-allowed" : ""}`}
+                                  >
+                                    {togglingAutoRenew ? (
+                                      <Spinner size={16} className="animate-spin" />
+                                    ) : (
+                                      activeSubscription.autoRenew ? "Turn Off" : cannotAffordRenewal ? "Insufficient Tokens" : "Turn On"
+                                    )}
+                                  </button>
                                 </div>
-                                <div>
-                                  <p className={`font-medium ${
+
+                                {/* Renewal Method */}
+                                <div className={`mt-3 p-4 rounded-xl ${
+                                  theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
+                                }`}>
+                                  <p className={`text-sm font-medium mb-3 ${
                                     theme === "dark" ? "text-white" : "text-gray-900"
                                   }`}>
-                                    {activeSubscription.autoRenew ? 'Auto-Renewal On' : 'Manual Renewal'}
+                                    Renew with
                                   </p>
-                                  <p className={`text-xs ${
-                                    theme === "dark" ? "text-gray-400" : "text-gray-600"
+                                  <div className="grid grid-cols-2 gap-2">
+                                    {(["tokens", "paypal"] as const).map((method) => {
+                                      const isCurrent = (renewsWithPaypal ? "paypal" : "tokens") === method;
+                                      return (
+                                        <button
+                                          key={method}
+                                          onClick={() => handleSetRenewalMethod(method)}
+                                          disabled={changingRenewalMethod || isCurrent}
+                                          className={`flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                                            isCurrent
+                                              ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg shadow-purple-500/25"
+                                              : theme === "dark"
+                                                ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                                                : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                                          } ${changingRenewalMethod ? "opacity-50 cursor-not-allowed" : ""}`}
+                                        >
+                                          {changingRenewalMethod && !isCurrent ? (
+                                            <Spinner size={16} className="animate-spin" />
+                                          ) : method === "tokens" ? (
+                                            <Coins size={16} />
+                                          ) : (
+                                            <CreditCard size={16} />
+                                          )}
+                                          {method === "tokens" ? "Tokens" : "PayPal"}
+                                        </button>
+                                      );
+                                    })}
+                                  </div>
+                                  {renewsWithPaypal && activeSubscription.paypalSubscriptionStatus === "PAYMENT_FAILED" && (
+                                    <p className="text-xs text-red-400 mt-2">
+                                      Your last PayPal payment failed. PayPal will retry it; update your payment method on PayPal to keep your plan.
+                                    </p>
+                                  )}
+                                  {renewalNotice && (
+                                    <p className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                                      {renewalNotice}
+                                    </p>
+                                  )}
+                                </div>
+
+                                {/* Pause */}
+                                <div className={`mt-3 p-4 rounded-xl ${
+                                  theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
+                                }`}>
+                                  <p className={`text-sm font-medium mb-1 ${
+                                    theme === "dark" ? "text-white" : "text-gray-900"
                                   }`}>
-                                    {activeSubscription.autoRenew 
-                                      ? 'Renews automatically' 
-                                      : tokenBalance < subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens! 
-                                        ? `Need ${subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens} tokens to enable`
-                                        : 'Renew manually before expiry'
-                                    }
+                                    Pause subscription
+                                  </p>
+                                  <p className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                                    {pauseLengths.length > 0
+                                      ? "Streaming and requests stop while paused. The days you have left wait for you."
+                                      : "You have used all of this period's pause days."}
                                   </p>
+                                  {pauseLengths.length > 0 && (
+                                    <div className="flex gap-2">
+                                      <select
+                                        value={Math.min(pauseDays, pauseLengths[pauseLengths.length - 1])}
+                                        onChange={(e) => setPauseDays(Number(e.target.value))}
+                                        className={`flex-1 px-3 py-2 rounded-xl text-sm ${
+                                          theme === "dark"
+                                            ? "bg-gray-700 text-white border border-gray-600 focus:border-purple-500"
+                                            : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+                                        }`}
+                                      >
+                                        {pauseLengths.map((days) => (
+                                          <option key={days} value={days}>{days} days</option>
+                                        ))}
+                                      </select>
+                                      <button
+                                        onClick={handleTogglePause}
+                                        disabled={changingPause || renewsWithPaypal}
+                                        title={renewsWithPaypal ? "Switch renewal to tokens to pause" : undefined}
+                                        className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                                          theme === "dark"
+                                            ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                                            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                                        } ${changingPause || renewsWithPaypal ? "opacity-50 cursor-not-allowed" : ""}`}
+                                      >
+                                        {changingPause ? <Spinner size={16} className="animate-spin" /> : <Pause size={16} />}
+                                        Pause
+                                      </button>
+                                    </div>
+                                  )}
                                 </div>
-                              </div>
-                              <button
-                                onClick={handleToggleAutoRenew}
-                                disabled={togglingAutoRenew || (!activeSubscription.autoRenew && tokenBalance < subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens!)}
-                                className={`relative px-4 py-2 rounded-xl text-sm font-medium transition-all ${
-                                  activeSubscription.autoRenew
-                                    ? theme === "dark"
-                                      ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
-                                      : "bg-gray-200 hover:bg-gray-300 text-gray-700"
-                                    : tokenBalance < subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens!
-                                      ? theme === "dark"
-                                        ? "bg-gray-800 text-gray-500 cursor-not-allowed"
-                                        : "bg-gray-300 text-gray-500 cursor-not-allowed"
-                                      : "bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg shadow-green-500/25"
-                                } ${togglingAutoRenew ? "opacity-50 cursor-not-allowed" : ""}`}
-                              >
-                                {togglingAutoRenew ? (
-                                  <Spinner size={16} className="animate-spin" />
-                                ) : (
-                                  activeSubscription.autoRenew ? "Turn Off" : tokenBalance < subscriptionPlans.find(p => p.id === currentPlan)?.monthlyTokens! ? "Insufficient Tokens" : "Turn On"
+
+                                {/* Cancel */}
+                                {!isCancellationPending && (
+                                  <div className={`mt-3 p-4 rounded-xl ${
+                                    theme === "dark" ? "bg-gray-800/50" : "bg-gray-100"
+                                  }`}>
+                                    {showCancelForm ? (
+                                      <>
+                                        <p className={`text-sm font-medium mb-3 ${
+                                          theme === "dark" ? "text-white" : "text-gray-900"
+                                        }`}>
+                                          Why are you cancelling?
+                                        </p>
+                                        <select
+                                          value={cancelReason}
+                                          onChange={(e) => setCancelReason(e.target.value as CancellationReason | "")}
+                                          className={`w-full mb-2 px-3 py-2 rounded-xl text-sm ${
+                                            theme === "dark"
+                                              ? "bg-gray-700 text-white border border-gray-600 focus:border-purple-500"
+                                              : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+                                          }`}
+                                        >
+                                          <option value="">Choose a reason</option>
+                                          {CANCELLATION_REASONS.map((reason) => (
+                                            <option key={reason.value} value={reason.value}>{reason.label}</option>
+                                          ))}
+                                        </select>
+                                        <textarea
+                                          value={cancelComment}
+                                          onChange={(e) => setCancelComment(e.target.value)}
+                                          maxLength={500}
+                                          rows={2}
+                                          placeholder="Anything else we should know? (optional)"
+                                          className={`w-full mb-2 px-3 py-2 rounded-xl text-sm ${
+                                            theme === "dark"
+                                              ? "bg-gray-700 text-white border border-gray-600 focus:border-purple-500"
+                                              : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+                                          }`}
+                                        />
+                                        <p className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                                          You keep access until {new Date(activeSubscription.endDate).toLocaleDateString()}, plus a short grace period to change your mind.
+                                        </p>
+                                        <div className="flex gap-2">
+                                          <button
+                                            onClick={() => setShowCancelForm(false)}
+                                            className={`flex-1 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                                              theme === "dark"
+                                                ? "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                                                : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                                            }`}
+                                          >
+                                            Keep Subscription
+                                          </button>
+                                          <button
+                                            onClick={handleCancelSubscription}
+                                            disabled={cancelling || !cancelReason}
+                                            className={`flex-1 px-4 py-2 rounded-xl text-sm font-medium bg-red-500 hover:bg-red-600 text-white transition-all ${
+                                              cancelling || !cancelReason ? "opacity-50 cursor-not-allowed" : ""
+                                            }`}
+                                          >
+                                            {cancelling ? <Spinner size={16} className="animate-spin mx-auto" /> : "Confirm Cancellation"}
+                                          </button>
+                                        </div>
+                                      </>
+                                    ) : (
+                                      <button
+                                        onClick={() => setShowCancelForm(true)}
+                                        className="text-sm font-medium text-red-400 hover:text-red-300"
+                                      >
+                                        Cancel subscription
+                                      </button>
+                                    )}
+                                  </div>
                                 )}
-                              </button>
-                            </div>
+                              </>
+                            )}
                           </div>
 
                           {/* Refresh button */}
@@ -728,6 +1286,11 @@ const MediaDashboard = () => {
                                   }`}>
                                     of {quotaData.movieLimit} available
                                   </p>
+                                  {!!quotaData.movieBoost && (
+                                    <p className="text-xs mt-1 text-purple-400">
+                                      Includes +{quotaData.movieBoost} from boosters
+                                    </p>
+                                  )}
                                   {quotaData.movieDaysToReset > 0 && (
                                     <p className={`text-xs mt-1 ${
                                       theme === "dark" ? "text-gray-500" : "text-gray-500"
@@ -782,6 +1345,11 @@ const MediaDashboard = () => {
                                   }`}>
                                     of {quotaData.tvLimit} available
                                   </p>
+                                  {!!quotaData.tvBoost && (
+                                    <p className="text-xs mt-1 text-purple-400">
+                                      Includes +{quotaData.tvBoost} from boosters
+                                    </p>
+                                  )}
                                   {quotaData.tvDaysToReset > 0 && (
                                     <p className={`text-xs mt-1 ${
                                       theme === "dark" ? "text-gray-500" : "text-gray-500"
@@ -808,7 +1376,7 @@ const MediaDashboard = () => {
                           </div>
 
                           {/* Booster Packs Button */}
-                          {!isCancelled && (
+                          {!isCancelled && !isPaused && (
                             <button
                               onClick={() => setShowBoosterPacks(!showBoosterPacks)}
                               className={`w-full py-4 rounded-2xl transition-all flex items-center justify-center gap-3 border backdrop-blur-sm group ${
@@ -867,7 +1435,7 @@ const MediaDashboard = () => {
             </div>
 
             {/* Booster Packs Section */}
-            {showBoosterPacks && activeSubscription && !isCancelled && (
+            {showBoosterPacks && activeSubscription && !isCancelled && !isPaused && (
               <div className="mb-10">
                 <div className="flex items-center justify-between mb-6">
                   <h2 className={`text-2xl font-bold flex items-center gap-3 ${
@@ -936,7 +1504,7 @@ const MediaDashboard = () => {
             )}
 
             {/* Subscription Plans */}
-            {!isCancelled && (
+            {!isCancelled && !isPaused && (
               <div className="mb-10">
                 <div className="text-center mb-8">
                   <h2 className={`text-3xl font-bold mb-3 ${
@@ -945,10 +1513,36 @@ const MediaDashboard = () => {
                     {activeSubscription ? "Upgrade Your Experience" : "Choose Your Plan"}
                   </h2>
                   <p className={theme === "dark" ? "text-gray-400" : "text-gray-600"}>
-                    {activeSubscription ? "Switch to a better plan anytime" : "Start streaming thousands of titles"}
+                    {activeSubscription ? "Upgrade anytime, or downgrade when your current period ends" : "Start streaming thousands of titles"}
                   </p>
                 </div>
 
+                {/* Billing Period Toggle */}
+                <div className="flex justify-center mb-8">
+                  <div className={`inline-flex p-1 rounded-xl border ${
+                    theme === "dark" ? "bg-gray-800/80 border-white/10" : "bg-white border-gray-200"
+                  }`}>
+                    {(["monthly", "yearly"] as const).map((period) => (
+                      <button
+                        key={period}
+                        onClick={() => setBillingPeriod(period)}
+                        className={`px-5 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                          billingPeriod === period
+                            ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg"
+                            : theme === "dark" ? "text-gray-400 hover:text-white" : "text-gray-600 hover:text-gray-900"
+                        }`}
+                      >
+                        {period === "monthly" ? "Monthly" : "Yearly"}
+                        {period === "yearly" && yearlyDiscountPercent > 0 && (
+                          <span className={`ml-2 text-xs ${billingPeriod === period ? "text-white/80" : "text-green-400"}`}>
+                            Save {yearlyDiscountPercent}%
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Plans Grid */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
                   {subscriptionPlans.map((plan) => {
@@ -956,7 +1550,8 @@ const MediaDashboard = () => {
                     const thisPlanIndex = subscriptionPlans.findIndex(p => p.id === plan.id);
                     const isLowerTier = currentPlan && thisPlanIndex < currentPlanIndex;
                     const isCurrentPlan = currentPlan === plan.id;
-                    const isSelectable = !isCurrentPlan && !isLowerTier;
+                    const isSelectable = !currentPlan || isPlanUpgrade(plan.id) || isPlanDowngrade(plan.id);
+                    const yearlySavings = plan.monthlyTokens * 12 - plan.yearlyTokens;
 
                     return (
                       <div
@@ -1022,13 +1617,18 @@ const MediaDashboard = () => {
                             <p className={`text-3xl font-bold ${
                               theme === "dark" ? "text-white" : "text-gray-900"
                             }`}>
-                              {plan.monthlyTokens}
+                              {getPlanPrice(plan, billingPeriod)}
                             </p>
                             <p className={`text-sm ${
                               theme === "dark" ? "text-gray-400" : "text-gray-600"
                             }`}>
-                              tokens/month
+                              tokens/{billingPeriod === "yearly" ? "year" : "month"}
                             </p>
+                            {billingPeriod === "yearly" && yearlySavings > 0 && (
+                              <p className="text-xs font-medium text-green-400 mt-1">
+                                Save {yearlySavings} tokens a year
+                              </p>
+                            )}
                           </div>
                           
                           {/* Features */}
@@ -1047,12 +1647,14 @@ const MediaDashboard = () => {
                               <Monitor size={16} className={theme === "dark" ? "text-gray-400" : "text-gray-500"} />
                               <span>{plan.features.streams} simultaneous stream{plan.features.streams !== 1 ? "s" : ""}</span>
                             </li>
-                            <li className={`flex items-center gap-2 ${
-                              theme === "dark" ? "text-gray-300" : "text-gray-700"
-                            }`}>
-                              <CloudArrowDown size={16} className={theme === "dark" ? "text-gray-400" : "text-gray-500"} />
-                              <span>Offline downloads</span>
-                            </li>
+                            {plan.features.downloads && (
+                              <li className={`flex items-center gap-2 ${
+                                theme === "dark" ? "text-gray-300" : "text-gray-700"
+                              }`}>
+                                <CloudArrowDown size={16} className={theme === "dark" ? "text-gray-400" : "text-gray-500"} />
+                                <span>Offline downloads</span>
+                              </li>
+                            )}
                             <li className={`flex items-center gap-2 ${
                               theme === "dark" ? "text-gray-300" : "text-gray-700"
                             }`}>
@@ -1088,13 +1690,12 @@ const MediaDashboard = () => {
             )}
 
             {/* Subscription Confirmation */}
-            {selectedPlan && !isCancelled && (() => {
-              const currentPlanIndex = currentPlan ? subscriptionPlans.findIndex(p => p.id === currentPlan) : -1;
-              const selectedPlanIndex = subscriptionPlans.findIndex(p => p.id === selectedPlan);
-              const isUpgrade = currentPlan && selectedPlanIndex > currentPlanIndex;
+            {selectedPlan && !isCancelled && !isPaused && (() => {
+              const isUpgrade = isPlanUpgrade(selectedPlan);
+              const isDowngrade = isPlanDowngrade(selectedPlan);
               const isNewSubscription = !currentPlan;
               
-              if (!isNewSubscription && !isUpgrade) return null;
+              if (!isNewSubscription && !isUpgrade && !isDowngrade) return null;
               
               return (
                 <div className="max-w-2xl mx-auto">
@@ -1106,7 +1707,7 @@ const MediaDashboard = () => {
                     <div className="relative">
                       <h3 className={`text-2xl font-bold mb-6 text-center ${
                         theme === "dark" ? "text-white" : "text-gray-900"
-                      }`}>Confirm Your {isUpgrade ? "Upgrade" : "Subscription"}</h3>
+                      }`}>{isDowngrade ? "Schedule Your Downgrade" : `Confirm Your ${isUpgrade ? "Upgrade" : "Subscription"}`}</h3>
                       
                       {/* Selected Plan Summary */}
                       <div className={`mb-6 p-4 rounded-2xl backdrop-blur-sm border ${
@@ -1127,7 +1728,7 @@ const MediaDashboard = () => {
                               </p>
                               <p className={`text-sm ${
                                 theme === "dark" ? "text-gray-400" : "text-gray-600"
-                              }`}>Monthly billing</p>
+                              }`}>{billingPeriod === "yearly" ? "Yearly" : "Monthly"} billing</p>
                             </div>
                           </div>
                           <div className="text-right">
@@ -1158,6 +1759,25 @@ const MediaDashboard = () => {
                         </div>
                       )}
                       
+                      {/* Downgrade Timing */}
+                      {isDowngrade && (
+                        <div className={`mb-6 p-4 rounded-2xl backdrop-blur-sm border ${
+                          theme === "dark"
+                            ? "bg-white/5 border-white/10"
+                            : "bg-white border-gray-200"
+                        }`}>
+                          <div className="flex items-center gap-3">
+                            <Clock size={24} className="text-purple-400" />
+                            <p className={`text-sm ${
+                              theme === "dark" ? "text-gray-300" : "text-gray-700"
+                            }`}>
+                              Your current plan stays active until {new Date(activeSubscription.endDate).toLocaleDateString()}.
+                              The {finalCost} tokens are charged then, when the new plan starts.
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Auto-Renew Toggle for New Subscriptions */}
                       {!activeSubscription && (
                         <div className={`mb-6 p-4 rounded-2xl backdrop-blur-sm border ${
@@ -1168,7 +1788,7 @@ const MediaDashboard = () => {
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-3">
                               <div className={`p-2 rounded-lg ${
-                                tokenBalance < (subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens! * 2)
+                                tokenBalance < selectedPlanPrice * 2
                                   ? theme === "dark"
                                     ? "bg-red-500/20 text-red-400"
                                     : "bg-red-100 text-red-600"
@@ -1185,8 +1805,8 @@ const MediaDashboard = () => {
                                 <p className={`text-sm ${
                                   theme === "dark" ? "text-gray-400" : "text-gray-600"
                                 }`}>
-                                  {tokenBalance < (subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens! * 2)
-                                    ? `Disabled - Need ${subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens} more tokens`
+                                  {tokenBalance < selectedPlanPrice * 2
+                                    ? `Disabled - Need ${selectedPlanPrice} more tokens`
                                     : autoRenewEnabled ? "Renews automatically" : "Manual renewal required"
                                   }
                                 </p>
@@ -1194,16 +1814,16 @@ const MediaDashboard = () => {
                             </div>
                             <button
                               onClick={() => setAutoRenewEnabled(!autoRenewEnabled)}
-                              disabled={tokenBalance < (subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens! * 2)}
+                              disabled={tokenBalance < selectedPlanPrice * 2}
                               className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${
-                                tokenBalance < (subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens! * 2)
+                                tokenBalance < selectedPlanPrice * 2
                                   ? theme === "dark" ? 'bg-gray-700 cursor-not-allowed' : 'bg-gray-400 cursor-not-allowed'
                                   : autoRenewEnabled ? 'bg-purple-500' : theme === "dark" ? 'bg-gray-600' : 'bg-gray-300'
                               }`}
                             >
                               <span
                                 className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform shadow-lg ${
-                                  autoRenewEnabled && tokenBalance >= (subscriptionPlans.find(p => p.id === selectedPlan)?.monthlyTokens! * 2) ? 'translate-x-6' : 'translate-x-1'
+                                  autoRenewEnabled && tokenBalance >= selectedPlanPrice * 2 ? 'translate-x-6' : 'translate-x-1'
                                 }`}
                               />
                             </button>
@@ -1212,7 +1832,7 @@ const MediaDashboard = () => {
                       )}
                       
                       {/* Balance Check */}
-                      {tokenBalance < finalCost && (
+                      {tokenBalance < finalCost && !isDowngrade && (
                         <div className="mb-6 p-4 bg-red-500/10 rounded-2xl border border-red-500/20">
                           <p className="text-red-400 text-center">
                             You need {finalCost - tokenBalance} more tokens to complete this {isUpgrade ? "upgrade" : "subscription"}
@@ -1232,7 +1852,7 @@ const MediaDashboard = () => {
                         >
                           Cancel
                         </button>
-                        {tokenBalance < finalCost ? (
+                        {tokenBalance < finalCost && !isDowngrade ? (
                           <button
                             onClick={() => navigate("/store")}
                             className="flex-1 py-3 px-6 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white rounded-xl font-medium transition-all shadow-lg shadow-purple-500/25"
@@ -1241,7 +1861,7 @@ const MediaDashboard = () => {
                           </button>
                         ) : (
                           <button
-                            onClick={handleRedeemSubscription}
+                            onClick={isDowngrade ? handleScheduleDowngrade : handleRedeemSubscription}
                             disabled={redeeming}
                             className={`flex-1 py-3 px-6 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white rounded-xl font-medium transition-all shadow-lg shadow-purple-500/25 ${
                               redeeming ? "opacity-50 cursor-not-allowed" : ""
@@ -1251,6 +1871,8 @@ const MediaDashboard = () => {
                               <Spinner size={20} className="animate-spin mx-auto" />
                             ) : isUpgrade ? (
                               "Confirm Upgrade"
+                            ) : isDowngrade ? (
+                              "Schedule Downgrade"
                             ) : (
                               "Start Subscription"
                             )}
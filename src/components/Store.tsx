@@ -2,10 +2,10 @@ import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "../context/auth-context";
 import { useTheme } from "../context/theme-context";
 import { db, functions } from "../config/firebase";
-import { doc, getDoc, collection, getDocs, query, where, orderBy } from "firebase/firestore";
+import { doc, getDoc, collection, getDocs, query, where, orderBy, DocumentData, QueryDocumentSnapshot } from "firebase/firestore";
 import { httpsCallable } from "firebase/functions";
 import { PayPalButtons, usePayPalScriptReducer } from "@paypal/react-paypal-js";
-import { Spinner, Coin, CurrencyDollar, Handshake, Gift, Trophy, ArrowRight, Lightning, Star, Plus, Sparkle, Clock, CheckCircle, Copy } from "phosphor-react";
+import { Spinner, Coin, CurrencyDollar, Handshake, Gift, Trophy, ArrowRight, Lightning, Star, Plus, Sparkle, Clock, CheckCircle, Copy, Tag, Heart, Receipt, ArrowCounterClockwise, Scales } from "phosphor-react";
 import { debounce } from "lodash";
 import { v4 as uuidv4 } from "uuid";
 import { useNavigate } from "react-router-dom";
@@ -15,6 +15,7 @@ import Pagination from "./Pagination";
 interface ProcessTokenPurchaseResponse {
   success: boolean;
   orderId: string;
+  voucherCode?: string | null;
 }
 
 // Define the return type of the createPaypalOrder Cloud Function
@@ -22,9 +23,73 @@ interface CreatePaypalOrderResponse {
   orderId: string;
 }
 
+// Define a purchasable package from the token package catalog
+interface TokenPackage {
+  id: string;
+  tokens: number;
+  bonusTokens: number;
+  price: string;
+  currency: string;
+  displayOrder: number;
+  activeUntil: string | null;
+}
+
+// Define the return type of the getTokenPackages Cloud Function
+interface GetTokenPackagesResponse {
+  packages: TokenPackage[];
+}
+
+// Define the return type of the checkPromoCode Cloud Function
+interface CheckPromoCodeResponse {
+  promoCode: string;
+  type: "bonus" | "discount";
+  tokens: number;
+  bonusTokens: number;
+  promoBonusTokens: number;
+  amount: string;
+  discountAmount: string;
+}
+
+// Define the return type of the purchaseVoucher Cloud Function
+interface PurchaseVoucherResponse {
+  success: boolean;
+  code: string;
+  expiresAt: string;
+}
+
+// Define the return type of the redeemVoucher Cloud Function
+interface RedeemVoucherResponse {
+  success: boolean;
+  tokens: number;
+}
+
+// Define the return type of the getReceipt Cloud Function
+interface GetReceiptResponse {
+  receiptNumber: string;
+  filename: string;
+  html: string;
+}
+
 // Define the return type of the processTokenTrade Cloud Function
 interface ProcessTokenTradeResponse {
   success: boolean;
+  tradeId: string;
+  expiresAt: string;
+}
+
+interface TradeActionResponse {
+  success: boolean;
+  status: string;
+}
+
+interface PendingTrade {
+  id: string;
+  senderUsername: string;
+  receiverUsername: string;
+  tokens: number;
+  message: string | null;
+  createdAt: Date;
+  expiresAt: Date;
 }
 
 // Define the return type of the checkUsername Cloud Function
@@ -59,7 +124,9 @@ interface OnApproveActions {
 // Define a type for transactions
 interface Transaction {
   id: string;
-  type: "purchase" | "redemption" | "trade";
+  type: "purchase" | "redemption" | "trade" | "voucher" | "tip" | "refund" | "opening" | "reward";
+  reason?: string;
+  referenceId?: string | null;
   direction?: "sent" | "received";
   tokens?: number;
   amount?: string;
@@ -73,24 +140,95 @@ interface Transaction {
   senderUsername?: string;
   receiverId?: string;
   receiverUsername?: string;
+  promoCode?: string | null;
+  promoBonusTokens?: number;
+  discountAmount?: string;
+  voucherCode?: string | null;
+  message?: string | null;
+  isPrivate?: boolean;
+  anonymous?: boolean;
+  code?: string;
+  source?: string;
+  purchaserUsername?: string | null;
+  redeemedByUsername?: string | null;
+  seasonName?: string;
+  rank?: number;
 }
 
+const REFUNDED_PURCHASE_STATUSES = ["refunded", "reversed", "partially_refunded"];
+
+// Matches the server's limit on trade and tip notes
+const MESSAGE_MAX_LENGTH = 140;
+
+const LEDGER_TRANSACTION_TYPES: { [reason: string]: Transaction["type"] } = {
+  token_purchase: "purchase",
+  purchase_refund: "refund",
+  trade: "trade",
+  trade_escrow: "trade",
+  trade_release: "trade",
+  trade_return: "trade",
+  subscription: "redemption",
+  subscription_renewal: "redemption",
+  booster_pack: "redemption",
+  voucher_purchase: "voucher",
+  voucher_redemption: "voucher",
+  voucher_expiry: "voucher",
+  leaderboard_reward: "reward",
+  opening_balance: "opening",
+};
+
+// Turn one of the user's ledger entries into a history row; the details carry what the row displays
+const getLedgerTransaction = (id: string, entry: DocumentData): Transaction => {
+  const details = entry.details || {};
+  return {
+    ...details,
+    id,
+    type: LEDGER_TRANSACTION_TYPES[entry.reason] || "opening",
+    reason: entry.reason,
+    referenceId: entry.referenceId,
+    direction: entry.delta < 0 ? "sent" : "received",
+    tokens: entry.amount,
+    tokenCost: entry.amount,
+    createdAt: entry.createdAt?.toDate() ?? new Date(),
+  };
+};
+
 const Store = () => {
   const { user: authUser } = useAuth();
   const { theme } = useTheme();
   const navigate = useNavigate();
   const [{ isPending, isResolved, isRejected }] = usePayPalScriptReducer();
   const [tokenBalance, setTokenBalance] = useState<number>(0);
-  const [selectedTokenPackage, setSelectedTokenPackage] = useState<"70" | "120" | "200" | "300" | "1200" | "2500" | null>(null);
+  const [tokenPackages, setTokenPackages] = useState<TokenPackage[]>([]);
+  const [isLoadingPackages, setIsLoadingPackages] = useState<boolean>(true);
+  const [selectedTokenPackage, setSelectedTokenPackage] = useState<string | null>(null);
+  const [promoCodeInput, setPromoCodeInput] = useState<string>("");
+  const [appliedPromo, setAppliedPromo] = useState<CheckPromoCodeResponse | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState<boolean>(false);
   const [isCreatingOrder, setIsCreatingOrder] = useState<boolean>(false);
   const [tradeRecipientUsername, setTradeRecipientUsername] = useState<string>("");
   const [tradeRecipientExists, setTradeRecipientExists] = useState<boolean | null>(null);
   const [tradeAmount, setTradeAmount] = useState<string>("");
+  const [tradeNote, setTradeNote] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [transactionHistory, setTransactionHistory] = useState<Transaction[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(true);
   const [copiedCode, setCopiedCode] = useState(false);
+  const [giftVoucher, setGiftVoucher] = useState<boolean>(false);
+  const [voucherAmount, setVoucherAmount] = useState<string>("");
+  const [redeemCode, setRedeemCode] = useState<string>("");
+  const [voucherLoading, setVoucherLoading] = useState<boolean>(false);
+  const [voucherMessage, setVoucherMessage] = useState<string | null>(null);
+  const [issuedVoucherCode, setIssuedVoucherCode] = useState<string | null>(null);
+  const [copiedVoucherCode, setCopiedVoucherCode] = useState<string | null>(null);
+  const [loadingReceiptId, setLoadingReceiptId] = useState<string | null>(null);
+  const [tradeMessage, setTradeMessage] = useState<string | null>(null);
+  const [tradeError, setTradeError] = useState<string | null>(null);
+  const [incomingTrades, setIncomingTrades] = useState<PendingTrade[]>([]);
+  const [outgoingTrades, setOutgoingTrades] = useState<PendingTrade[]>([]);
+  const [tradeActionId, setTradeActionId] = useState<string | null>(null);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -138,6 +276,41 @@ const Store = () => {
     return () => checkRecipientUsername.cancel();
   }, [tradeRecipientUsername, checkRecipientUsername]);
 
+  // Fetch trades still waiting on the receiver, in both directions
+  const fetchPendingTrades = useCallback(async () => {
+    if (!authUser) return;
+
+    try {
+      const tradesRef = collection(db, "trades");
+      const [incoming, outgoing] = await Promise.all([
+        getDocs(query(tradesRef, where("receiverId", "==", authUser.uid), where("status", "==", "pending"), orderBy("createdAt", "desc"))),
+        getDocs(query(tradesRef, where("senderId", "==", authUser.uid), where("status", "==", "pending"), orderBy("createdAt", "desc"))),
+      ]);
+
+      const toPendingTrade = (doc: QueryDocumentSnapshot): PendingTrade => {
+        const docData = doc.data();
+        return {
+          id: doc.id,
+          senderUsername: docData.senderUsername || "user",
+          receiverUsername: docData.receiverUsername || "user",
+          tokens: docData.tokens || 0,
+          message: docData.message || null,
+          createdAt: docData.createdAt?.toDate() ?? new Date(),
+          expiresAt: docData.expiresAt?.toDate() ?? new Date(),
+        };
+      };
+
+      setIncomingTrades(incoming.docs.map(toPendingTrade));
+      setOutgoingTrades(outgoing.docs.map(toPendingTrade));
+    } catch (err: unknown) {
+      console.error("Error fetching pending trades:", err);
+    }
+  }, [authUser]);
+
+  useEffect(() => {
+    fetchPendingTrades();
+  }, [fetchPendingTrades]);
+
   // Fetch transaction history from Firestore
   const fetchTransactionHistory = async (direction: "next" | "prev" | "initial" = "initial") => {
     if (!authUser) {
@@ -151,58 +324,51 @@ const Store = () => {
 
     try {
       if (direction === "initial") {
+        const ledgerRef = collection(db, `ledger`);
         const tokenPurchasesRef = collection(db, `tokenPurchases`);
-        const redemptionsRef = collection(db, `redemptions`);
-        const tradesRef = collection(db, `trades`);
+        const vouchersRef = collection(db, `vouchers`);
+        const tipsRef = collection(db, `tips`);
 
-        const [totalPurchases, totalRedemptions, totalTradesSender, totalTradesReceiver] = await Promise.all([
+        const [ledgerEntries, totalPurchases, vouchersBought, totalTips] = await Promise.all([
+          getDocs(query(ledgerRef, where("userId", "==", authUser.uid), orderBy("createdAt", "desc"))),
           getDocs(query(tokenPurchasesRef, where("userId", "==", authUser.uid), orderBy("createdAt", "desc"))),
-          getDocs(query(redemptionsRef, where("userId", "==", authUser.uid), orderBy("createdAt", "desc"))),
-          getDocs(query(tradesRef, where("senderId", "==", authUser.uid), orderBy("createdAt", "desc"))),
-          getDocs(query(tradesRef, where("receiverId", "==", authUser.uid), orderBy("createdAt", "desc"))),
+          getDocs(query(vouchersRef, where("purchaserId", "==", authUser.uid), orderBy("createdAt", "desc"))),
+          getDocs(query(tipsRef, where("userId", "==", authUser.uid), orderBy("createdAt", "desc"))),
         ]);
 
-        const tradesSetForCount = new Set<string>();
-        let fetchedTransactions: Transaction[] = [];
+        // Token movements come from the ledger; purchases and vouchers only add their current status
+        const purchasesById = new Map(totalPurchases.docs.map(doc => [doc.id, doc.data()]));
+        const vouchersByCode = new Map(vouchersBought.docs.map(doc => [doc.id, doc.data()]));
+        const fetchedTransactions: Transaction[] = [];
 
-        totalPurchases.forEach(doc => {
-          const docData = doc.data();
-          const createdAt = docData.createdAt?.toDate() ?? new Date();
-          fetchedTransactions.push({ type: "purchase", ...docData, createdAt, id: doc.id });
+        ledgerEntries.forEach(doc => {
+          const tx = getLedgerTransaction(doc.id, doc.data());
+          if (tx.type === "purchase" && tx.referenceId) {
+            tx.status = purchasesById.get(tx.referenceId)?.status;
+          }
+          if (tx.reason === "voucher_purchase" && tx.code) {
+            const voucher = vouchersByCode.get(tx.code);
+            tx.status = voucher?.status;
+            tx.redeemedByUsername = voucher?.redeemedByUsername;
+          }
+          fetchedTransactions.push(tx);
         });
 
-        totalRedemptions.forEach(doc => {
+        // Gift vouchers bought with PayPal never touch the buyer's balance, so they have no ledger entry
+        totalPurchases.forEach(doc => {
           const docData = doc.data();
+          if (!docData.voucherCode) return;
           const createdAt = docData.createdAt?.toDate() ?? new Date();
-          fetchedTransactions.push({ type: "redemption", ...docData, createdAt, id: doc.id });
+          fetchedTransactions.push({ type: "purchase", ...docData, createdAt, id: doc.id });
         });
 
-        totalTradesSender.forEach(doc => {
+        totalTips.forEach(doc => {
           const docData = doc.data();
           const createdAt = docData.createdAt?.toDate() ?? new Date();
-          fetchedTransactions.push({ type: "trade", direction: "sent", ...docData, createdAt, id: doc.id });
-          tradesSetForCount.add(doc.id);
+          fetchedTransactions.push({ type: "tip", ...docData, createdAt, id: doc.id });
         });
 
-        totalTradesReceiver.forEach(doc => {
-          const docData = doc.data();
-          const createdAt = docData.createdAt?.toDate() ?? new Date();
-          if (docData.senderId === docData.receiverId) {
-            fetchedTransactions.push({ type: "trade", direction: "received", ...docData, createdAt, id: doc.id + "-received" });
-          } else if (!tradesSetForCount.has(doc.id)) {
-            fetchedTransactions.push({ type: "trade", direction: "received", ...docData, createdAt, id: doc.id });
-          }
-        });
-
-        // Sort all transactions
-        fetchedTransactions.sort((a, b) => {
-          const timeDiff = b.createdAt.getTime() - a.createdAt.getTime();
-          if (timeDiff !== 0) return timeDiff;
-          if (a.type === "trade" && b.type === "trade") {
-            return (a.direction === "received" ? -1 : 1) - (b.direction === "received" ? -1 : 1);
-          }
-          return 0;
-        });
+        fetchedTransactions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
         setAllTransactions(fetchedTransactions);
         setTotalTransactions(fetchedTransactions.length);
@@ -241,13 +407,60 @@ const Store = () => {
     setCurrentPage(1);
   };
 
-  const tokenPackages = {
-    "70": { amount: "7.00", currency: "USD", bonus: 0 },
-    "120": { amount: "12.00", currency: "USD", bonus: 0 },
-    "200": { amount: "20.00", currency: "USD", bonus: 0 },
-    "300": { amount: "30.00", currency: "USD", bonus: 0 },
-    "1200": { amount: "120.00", currency: "USD", bonus: 0 },
-    "2500": { amount: "250.00", currency: "USD", bonus: 0 },
+  // Load the token package catalog
+  useEffect(() => {
+    const fetchTokenPackages = async () => {
+      setIsLoadingPackages(true);
+      try {
+        const getTokenPackages = httpsCallable<unknown, GetTokenPackagesResponse>(functions, "getTokenPackages");
+        const result = await getTokenPackages();
+        setTokenPackages(result.data.packages);
+      } catch (err: unknown) {
+        console.error("Error fetching token packages:", err);
+        setError("Failed to load token packages");
+      } finally {
+        setIsLoadingPackages(false);
+      }
+    };
+
+    fetchTokenPackages();
+  }, []);
+
+  const selectedPackage = tokenPackages.find((pkg) => pkg.id === selectedTokenPackage) || null;
+
+  // Promo pricing is per package, so drop it when the selection changes
+  useEffect(() => {
+    setAppliedPromo(null);
+    setPromoError(null);
+  }, [selectedTokenPackage]);
+
+  const handleApplyPromoCode = async () => {
+    if (!selectedTokenPackage || !promoCodeInput.trim()) return;
+
+    setIsCheckingPromo(true);
+    setPromoError(null);
+
+    try {
+      const checkPromoCode = httpsCallable<unknown, CheckPromoCodeResponse>(functions, "checkPromoCode");
+      const result = await checkPromoCode({
+        packageId: selectedTokenPackage,
+        promoCode: promoCodeInput,
+      });
+      setAppliedPromo(result.data);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to apply promo code";
+      setAppliedPromo(null);
+      setPromoError(errorMessage);
+      console.error("Error checking promo code:", err);
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromoCode = () => {
+    setAppliedPromo(null);
+    setPromoCodeInput("");
+    setPromoError(null);
   };
 
   const handleCreateOrder = async (_data: any, actions: CustomCreateOrderActions) => {
@@ -262,15 +475,14 @@ const Store = () => {
     setError(null);
 
     try {
-      const tokenPackage = tokenPackages[selectedTokenPackage];
       const sessionId = uuidv4();
       const createPaypalOrder = httpsCallable<unknown, CreatePaypalOrderResponse>(functions, "createPaypalOrder");
       const result = await createPaypalOrder({
         userId: authUser.uid,
         sessionId,
-        tokens: parseInt(selectedTokenPackage),
-        amount: tokenPackage.amount,
-        currency: tokenPackage.currency,
+        packageId: selectedTokenPackage,
+        promoCode: appliedPromo?.promoCode,
+        giftVoucher,
       });
 
       if (!result.data.orderId) {
@@ -305,27 +517,29 @@ const Store = () => {
         throw new Error("Order ID or session ID missing");
       }
 
-      const tokenPackage = tokenPackages[selectedTokenPackage];
       const processTokenPurchase = httpsCallable<unknown, ProcessTokenPurchaseResponse>(functions, "processTokenPurchase");
       const result = await processTokenPurchase({
         userId: authUser.uid,
         orderId,
         sessionId,
-        tokens: parseInt(selectedTokenPackage),
-        amount: tokenPackage.amount,
-        currency: tokenPackage.currency,
       });
 
       if (!result.data.success) {
         throw new Error("Failed to process token purchase");
       }
 
+      if (result.data.voucherCode) {
+        setIssuedVoucherCode(result.data.voucherCode);
+      }
+
       await fetchTokenBalance();
       setCurrentPage(1);
       await fetchTransactionHistory("initial");
 
       setLoading(false);
       setSelectedTokenPackage(null);
+      setPromoCodeInput("");
+      setGiftVoucher(false);
       localStorage.removeItem("sessionId");
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : "Failed to complete token purchase";
@@ -348,7 +562,8 @@ const Store = () => {
     if (!tradeRecipientUsername || !tradeAmount || !authUser) return;
 
     setLoading(true);
-    setError(null);
+    setTradeError(null);
+    setTradeMessage(null);
 
     try {
       const tradeAmountNum = parseInt(tradeAmount);
@@ -365,28 +580,159 @@ const Store = () => {
         senderId: authUser.uid,
         receiverUsername: tradeRecipientUsername,
         tokens: tradeAmountNum,
+        message: tradeNote.trim() || undefined,
       });
 
       if (!result.data.success) {
         throw new Error("Failed to process token trade");
       }
 
+      setTradeMessage(
+        `${tradeAmountNum} tokens are on hold for ${tradeRecipientUsername} until they accept. ` +
+        `Unclaimed tokens come back to you on ${new Date(result.data.expiresAt).toLocaleDateString()}.`
+      );
       await fetchTokenBalance();
+      await fetchPendingTrades();
       setCurrentPage(1);
       await fetchTransactionHistory("initial");
 
       setLoading(false);
       setTradeRecipientUsername("");
       setTradeAmount("");
+      setTradeNote("");
       setTradeRecipientExists(null);
     } catch (err: unknown) {
+      // Limit, cooldown and self-trade errors from the server explain what the user can do next
       const errorMessage = err instanceof Error ? err.message : "Failed to trade tokens";
-      setError(errorMessage);
+      setTradeError(errorMessage);
       console.error(err);
       setLoading(false);
     }
   };
 
+  const handleTradeAction = async (tradeId: string, action: "accept" | "decline" | "cancel") => {
+    setTradeActionId(tradeId);
+    setError(null);
+    setTradeMessage(null);
+
+    try {
+      const result = action === "cancel"
+        ? await httpsCallable<unknown, TradeActionResponse>(functions, "cancelTrade")({ tradeId })
+        : await httpsCallable<unknown, TradeActionResponse>(functions, "respondToTrade")({ tradeId, action });
+
+      setTradeMessage(`Trade ${result.data.status}.`);
+      await fetchTokenBalance();
+      await fetchPendingTrades();
+      setCurrentPage(1);
+      await fetchTransactionHistory("initial");
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update trade";
+      setError(errorMessage);
+      console.error(err);
+      // The trade may have been answered or expired in the meantime
+      await fetchPendingTrades();
+    } finally {
+      setTradeActionId(null);
+    }
+  };
+
+  const handlePurchaseVoucher = async () => {
+    if (!voucherAmount || !authUser) return;
+
+    setVoucherLoading(true);
+    setError(null);
+    setVoucherMessage(null);
+
+    try {
+      const voucherTokens = parseInt(voucherAmount);
+      if (voucherTokens <= 0 || voucherTokens > tokenBalance) {
+        throw new Error("Invalid voucher amount or insufficient tokens");
+      }
+
+      const purchaseVoucher = httpsCallable<unknown, PurchaseVoucherResponse>(functions, "purchaseVoucher");
+      const result = await purchaseVoucher({ tokens: voucherTokens });
+
+      setIssuedVoucherCode(result.data.code);
+      setVoucherAmount("");
+
+      await fetchTokenBalance();
+      setCurrentPage(1);
+      await fetchTransactionHistory("initial");
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to buy gift voucher";
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setVoucherLoading(false);
+    }
+  };
+
+  const handleRedeemVoucher = async () => {
+    if (!redeemCode.trim() || !authUser) return;
+
+    setVoucherLoading(true);
+    setError(null);
+    setVoucherMessage(null);
+
+    try {
+      const redeemVoucher = httpsCallable<unknown, RedeemVoucherResponse>(functions, "redeemVoucher");
+      const result = await redeemVoucher({ code: redeemCode });
+
+      setVoucherMessage(`Redeemed ${result.data.tokens} tokens!`);
+      setRedeemCode("");
+
+      await fetchTokenBalance();
+      setCurrentPage(1);
+      await fetchTransactionHistory("initial");
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to redeem voucher";
+      setError(errorMessage);
+      console.error(err);
+    } finally {
+      setVoucherLoading(false);
+    }
+  };
+
+  const copyVoucherCode = (code: string) => {
+    navigator.clipboard.writeText(code);
+    setCopiedVoucherCode(code);
+    setTimeout(() => setCopiedVoucherCode(null), 2000);
+  };
+
+  const handleViewReceipt = async (tx: Transaction) => {
+    if (tx.type !== "purchase" && tx.type !== "redemption" && tx.type !== "tip") return;
+
+    // Open the window before awaiting so popup blockers treat it as part of the click
+    const receiptWindow = window.open("", "_blank");
+    setLoadingReceiptId(tx.id);
+    setError(null);
+
+    try {
+      const getReceipt = httpsCallable<unknown, GetReceiptResponse>(functions, "getReceipt");
+      const result = await getReceipt({ type: tx.type, id: tx.referenceId || tx.id });
+
+      if (receiptWindow) {
+        receiptWindow.document.open();
+        receiptWindow.document.write(result.data.html);
+        receiptWindow.document.close();
+      } else {
+        const url = URL.createObjectURL(new Blob([result.data.html], { type: "text/html" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = result.data.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (err: unknown) {
+      receiptWindow?.close();
+      const errorMessage = err instanceof Error ? err.message : "Failed to load receipt";
+      setError(errorMessage);
+      console.error("Error loading receipt:", err);
+    } finally {
+      setLoadingReceiptId(null);
+    }
+  };
+
   const totalPages = Math.ceil(totalTransactions / transactionsPerPage);
 
   const referralCode = authUser?.uid?.slice(0, 8).toUpperCase() || "N/A";
@@ -437,9 +783,16 @@ const Store = () => {
           <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"} mb-1`}>
             Current Balance
           </p>
-          <p className={`text-3xl font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+          <p className={`text-3xl font-bold ${
+            tokenBalance < 0 ? "text-red-500" : theme === "dark" ? "text-white" : "text-gray-900"
+          }`}>
             {tokenBalance.toLocaleString()}
           </p>
+          {tokenBalance < 0 && (
+            <p className="text-xs text-red-400 mt-2">
+              You owe {Math.abs(tokenBalance).toLocaleString()} tokens from a refunded purchase. New tokens pay this off first.
+            </p>
+          )}
         </div>
 
         {/* Quick Action: Media */}
@@ -514,14 +867,24 @@ const Store = () => {
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
-          {Object.entries(tokenPackages).map(([tokens, pkg]) => {
-            const isSelected = selectedTokenPackage === tokens;
-            const hasBonus = pkg.bonus > 0;
+          {isLoadingPackages && (
+            <div className="col-span-full text-center py-8">
+              <Spinner size={32} className="animate-spin mx-auto text-purple-400" />
+            </div>
+          )}
+          {!isLoadingPackages && tokenPackages.length === 0 && (
+            <p className={`col-span-full text-center py-8 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+              No token packages are available right now.
+            </p>
+          )}
+          {tokenPackages.map((pkg) => {
+            const isSelected = selectedTokenPackage === pkg.id;
+            const hasBonus = pkg.bonusTokens > 0;
             
             return (
               <div
-                key={tokens}
-                onClick={() => setSelectedTokenPackage(tokens as any)}
+                key={pkg.id}
+                onClick={() => setSelectedTokenPackage(pkg.id)}
                 className={`relative p-6 rounded-2xl cursor-pointer transition-all hover:scale-105 ${
                   isSelected
                     ? theme === "dark"
@@ -536,7 +899,7 @@ const Store = () => {
                   <div className="absolute -top-3 -right-3">
                     <div className="px-3 py-1 bg-gradient-to-r from-green-500 to-emerald-500 rounded-full text-xs font-bold text-white shadow-lg flex items-center gap-1">
                       <Star size={12} weight="fill" />
-                      {Math.round((pkg.bonus / parseInt(tokens)) * 100)}% Bonus
+                      {Math.round((pkg.bonusTokens / pkg.tokens) * 100)}% Bonus
                     </div>
                   </div>
                 )}
@@ -544,21 +907,26 @@ const Store = () => {
                 <div className="flex justify-between items-start mb-4">
                   <div>
                     <p className={`text-3xl font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
-                      {tokens}
+                      {pkg.tokens}
                     </p>
                     <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
                       tokens
                     </p>
                     {hasBonus && (
                       <p className="text-sm text-green-400 mt-1">
-                        +{pkg.bonus} bonus!
+                        +{pkg.bonusTokens} bonus!
+                      </p>
+                    )}
+                    {pkg.activeUntil && (
+                      <p className={`text-xs mt-1 ${theme === "dark" ? "text-yellow-400" : "text-yellow-600"}`}>
+                        Ends {new Date(pkg.activeUntil).toLocaleDateString()}
                       </p>
                     )}
                   </div>
                   <p className={`text-2xl font-bold ${
                     theme === "dark" ? "text-green-400" : "text-green-600"
                   }`}>
-                    ${pkg.amount}
+                    ${pkg.price}
                   </p>
                 </div>
                 
@@ -573,7 +941,7 @@ const Store = () => {
         </div>
 
         {/* PayPal Buttons */}
-        {selectedTokenPackage && (
+        {selectedPackage && (
           <div className="max-w-md mx-auto">
             {isPending && (
               <div className="text-center py-8">
@@ -601,9 +969,89 @@ const Store = () => {
                     You're purchasing
                   </p>
                   <p className={`text-2xl font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
-                    {selectedTokenPackage} tokens for ${tokenPackages[selectedTokenPackage].amount}
+                    {appliedPromo
+                      ? `${appliedPromo.tokens} tokens for $${appliedPromo.amount}`
+                      : `${selectedPackage.tokens + selectedPackage.bonusTokens} tokens for $${selectedPackage.price}`}
                   </p>
+                  {appliedPromo && (
+                    <p className="text-sm text-green-400 mt-1">
+                      {appliedPromo.type === "discount"
+                        ? `${appliedPromo.promoCode}: $${appliedPromo.discountAmount} off`
+                        : `${appliedPromo.promoCode}: +${appliedPromo.promoBonusTokens} bonus tokens`}
+                    </p>
+                  )}
                 </div>
+
+                <div>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Tag size={18} className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${
+                        theme === "dark" ? "text-gray-500" : "text-gray-400"
+                      }`} />
+                      <input
+                        type="text"
+                        value={promoCodeInput}
+                        onChange={(e) => {
+                          setPromoCodeInput(e.target.value.toUpperCase());
+                          setPromoError(null);
+                        }}
+                        placeholder="Promo code"
+                        className={`w-full pl-10 pr-4 py-3 rounded-xl uppercase ${
+                          theme === "dark" 
+                            ? "bg-gray-800/50 text-white border border-gray-700 focus:border-purple-500" 
+                            : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+                        } focus:outline-none focus:ring-2 focus:ring-purple-500/20 transition-all`}
+                        disabled={isCheckingPromo || !!appliedPromo || isCreatingOrder}
+                      />
+                    </div>
+                    {appliedPromo ? (
+                      <button
+                        onClick={handleRemovePromoCode}
+                        disabled={isCreatingOrder}
+                        className={`px-4 py-3 rounded-xl font-medium transition-all ${
+                          theme === "dark" 
+                            ? "bg-gray-800 text-gray-300 hover:bg-gray-700" 
+                            : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        }`}
+                      >
+                        Remove
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleApplyPromoCode}
+                        disabled={isCheckingPromo || !promoCodeInput.trim()}
+                        className={`px-4 py-3 rounded-xl font-medium transition-all ${
+                          isCheckingPromo || !promoCodeInput.trim()
+                            ? theme === "dark"
+                              ? "bg-gray-800 text-gray-500 cursor-not-allowed"
+                              : "bg-gray-200 text-gray-400 cursor-not-allowed"
+                            : "bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:shadow-lg"
+                        }`}
+                      >
+                        {isCheckingPromo ? <Spinner size={20} className="animate-spin" /> : "Apply"}
+                      </button>
+                    )}
+                  </div>
+                  {promoError && (
+                    <p className="text-red-400 text-sm mt-1">
+                      {promoError}
+                    </p>
+                  )}
+                </div>
+
+                <label className={`flex items-center gap-2 text-sm cursor-pointer ${
+                  theme === "dark" ? "text-gray-300" : "text-gray-700"
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={giftVoucher}
+                    onChange={(e) => setGiftVoucher(e.target.checked)}
+                    disabled={isCreatingOrder}
+                    className="rounded accent-purple-500"
+                  />
+                  <Gift size={16} />
+                  Buy as a gift voucher instead of adding to my balance
+                </label>
                 
                 <PayPalButtons
                   style={{
@@ -651,7 +1099,7 @@ const Store = () => {
               Trade Tokens
             </h2>
             <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
-              Send tokens to other users
+              Send tokens to other users; they stay on hold until the recipient accepts
             </p>
           </div>
         </div>
@@ -716,6 +1164,27 @@ const Store = () => {
               </p>
             )}
           </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${
+              theme === "dark" ? "text-gray-300" : "text-gray-700"
+            }`}>
+              Note (optional)
+            </label>
+            <input
+              type="text"
+              value={tradeNote}
+              onChange={(e) => setTradeNote(e.target.value)}
+              placeholder="e.g. for the pizza"
+              maxLength={MESSAGE_MAX_LENGTH}
+              className={`w-full px-4 py-3 rounded-xl ${
+                theme === "dark" 
+                  ? "bg-gray-800/50 text-white border border-gray-700 focus:border-purple-500" 
+                  : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+              } focus:outline-none focus:ring-2 focus:ring-purple-500/20 transition-all`}
+              disabled={loading}
+            />
+          </div>
           
           <button
             onClick={handleTradeTokens}
@@ -737,6 +1206,213 @@ const Store = () => {
               </>
             )}
           </button>
+          {tradeError && (
+            <p className="text-red-400 text-sm">
+              {tradeError}
+            </p>
+          )}
+          {tradeMessage && (
+            <p className="text-green-400 text-sm">
+              {tradeMessage}
+            </p>
+          )}
+        </div>
+
+        {(incomingTrades.length > 0 || outgoingTrades.length > 0) && (
+          <div className="max-w-md mx-auto mt-8 space-y-3">
+            <h3 className={`text-lg font-semibold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+              Pending Trades
+            </h3>
+            {[...incomingTrades.map((trade) => ({ trade, incoming: true })), ...outgoingTrades.map((trade) => ({ trade, incoming: false }))].map(({ trade, incoming }) => (
+              <div key={trade.id} className={`p-4 rounded-xl flex items-center justify-between gap-3 ${
+                theme === "dark" ? "bg-gray-800/50" : "bg-gray-50"
+              }`}>
+                <div>
+                  <p className={`font-medium ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+                    {incoming ? `${trade.senderUsername} sent you ${trade.tokens} tokens` : `${trade.tokens} tokens to ${trade.receiverUsername}`}
+                  </p>
+                  {trade.message && (
+                    <p className={`text-sm italic ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
+                      "{trade.message}"
+                    </p>
+                  )}
+                  <p className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                    {incoming ? "Expires" : "Returns to you"} {trade.expiresAt.toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "numeric"
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {tradeActionId === trade.id ? (
+                    <Spinner size={20} className="animate-spin text-purple-400" />
+                  ) : incoming ? (
+                    <>
+                      <button
+                        onClick={() => handleTradeAction(trade.id, "accept")}
+                        disabled={!!tradeActionId}
+                        className="py-1.5 px-3 rounded-lg text-sm font-medium bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:shadow-lg transition-all"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => handleTradeAction(trade.id, "decline")}
+                        disabled={!!tradeActionId}
+                        className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-all ${
+                          theme === "dark" ? "bg-gray-700 text-gray-300 hover:bg-gray-600" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        }`}
+                      >
+                        Decline
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => handleTradeAction(trade.id, "cancel")}
+                      disabled={!!tradeActionId}
+                      className={`py-1.5 px-3 rounded-lg text-sm font-medium transition-all ${
+                        theme === "dark" ? "bg-gray-700 text-gray-300 hover:bg-gray-600" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                      }`}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Gift Vouchers */}
+      <div className={`mb-12 p-8 rounded-3xl backdrop-blur-xl ${
+        theme === "dark" 
+          ? "bg-white/5 border border-white/10" 
+          : "bg-white/70 border border-gray-200"
+      }`}>
+        <div className="flex items-center gap-3 mb-8">
+          <div className="p-3 rounded-2xl bg-gradient-to-br from-green-500 to-emerald-500 shadow-lg">
+            <Gift size={28} className="text-white" />
+          </div>
+          <div>
+            <h2 className={`text-2xl font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+              Gift Vouchers
+            </h2>
+            <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+              Gift tokens to friends, even if they don't have an account yet
+            </p>
+          </div>
+        </div>
+
+        {issuedVoucherCode && (
+          <div className={`max-w-md mx-auto mb-6 p-4 rounded-xl text-center ${
+            theme === "dark" ? "bg-green-500/10 border border-green-500/30" : "bg-green-50 border border-green-200"
+          }`}>
+            <p className={`text-sm mb-2 ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
+              Your gift voucher is ready to share
+            </p>
+            <div className="flex items-center justify-center gap-2">
+              <code className={`font-mono text-lg font-bold ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+                {issuedVoucherCode}
+              </code>
+              <button
+                onClick={() => copyVoucherCode(issuedVoucherCode)}
+                className={`p-2 rounded-lg transition-all ${
+                  copiedVoucherCode === issuedVoucherCode
+                    ? "bg-green-500 text-white"
+                    : theme === "dark"
+                      ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                {copiedVoucherCode === issuedVoucherCode ? <CheckCircle size={20} /> : <Copy size={20} />}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <label className={`block text-sm font-medium ${
+              theme === "dark" ? "text-gray-300" : "text-gray-700"
+            }`}>
+              Redeem a Voucher
+            </label>
+            <input
+              type="text"
+              value={redeemCode}
+              onChange={(e) => setRedeemCode(e.target.value.toUpperCase())}
+              placeholder="GB-XXXX-XXXX-XXXX"
+              className={`w-full px-4 py-3 rounded-xl font-mono ${
+                theme === "dark" 
+                  ? "bg-gray-800/50 text-white border border-gray-700 focus:border-purple-500" 
+                  : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+              } focus:outline-none focus:ring-2 focus:ring-purple-500/20 transition-all`}
+              disabled={voucherLoading}
+            />
+            {voucherMessage && (
+              <p className="text-green-400 text-sm">
+                {voucherMessage}
+              </p>
+            )}
+            <button
+              onClick={handleRedeemVoucher}
+              disabled={voucherLoading || !redeemCode.trim()}
+              className={`w-full py-3 px-6 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+                voucherLoading || !redeemCode.trim()
+                  ? theme === "dark"
+                    ? "bg-gray-800 text-gray-500 cursor-not-allowed"
+                    : "bg-gray-200 text-gray-400 cursor-not-allowed"
+                  : "bg-gradient-to-r from-green-500 to-emerald-500 text-white hover:shadow-lg hover:scale-105"
+              }`}
+            >
+              {voucherLoading ? <Spinner size={20} className="animate-spin" /> : "Redeem"}
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <label className={`block text-sm font-medium ${
+              theme === "dark" ? "text-gray-300" : "text-gray-700"
+            }`}>
+              Buy a Voucher With Your Balance
+            </label>
+            <input
+              type="number"
+              value={voucherAmount}
+              onChange={(e) => setVoucherAmount(e.target.value)}
+              placeholder="Tokens"
+              className={`w-full px-4 py-3 rounded-xl ${
+                theme === "dark" 
+                  ? "bg-gray-800/50 text-white border border-gray-700 focus:border-purple-500" 
+                  : "bg-white text-gray-900 border border-gray-300 focus:border-purple-500"
+              } focus:outline-none focus:ring-2 focus:ring-purple-500/20 transition-all`}
+              disabled={voucherLoading}
+              min="10"
+              max={tokenBalance}
+            />
+            {voucherAmount && parseInt(voucherAmount) > tokenBalance && (
+              <p className="text-red-400 text-sm">
+                Insufficient balance
+              </p>
+            )}
+            <button
+              onClick={handlePurchaseVoucher}
+              disabled={voucherLoading || !voucherAmount || parseInt(voucherAmount) <= 0 || parseInt(voucherAmount) > tokenBalance}
+              className={`w-full py-3 px-6 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+                voucherLoading || !voucherAmount || parseInt(voucherAmount) <= 0 || parseInt(voucherAmount) > tokenBalance
+                  ? theme === "dark"
+                    ? "bg-gray-800 text-gray-500 cursor-not-allowed"
+                    : "bg-gray-200 text-gray-400 cursor-not-allowed"
+                  : "bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:shadow-lg hover:scale-105"
+              }`}
+            >
+              {voucherLoading ? <Spinner size={20} className="animate-spin" /> : "Create Voucher"}
+            </button>
+            <p className={`text-xs ${theme === "dark" ? "text-gray-500" : "text-gray-500"}`}>
+              Vouchers expire after a year. Unredeemed tokens are returned to you.
+            </p>
+          </div>
         </div>
       </div>
 
@@ -850,59 +1526,136 @@ const Store = () => {
               </p>
             </div>
           ) : transactionHistory.length > 0 ? (
-            transactionHistory.map((tx) => (
-              <div key={tx.id} className={`p-4 rounded-xl transition-all hover:scale-[1.02] ${
-                theme === "dark" 
-                  ? "bg-gray-800/50 hover:bg-gray-800/70" 
-                  : "bg-gray-50 hover:bg-gray-100"
-              }`}>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-lg ${
-                      tx.type === "purchase" 
-                        ? "bg-green-500/20 text-green-500"
-                        : tx.type === "redemption"
-                          ? "bg-purple-500/20 text-purple-500"
-                          : tx.direction === "sent"
-                            ? "bg-red-500/20 text-red-500"
-                            : "bg-blue-500/20 text-blue-500"
-                    }`}>
-                      {tx.type === "purchase" && <Plus size={20} weight="bold" />}
-                      {tx.type === "redemption" && <CurrencyDollar size={20} />}
-                      {tx.type === "trade" && <Handshake size={20} />}
+            transactionHistory.map((tx) => {
+              const isRefunded = tx.type === "purchase" && REFUNDED_PURCHASE_STATUSES.includes(tx.status || "");
+
+              return (
+                <div key={tx.id} className={`p-4 rounded-xl transition-all hover:scale-[1.02] ${
+                  theme === "dark" 
+                    ? "bg-gray-800/50 hover:bg-gray-800/70" 
+                    : "bg-gray-50 hover:bg-gray-100"
+                }`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className={`p-2 rounded-lg ${
+                        isRefunded
+                          ? "bg-gray-500/20 text-gray-500"
+                          : tx.type === "purchase" || tx.type === "reward" || (tx.type === "voucher" && tx.direction === "received")
+                            ? "bg-green-500/20 text-green-500"
+                            : tx.type === "redemption"
+                              ? "bg-purple-500/20 text-purple-500"
+                              : tx.type === "tip"
+                                ? "bg-pink-500/20 text-pink-500"
+                                : tx.direction === "sent"
+                                  ? "bg-red-500/20 text-red-500"
+                                  : "bg-blue-500/20 text-blue-500"
+                      }`}>
+                        {tx.type === "purchase" && <Plus size={20} weight="bold" />}
+                        {tx.type === "redemption" && <CurrencyDollar size={20} />}
+                        {tx.type === "trade" && <Handshake size={20} />}
+                        {tx.type === "voucher" && <Gift size={20} />}
+                        {tx.type === "tip" && <Heart size={20} />}
+                        {tx.type === "refund" && <ArrowCounterClockwise size={20} />}
+                        {tx.type === "opening" && <Scales size={20} />}
+                        {tx.type === "reward" && <Trophy size={20} />}
+                      </div>
+                      <div>
+                        <p className={`font-medium flex items-center gap-2 ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
+                          {tx.type === "purchase" && !tx.voucherCode && `Purchased ${tx.tokens} tokens`}
+                          {tx.type === "purchase" && tx.voucherCode && `Bought ${tx.tokens}-token gift voucher`}
+                          {isRefunded && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-400 font-medium">
+                              {tx.status === "reversed" ? "Reversed" : tx.status === "partially_refunded" ? "Partially refunded" : "Refunded"}
+                            </span>
+                          )}
+                          {tx.type === "redemption" && tx.productType === "boosterPack" && `Purchased ${tx.productId} booster`}
+                          {tx.type === "redemption" && tx.productType !== "boosterPack" && `Subscribed to ${tx.productId} plan`}
+                          {tx.type === "trade" && tx.direction === "sent" && `Sent to ${tx.receiverUsername || "user"}`}
+                          {tx.type === "trade" && tx.direction === "received" && tx.reason !== "trade_return" && `Received from ${tx.senderUsername || "user"}`}
+                          {tx.reason === "trade_return" && `Trade to ${tx.receiverUsername || "user"} ${tx.status || "returned"}, tokens returned`}
+                          {tx.type === "voucher" && tx.direction === "sent" && `Bought ${tx.tokens}-token gift voucher`}
+                          {tx.reason === "voucher_redemption" && `Redeemed voucher from ${tx.purchaserUsername || "Gondola Bros"}`}
+                          {tx.reason === "voucher_expiry" && "Gift voucher expired, tokens returned"}
+                          {tx.type === "tip" && (tx.anonymous ? "Tipped Gondola Bros anonymously" : "Tipped Gondola Bros")}
+                          {tx.type === "refund" && "Tokens removed for refunded purchase"}
+                          {tx.type === "opening" && "Opening balance"}
+                          {tx.type === "reward" && `${tx.seasonName || "Season"} reward for rank #${tx.rank}`}
+                        </p>
+                        <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                          {tx.createdAt.toLocaleString("en-US", { 
+                            month: "short", 
+                            day: "numeric", 
+                            hour: "numeric", 
+                            minute: "numeric" 
+                          })}
+                        </p>
+                        {(tx.voucherCode || (tx.type === "voucher" && tx.direction === "sent")) && (
+                          <p className={`text-xs flex items-center gap-1 mt-0.5 ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
+                            <code className="font-mono">{tx.voucherCode || tx.code}</code>
+                            <button
+                              onClick={() => copyVoucherCode((tx.voucherCode || tx.code)!)}
+                              className="hover:text-purple-400 transition-colors"
+                            >
+                              {copiedVoucherCode === (tx.voucherCode || tx.code) ? <CheckCircle size={12} /> : <Copy size={12} />}
+                            </button>
+                            {tx.type === "voucher" && tx.status === "redeemed" && ` · Redeemed by ${tx.redeemedByUsername || "user"}`}
+                            {tx.type === "voucher" && tx.direction === "sent" && tx.status === "expired" && " · Expired"}
+                          </p>
+                        )}
+                        {(tx.type === "trade" || tx.type === "tip") && tx.message && (
+                          <p className={`text-xs italic mt-0.5 ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
+                            "{tx.message}"{tx.isPrivate ? " · private" : ""}
+                          </p>
+                        )}
+                        {tx.type === "purchase" && tx.promoCode && (
+                          <p className="text-xs text-green-400 flex items-center gap-1 mt-0.5">
+                            <Tag size={12} />
+                            {tx.promoCode}
+                            {tx.promoBonusTokens ? ` · +${tx.promoBonusTokens} bonus` : ""}
+                            {tx.discountAmount && tx.discountAmount !== "0.00" ? ` · $${tx.discountAmount} off` : ""}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <p className={`font-medium ${theme === "dark" ? "text-white" : "text-gray-900"}`}>
-                        {tx.type === "purchase" && `Purchased ${tx.tokens} tokens`}
-                        {tx.type === "redemption" && `Subscribed to ${tx.productId} plan`}
-                        {tx.type === "trade" && tx.direction === "sent" && `Sent to ${tx.receiverUsername || "user"}`}
-                        {tx.type === "trade" && tx.direction === "received" && `Received from ${tx.senderUsername || "user"}`}
-                      </p>
-                      <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-600"}`}>
-                        {tx.createdAt.toLocaleString("en-US", { 
-                          month: "short", 
-                          day: "numeric", 
-                          hour: "numeric", 
-                          minute: "numeric" 
-                        })}
+                    <div className="text-right">
+                      <p className={`font-bold text-lg ${
+                        isRefunded
+                          ? "text-gray-500 line-through"
+                          : (tx.type === "purchase" && !tx.voucherCode) || tx.type === "reward" || ((tx.type === "trade" || tx.type === "voucher" || tx.type === "opening") && tx.direction === "received")
+                            ? "text-green-500"
+                            : tx.type === "purchase" || tx.type === "tip"
+                              ? theme === "dark" ? "text-gray-300" : "text-gray-700"
+                              : "text-red-500"
+                      }`}>
+                        {tx.type === "purchase" && !tx.voucherCode && `+${tx.tokens}`}
+                        {tx.type === "purchase" && tx.voucherCode && `$${tx.amount}`}
+                        {tx.type === "redemption" && `-${tx.tokenCost}`}
+                        {tx.type === "trade" && tx.direction === "sent" && `-${tx.tokens}`}
+                        {tx.type === "trade" && tx.direction === "received" && `+${tx.tokens}`}
+                        {tx.type === "voucher" && tx.direction === "sent" && `-${tx.tokens}`}
+                        {tx.type === "voucher" && tx.direction === "received" && `+${tx.tokens}`}
+                        {tx.type === "tip" && `$${tx.amount}`}
+                        {tx.type === "refund" && `-${tx.tokens}`}
+                        {tx.type === "opening" && `${tx.direction === "sent" ? "-" : "+"}${tx.tokens}`}
+                        {tx.type === "reward" && `+${tx.tokens}`}
                       </p>
+                      {(tx.type === "purchase" || tx.type === "redemption" || tx.type === "tip") && (
+                        <button
+                          onClick={() => handleViewReceipt(tx)}
+                          disabled={loadingReceiptId === tx.id}
+                          className={`mt-1 text-xs inline-flex items-center gap-1 transition-colors ${
+                            theme === "dark" ? "text-gray-400 hover:text-purple-400" : "text-gray-600 hover:text-purple-600"
+                          }`}
+                        >
+                          {loadingReceiptId === tx.id ? <Spinner size={12} className="animate-spin" /> : <Receipt size={12} />}
+                          Receipt
+                        </button>
+                      )}
                     </div>
                   </div>
-                  <div className="text-right">
-                    <p className={`font-bold text-lg ${
-                      tx.type === "purchase" || (tx.type === "trade" && tx.direction === "received")
-                        ? "text-green-500"
-                        : "text-red-500"
-                    }`}>
-                      {tx.type === "purchase" && `+${tx.tokens}`}
-                      {tx.type === "redemption" && `-${tx.tokenCost}`}
-                      {tx.type === "trade" && tx.direction === "sent" && `-${tx.tokens}`}
-                      {tx.type === "trade" && tx.direction === "received" && `+${tx.tokens}`}
-                    </p>
-                  </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           ) : (
             <div className="text-center py-12">
               <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-800/50 flex items-center justify-center">
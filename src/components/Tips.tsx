@@ -4,6 +4,24 @@ import { Spinner } from "phosphor-react";
 import { useTheme } from "../context/theme-context";
 import { useAuth } from "../context/auth-context";
 import { getFunctions, httpsCallable } from "firebase/functions";
+import { collection, onSnapshot, orderBy, query, Timestamp, where } from "firebase/firestore";
+import { db } from "../config/firebase";
+
+interface TipGoal {
+  id: string;
+  title: string;
+  description: string;
+  targetAmount: string;
+  raisedAmount?: string;
+  tipCount?: number;
+  deadline: Timestamp;
+}
+
+const getGoalProgress = (goal: TipGoal) => {
+  const target = parseFloat(goal.targetAmount) || 0;
+  const raised = parseFloat(goal.raisedAmount || "0");
+  return target > 0 ? Math.min(100, (raised / target) * 100) : 0;
+};
 
 const Tips = () => {
   const { theme } = useTheme();
@@ -15,8 +33,32 @@ const Tips = () => {
   const [amount, setAmount] = useState<string>("");
   const [orderAmount, setOrderAmount] = useState<string>(""); // Store the amount for consistency
   const [isPaypalReady, setIsPaypalReady] = useState<boolean>(false); // Control PayPalButtons rendering
+  const [message, setMessage] = useState<string>("");
+  const [isPrivate, setIsPrivate] = useState<boolean>(false);
+  const [anonymous, setAnonymous] = useState<boolean>(false);
+  const [goals, setGoals] = useState<TipGoal[]>([]);
+  const [goalId, setGoalId] = useState<string>("");
   const functions = getFunctions();
 
+  // Totals are kept on each goal by the server, so listening keeps the bars live as tips land
+  useEffect(() => {
+    if (!user) return;
+    const goalsQuery = query(collection(db, "tipGoals"), where("active", "==", true), orderBy("deadline", "asc"));
+    const unsubscribe = onSnapshot(
+      goalsQuery,
+      (snapshot) => {
+        const now = Date.now();
+        setGoals(
+          snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() } as TipGoal))
+            .filter((goal) => goal.deadline.toMillis() > now)
+        );
+      },
+      (err) => console.error("[Tips] Failed to load funding goals:", err)
+    );
+    return unsubscribe;
+  }, [user]);
+
   // Auto-hide transaction status message after 5 seconds for better visibility
   useEffect(() => {
     if (transactionStatus) {
@@ -84,6 +126,10 @@ const Tips = () => {
         sessionId,
         amount: formattedAmount,
         currency: "USD",
+        message: message.trim() || undefined,
+        isPrivate,
+        anonymous,
+        goalId: goalId || undefined,
       });
       const { orderId } = result.data as { orderId: string };
       console.log("[Tips] Created tip order:", orderId);
@@ -122,12 +168,19 @@ const Tips = () => {
         sessionId,
         amount: orderAmount, // Use the stored orderAmount to ensure consistency
         currency: "USD",
+        message: message.trim() || undefined,
+        isPrivate,
+        anonymous,
       });
       console.log("[Tips] Tip successfully captured:", order);
       setTransactionStatus("completed");
       setStatusMessage("Thank you for your support!");
       setAmount("");
       setOrderAmount(""); // Reset orderAmount
+      setMessage("");
+      setIsPrivate(false);
+      setAnonymous(false);
+      setGoalId("");
       localStorage.removeItem("sessionId");
       window.close();
     } catch (err: any) {
@@ -191,6 +244,35 @@ const Tips = () => {
           If you enjoy our services, consider leaving a tip! Every little bit helps us keep the servers running.
         </p>
 
+        {goals.length > 0 && (
+          <div className="mb-6 p-4 bg-[#1c1c1c] rounded-md shadow-lg">
+            <h2 className="text-xl font-semibold mb-4 text-center text-white">Funding Goals</h2>
+            <div className="space-y-4">
+              {goals.map((goal) => (
+                <div key={goal.id}>
+                  <div className="flex items-baseline justify-between">
+                    <p className="font-medium text-white">{goal.title}</p>
+                    <p className="text-sm text-gray-400">
+                      ${parseFloat(goal.raisedAmount || "0").toFixed(2)} / ${parseFloat(goal.targetAmount).toFixed(2)}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-400 mb-2">{goal.description}</p>
+                  <div className="w-full h-2 rounded-full bg-gray-700 overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-green-500 transition-all duration-500"
+                      style={{ width: `${getGoalProgress(goal)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {goal.tipCount || 0} {goal.tipCount === 1 ? "tip" : "tips"} · ends{" "}
+                    {goal.deadline.toDate().toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="mb-6 p-4 bg-[#1c1c1c] rounded-md shadow-lg">
           <h2 className="text-xl font-semibold mb-4 text-center text-white">Tip Jar</h2>
           <div className="space-y-4">
@@ -215,6 +297,67 @@ const Tips = () => {
                 disabled={loading} // Disable input during loading
               />
             </div>
+            {goals.length > 0 && (
+              <div>
+                <label className="block text-gray-300 mb-1">Put it toward</label>
+                <select
+                  value={goalId}
+                  onChange={(e) => {
+                    setGoalId(e.target.value);
+                    setIsPaypalReady(false); // The goal is sent with the order, so confirm again
+                  }}
+                  className="w-full px-4 py-2 border rounded-md bg-gray-800 border-gray-600 text-white focus:ring-0 focus:outline-none focus:border-gray-500"
+                  disabled={loading}
+                >
+                  <option value="">General tip jar</option>
+                  {goals.map((goal) => (
+                    <option key={goal.id} value={goal.id}>
+                      {goal.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-gray-300 mb-1">Message (optional)</label>
+              <textarea
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  setIsPaypalReady(false); // The note is sent with the order, so confirm again
+                }}
+                placeholder="Leave a shout-out for the leaderboard"
+                maxLength={140}
+                rows={2}
+                className="w-full px-4 py-2 border rounded-md bg-gray-800 border-gray-600 text-white focus:ring-0 focus:outline-none focus:border-gray-500 resize-none"
+                disabled={loading}
+              />
+              <p className="text-right text-xs text-gray-500">{message.length}/140</p>
+            </div>
+            <label className="flex items-center gap-2 text-gray-300 text-sm">
+              <input
+                type="checkbox"
+                checked={isPrivate}
+                onChange={(e) => {
+                  setIsPrivate(e.target.checked);
+                  setIsPaypalReady(false);
+                }}
+                disabled={loading}
+              />
+              Keep my message private (only you and admins can read it)
+            </label>
+            <label className="flex items-center gap-2 text-gray-300 text-sm">
+              <input
+                type="checkbox"
+                checked={anonymous}
+                onChange={(e) => {
+                  setAnonymous(e.target.checked);
+                  setIsPaypalReady(false);
+                }}
+                disabled={loading}
+              />
+              Tip anonymously (hidden from the leaderboard, still counts toward the total)
+            </label>
             {isResolved && !isPaypalReady && (
               <button
                 onClick={handlePaypalClick}